@@ -1,13 +1,51 @@
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, Button, ScrollView, Alert } from 'react-native';
+import { View, Text, StyleSheet, Button, ScrollView, Alert, Linking } from 'react-native';
 import * as ExpoHealthKit from '@kayzmann/expo-healthkit';
-import type { Workout } from '@kayzmann/expo-healthkit';
+import type { AuthorizationNextStep, DataType, Workout } from '@kayzmann/expo-healthkit';
+
+const READ_TYPES: DataType[] = [
+  'Workout',
+  'Steps',
+  'HeartRate',
+  'Sleep',
+  'DietaryWater',
+  'DietaryCaffeine',
+  'DietaryProtein',
+  'DietaryCarbohydrates',
+  'DietaryFat',
+  'Height',
+  'Weight',
+  'BodyFatPercentage',
+];
+
+const WRITE_TYPES: DataType[] = [
+  'Workout',
+  'DietaryWater',
+  'DietaryCaffeine',
+  'DietaryProtein',
+  'DietaryCarbohydrates',
+  'DietaryFat',
+  'Height',
+  'Weight',
+  'BodyFatPercentage',
+];
+
+// Show the permission sheet if it would appear, then report what is left to do
+async function authorize(): Promise<AuthorizationNextStep> {
+  const summary = await ExpoHealthKit.getAuthorizationSummary(READ_TYPES, WRITE_TYPES);
+  if (summary.nextStep !== 'prompt') {
+    return summary.nextStep;
+  }
+  await ExpoHealthKit.requestAuthorization(READ_TYPES, WRITE_TYPES);
+  return (await ExpoHealthKit.getAuthorizationSummary(READ_TYPES, WRITE_TYPES)).nextStep;
+}
 
 export default function HealthKitDemo() {
   const [isAvailable, setIsAvailable] = useState(false);
-  const [authorized, setAuthorized] = useState(false);
+  const [nextStep, setNextStep] = useState<AuthorizationNextStep | null>(null);
   const [workouts, setWorkouts] = useState<Workout[]>([]);
   const [stats, setStats] = useState({ distance: 0, calories: 0 });
+  const authorized = nextStep === 'continue';
 
   useEffect(() => {
     // Check if HealthKit is available
@@ -22,92 +60,46 @@ export default function HealthKitDemo() {
 
   const requestHealthKitAccess = async () => {
     try {
-      await ExpoHealthKit.requestAuthorization(
-        [
-          'Workout',
-          'Steps',
-          'HeartRate',
-          'Sleep',
-          'DietaryWater',
-          'DietaryCaffeine',
-          'DietaryProtein',
-          'DietaryCarbohydrates',
-          'DietaryFat',
-          'Height',
-          'Weight',
-          'BodyFatPercentage',
-        ] as any, // Read permissions - using 'as any' for demo since local types may not match published package
-        [
-          'Workout',
-          'DietaryWater',
-          'DietaryCaffeine',
-          'DietaryProtein',
-          'DietaryCarbohydrates',
-          'DietaryFat',
-          'Height',
-          'Weight',
-          'BodyFatPercentage',
-        ] as any // Write permissions
-      );
-      setAuthorized(true);
-    } catch (error: any) {
+      setNextStep(await authorize());
+    } catch (error) {
+      // No alert since this is automatic on mount; the manual request
+      // button stays visible
       console.error('HealthKit authorization error:', error);
-      // Authorization can fail if user denies, but we don't show an alert
-      // since this is automatic on mount. User can still manually request.
-      // Set authorized to false to show the manual request button
-      setAuthorized(false);
     }
   };
 
   const handleRequestAuth = async () => {
     try {
-      await ExpoHealthKit.requestAuthorization(
-        [
-          'Workout',
-          'Steps',
-          'HeartRate',
-          'Sleep',
-          'DietaryWater',
-          'DietaryCaffeine',
-          'DietaryProtein',
-          'DietaryCarbohydrates',
-          'DietaryFat',
-          'Height',
-          'Weight',
-          'BodyFatPercentage',
-        ] as any, // Read permissions
-        [
-          'Workout',
-          'DietaryWater',
-          'DietaryCaffeine',
-          'DietaryProtein',
-          'DietaryCarbohydrates',
-          'DietaryFat',
-          'Height',
-          'Weight',
-          'BodyFatPercentage',
-        ] as any // Write permissions
-      );
-      setAuthorized(true);
-      Alert.alert('Success', 'HealthKit authorization granted');
+      const step = await authorize();
+      setNextStep(step);
+      if (step === 'continue') {
+        Alert.alert('Success', 'HealthKit authorization granted');
+      }
     } catch (error) {
       Alert.alert('Error', 'Failed to authorize HealthKit');
       console.error(error);
     }
   };
 
+  // The sheet is only shown once per type, so declined types can only be
+  // allowed again in Settings
+  const handleOpenSettings = async () => {
+    await Linking.openSettings();
+  };
+
   const handleSaveWorkout = async () => {
     try {
-      const now = Date.now() / 1000;
-      const oneHourAgo = now - 3600;
+      const now = new Date();
+      const oneHourAgo = new Date(now.getTime() - 3600 * 1000);
 
       await ExpoHealthKit.saveWorkout({
         startDate: oneHourAgo,
         endDate: now,
         duration: 3600, // 1 hour
-        distance: 5000, // 5km
+        distance: 5,
         calories: 350,
         activityType: 'running',
+        units: { distance: 'km' },
         metadata: {
           note: 'Morning run',
         },
@@ -126,11 +118,14 @@ export default function HealthKitDemo() {
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
 
-      const results = await ExpoHealthKit.queryWorkouts({
-        startDate: thirtyDaysAgo,
-        endDate: new Date(),
-        limit: 10,
-      });
+      const results = await ExpoHealthKit.queryWorkouts(
+        {
+          startDate: thirtyDaysAgo,
+          endDate: new Date(),
+          limit: 10,
+        },
+        { distance: 'km' }
+      );
 
       setWorkouts(results);
     } catch (error) {
@@ -146,7 +141,8 @@ export default function HealthKitDemo() {
 
       const distance = await ExpoHealthKit.getTotalDistance(
         thirtyDaysAgo,
-        new Date()
+        new Date(),
+        'km'
       );
 
       const calories = await ExpoHealthKit.getTotalCalories(
@@ -155,7 +151,7 @@ export default function HealthKitDemo() {
       );
 
       setStats({
-        distance: Math.round(distance),
+        distance,
         calories: Math.round(calories),
       });
     } catch (error) {
@@ -176,11 +172,11 @@ export default function HealthKitDemo() {
   };
 
   const formatDate = (timestamp: number) => {
-    return new Date(timestamp * 1000).toLocaleString();
+    return ExpoHealthKit.toDate(ExpoHealthKit.epochSeconds(timestamp)).toLocaleString();
   };
 
-  const formatDistance = (meters: number) => {
-    return (meters / 1000).toFixed(2) + ' km';
+  const formatDistance = (kilometers: number) => {
+    return kilometers.toFixed(2) + ' km';
   };
 
   const formatDuration = (seconds: number) => {
@@ -204,7 +200,15 @@ export default function HealthKitDemo() {
       {!authorized && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Authorization</Text>
-          <Button title="Request HealthKit Access" onPress={handleRequestAuth} />
+          {nextStep === 'openSettings' ? (
+            <>
+              <Text style={styles.emptyText}>Some health data was declined. Allow it in Settings.</Text>
+              <Button title="Open Settings" onPress={handleOpenSettings} />
+              <Button title="Check Again" onPress={handleRequestAuth} />
+            </>
+          ) : (
+            <Button title="Request HealthKit Access" onPress={handleRequestAuth} />
+          )}
         </View>
       )}
 
@@ -241,7 +245,9 @@ export default function HealthKitDemo() {
               workouts.map((workout) => (
                 <View key={workout.id} style={styles.workout}>
                   <View style={styles.workoutHeader}>
-                    <Text style={styles.workoutType}>{workout.activityType}</Text>
+                    <Text style={styles.workoutType}>
+                      {ExpoHealthKit.getActivityTypeInfo(workout.activityType).displayName}
+                    </Text>
                     <Button
                       title="Delete"
                       onPress={() => handleDeleteWorkout(workout.id)}
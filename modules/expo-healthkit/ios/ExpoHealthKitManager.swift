@@ -1,65 +1,188 @@
+import CoreLocation
+import ExpoModulesCore
 import Foundation
 import HealthKit
 
-enum HealthKitError: Error {
+enum HealthKitError: CodedError {
   case notAvailable
   case authorizationFailed(String)
+  case authorizationDenied(String)
+  case authorizationNotDetermined(String)
+  case databaseLocked(String)
+  case invalidArgument(String)
   case saveFailed(String)
   case queryFailed(String)
   case missingRequiredData(String)
   case workoutNotFound
+  case bloodPressureNotFound
+
+  var code: String {
+    switch self {
+    case .notAvailable:
+      return "ERR_HEALTHKIT_UNAVAILABLE"
+    case .authorizationFailed:
+      return "ERR_HEALTHKIT_AUTHORIZATION_FAILED"
+    case .authorizationDenied:
+      return "ERR_HEALTHKIT_AUTHORIZATION_DENIED"
+    case .authorizationNotDetermined:
+      return "ERR_HEALTHKIT_AUTHORIZATION_NOT_DETERMINED"
+    case .databaseLocked:
+      return "ERR_HEALTHKIT_DATABASE_LOCKED"
+    case .invalidArgument, .missingRequiredData:
+      return "ERR_HEALTHKIT_INVALID_ARGUMENT"
+    case .saveFailed:
+      return "ERR_HEALTHKIT_SAVE_FAILED"
+    case .queryFailed:
+      return "ERR_HEALTHKIT_QUERY_FAILED"
+    case .workoutNotFound, .bloodPressureNotFound:
+      return "ERR_HEALTHKIT_NOT_FOUND"
+    }
+  }
+
+  var description: String {
+    switch self {
+    case .notAvailable:
+      return "HealthKit is not available on this device"
+    case .workoutNotFound:
+      return "Workout not found"
+    case .bloodPressureNotFound:
+      return "Blood pressure reading not found"
+    case .authorizationFailed(let message),
+         .authorizationDenied(let message),
+         .authorizationNotDetermined(let message),
+         .databaseLocked(let message),
+         .invalidArgument(let message),
+         .saveFailed(let message),
+         .queryFailed(let message),
+         .missingRequiredData(let message):
+      return message
+    }
+  }
+
+  // Map an error returned by HealthKit onto the matching case,
+  // falling back to the given case for anything unrecognized
+  static func from(_ error: Error, fallback: (String) -> HealthKitError) -> HealthKitError {
+    let message = error.localizedDescription
+    guard let hkError = error as? HKError else {
+      return fallback(message)
+    }
+
+    switch hkError.code {
+    case .errorHealthDataUnavailable, .errorHealthDataRestricted:
+      return .notAvailable
+    case .errorAuthorizationDenied:
+      return .authorizationDenied(message)
+    case .errorAuthorizationNotDetermined:
+      return .authorizationNotDetermined(message)
+    case .errorDatabaseInaccessible:
+      return .databaseLocked(message)
+    case .errorInvalidArgument:
+      return .invalidArgument(message)
+    default:
+      return fallback(message)
+    }
+  }
 }
 
 class ExpoHealthKitManager {
   private let healthStore = HKHealthStore()
+  private var observerQueries: [String: HKObserverQuery] = [:]
+  private let observerLock = NSLock()
+  // HealthKit has no metadata key for the meal a food belongs to
+  private let mealTypeMetadataKey = "ExpoHealthKitMealType"
+  // Indexed by the raw values of HKWorkoutSwimmingLocationType and HKSwimmingStrokeStyle
+  private let swimmingLocations = ["unknown", "pool", "openWater"]
+  private let swimmingStrokeStyles = ["unknown", "mixed", "freestyle", "backstroke", "breaststroke", "butterfly", "kickboard"]
+  private let workoutEventTypes: [String: HKWorkoutEventType] = [
+    "pause": .pause,
+    "resume": .resume,
+    "motionPaused": .motionPaused,
+    "motionResumed": .motionResumed,
+    "lap": .lap,
+    "segment": .segment,
+    "marker": .marker
+  ]
+  private let metsUnit = HKUnit.kilocalorie().unitDivided(by: HKUnit.gramUnit(with: .kilo).unitMultiplied(by: .hour()))
 
   func requestAuthorization(readTypes: [String], writeTypes: [String]) async throws {
     guard HKHealthStore.isHealthDataAvailable() else {
       throw HealthKitError.notAvailable
     }
 
-    let readDataTypes = Set(readTypes.compactMap { parseDataType($0) })
-    let writeDataTypes = Set(writeTypes.compactMap { parseDataType($0) })
+    let (readDataTypes, writeDataTypes) = authorizationTypes(readTypes: readTypes, writeTypes: writeTypes)
 
     do {
-      try await healthStore.requestAuthorization(toShare: writeDataTypes as! Set<HKSampleType>, read: readDataTypes)
+      try await healthStore.requestAuthorization(toShare: writeDataTypes, read: readDataTypes)
     } catch {
-      throw HealthKitError.authorizationFailed(error.localizedDescription)
+      throw HealthKitError.from(error, fallback: HealthKitError.authorizationFailed)
     }
   }
 
-  func saveWorkout(data: [String: Any]) async throws -> String {
-    guard let startDate = data["startDate"] as? Double,
-          let endDate = data["endDate"] as? Double,
-          let duration = data["duration"] as? Double,
-          let distance = data["distance"] as? Double,
-          let calories = data["calories"] as? Double else {
-      throw HealthKitError.missingRequiredData("Missing required workout data")
+  func getAuthorizationStatus(dataType: String) throws -> String {
+    guard HKHealthStore.isHealthDataAvailable() else {
+      throw HealthKitError.notAvailable
+    }
+    guard let type = parseDataType(dataType) else {
+      throw HealthKitError.invalidArgument("Unsupported data type: \(dataType)")
     }
 
-    let activityType = parseActivityType(data["activityType"] as? String ?? "running")
+    switch healthStore.authorizationStatus(for: type) {
+    case .sharingAuthorized:
+      return "sharingAuthorized"
+    case .sharingDenied:
+      return "sharingDenied"
+    default:
+      return "notDetermined"
+    }
+  }
 
-    let workout = HKWorkout(
-      activityType: activityType,
-      start: Date(timeIntervalSince1970: startDate),
-      end: Date(timeIntervalSince1970: endDate),
-      duration: duration,
-      totalEnergyBurned: HKQuantity(unit: .kilocalorie(), doubleValue: calories),
-      totalDistance: HKQuantity(unit: .meter(), doubleValue: distance),
-      device: .local(),
-      metadata: data["metadata"] as? [String: Any]
-    )
+  func getRequestStatus(readTypes: [String], writeTypes: [String]) async throws -> String {
+    guard HKHealthStore.isHealthDataAvailable() else {
+      throw HealthKitError.notAvailable
+    }
 
-    do {
-      try await healthStore.save(workout)
-      return workout.uuid.uuidString
-    } catch {
-      throw HealthKitError.saveFailed(error.localizedDescription)
+    let (readDataTypes, writeDataTypes) = authorizationTypes(readTypes: readTypes, writeTypes: writeTypes)
+
+    return try await withCheckedThrowingContinuation { continuation in
+      healthStore.getRequestStatusForAuthorization(toShare: writeDataTypes, read: readDataTypes) { status, error in
+        if let error = error {
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.authorizationFailed))
+          return
+        }
+
+        switch status {
+        case .shouldRequest:
+          continuation.resume(returning: "shouldRequest")
+        case .unnecessary:
+          continuation.resume(returning: "unnecessary")
+        default:
+          continuation.resume(returning: "unknown")
+        }
+      }
     }
   }
 
-  func queryWorkouts(startDate: Date, endDate: Date, limit: Int?) async throws -> [[String: Any]] {
-    let predicate = HKQuery.predicateForSamples(withStart: startDate, end: endDate, options: .strictStartDate)
+  // The types to request for the given names, with the route type added to workouts:
+  // routes are stored as a separate series type but belong to workouts
+  private func authorizationTypes(readTypes: [String], writeTypes: [String]) -> (Set<HKObjectType>, Set<HKSampleType>) {
+    var readDataTypes = Set(readTypes.compactMap { parseDataType($0) })
+    var writeDataTypes = Set(writeTypes.compactMap { parseDataType($0) as? HKSampleType })
+
+    if readDataTypes.contains(HKObjectType.workoutType()) {
+      readDataTypes.insert(HKSeriesType.workoutRoute())
+    }
+    if writeDataTypes.contains(HKObjectType.workoutType()) {
+      writeDataTypes.insert(HKSeriesType.workoutRoute())
+    }
+    return (readDataTypes, writeDataTypes)
+  }
+
+  func saveWorkout(data: [String: Any]) async throws -> String {
+    return try await insertWorkout(data: data).uuid.uuidString
+  }
+
+  func queryWorkouts(startDate: Date, endDate: Date, limit: Int?, cursor: [String: Any]? = nil) async throws -> [[String: Any]] {
+    let predicate = samplePredicate(startDate: startDate, endDate: endDate, cursor: cursor)
     let sortDescriptor = NSSortDescriptor(key: HKSampleSortIdentifierEndDate, ascending: false)
 
     return try await withCheckedThrowingContinuation { continuation in
@@ -70,7 +193,7 @@ class ExpoHealthKitManager {
         sortDescriptors: [sortDescriptor]
       ) { _, samples, error in
         if let error = error {
-          continuation.resume(throwing: HealthKitError.queryFailed(error.localizedDescription))
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
           return
         }
 
@@ -79,19 +202,7 @@ class ExpoHealthKitManager {
           return
         }
 
-        let workoutData = workouts.map { workout -> [String: Any] in
-          return [
-            "id": workout.uuid.uuidString,
-            "activityType": self.formatActivityType(workout.workoutActivityType),
-            "startDate": workout.startDate.timeIntervalSince1970,
-            "endDate": workout.endDate.timeIntervalSince1970,
-            "duration": workout.duration,
-            "distance": workout.totalDistance?.doubleValue(for: .meter()) ?? 0,
-            "calories": workout.totalEnergyBurned?.doubleValue(for: .kilocalorie()) ?? 0
-          ]
-        }
-
-        continuation.resume(returning: workoutData)
+        continuation.resume(returning: workouts.map { self.serializeWorkout($0) })
       }
 
       healthStore.execute(query)
@@ -108,7 +219,7 @@ class ExpoHealthKitManager {
         options: .cumulativeSum
       ) { _, result, error in
         if let error = error {
-          continuation.resume(throwing: HealthKitError.queryFailed(error.localizedDescription))
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
           return
         }
 
@@ -130,7 +241,7 @@ class ExpoHealthKitManager {
         options: .cumulativeSum
       ) { _, result, error in
         if let error = error {
-          continuation.resume(throwing: HealthKitError.queryFailed(error.localizedDescription))
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
           return
         }
 
@@ -143,42 +254,43 @@ class ExpoHealthKitManager {
   }
 
   func deleteWorkout(id: String) async throws {
-    guard let uuid = UUID(uuidString: id) else {
-      throw HealthKitError.missingRequiredData("Invalid workout ID")
+    let workout = try await findWorkout(id: id)
+
+    do {
+      try await healthStore.delete(workout)
+    } catch {
+      throw HealthKitError.from(error, fallback: HealthKitError.saveFailed)
     }
+  }
 
-    let predicate = HKQuery.predicateForObject(with: uuid)
+  func getWorkoutRoute(workoutId: String) async throws -> [[String: Any]] {
+    let workout = try await findWorkout(id: workoutId)
+    let predicate = HKQuery.predicateForObjects(from: workout)
 
-    return try await withCheckedThrowingContinuation { continuation in
+    let routes: [HKWorkoutRoute] = try await withCheckedThrowingContinuation { continuation in
       let query = HKSampleQuery(
-        sampleType: HKObjectType.workoutType(),
+        sampleType: HKSeriesType.workoutRoute(),
         predicate: predicate,
-        limit: 1,
-        sortDescriptors: nil
+        limit: HKObjectQueryNoLimit,
+        sortDescriptors: [NSSortDescriptor(key: HKSampleSortIdentifierStartDate, ascending: true)]
       ) { _, samples, error in
         if let error = error {
-          continuation.resume(throwing: HealthKitError.queryFailed(error.localizedDescription))
-          return
-        }
-
-        guard let workout = samples?.first else {
-          continuation.resume(throwing: HealthKitError.workoutNotFound)
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
           return
         }
-
-        self.healthStore.delete(workout) { success, error in
-          if let error = error {
-            continuation.resume(throwing: HealthKitError.saveFailed(error.localizedDescription))
-          } else if success {
-            continuation.resume(returning: ())
-          } else {
-            continuation.resume(throwing: HealthKitError.saveFailed("Failed to delete workout"))
-          }
-        }
+        continuation.resume(returning: samples as? [HKWorkoutRoute] ?? [])
       }
 
       healthStore.execute(query)
     }
+
+    var locations: [CLLocation] = []
+    for route in routes {
+      locations.append(contentsOf: try await getRouteLocations(route))
+    }
+    return locations
+      .sorted { $0.timestamp < $1.timestamp }
+      .map { serializeLocation($0) }
   }
 
   // MARK: - Steps & Activity
@@ -271,7 +383,8 @@ class ExpoHealthKitManager {
   func getRestingHeartRate(startDate: Date, endDate: Date) async throws -> Double? {
     return try await getLatestQuantity(
       identifier: .restingHeartRate,
-      unit: .count().unitDivided(by: .minute())
+      unit: .count().unitDivided(by: .minute()),
+      predicate: HKQuery.predicateForSamples(withStart: startDate, end: endDate, options: .strictStartDate)
     )
   }
 
@@ -286,21 +399,52 @@ class ExpoHealthKitManager {
   }
 
   func saveBloodPressure(systolic: Double, diastolic: Double, date: Date) async throws {
-    // Save systolic
-    try await saveQuantitySample(
-      identifier: .bloodPressureSystolic,
-      value: systolic,
-      unit: .millimeterOfMercury(),
-      date: date
-    )
+    _ = try await insertBloodPressure(systolic: systolic, diastolic: diastolic, date: date)
+  }
 
-    // Save diastolic
-    try await saveQuantitySample(
-      identifier: .bloodPressureDiastolic,
-      value: diastolic,
-      unit: .millimeterOfMercury(),
-      date: date
+  func getBloodPressureSamples(startDate: Date, endDate: Date, limit: Int?) async throws -> [[String: Any]] {
+    let predicate = HKQuery.predicateForSamples(withStart: startDate, end: endDate, options: .strictStartDate)
+    let sortDescriptor = NSSortDescriptor(key: HKSampleSortIdentifierEndDate, ascending: false)
+
+    return try await withCheckedThrowingContinuation { continuation in
+      let query = HKSampleQuery(
+        sampleType: HKCorrelationType.correlationType(forIdentifier: .bloodPressure)!,
+        predicate: predicate,
+        limit: limit ?? HKObjectQueryNoLimit,
+        sortDescriptors: [sortDescriptor]
+      ) { _, samples, error in
+        if let error = error {
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
+          return
+        }
+
+        guard let readings = samples as? [HKCorrelation] else {
+          continuation.resume(returning: [])
+          return
+        }
+
+        continuation.resume(returning: readings.compactMap { self.serializeBloodPressure($0) })
+      }
+
+      healthStore.execute(query)
+    }
+  }
+
+  // Deleting the correlation leaves its samples behind, so both go
+  func deleteBloodPressure(id: String) async throws {
+    let correlation: HKCorrelation = try await findSample(
+      id: id,
+      type: HKCorrelationType.correlationType(forIdentifier: .bloodPressure)!,
+      invalidId: "Invalid blood pressure ID",
+      notFound: .bloodPressureNotFound
     )
+
+    let objects: [HKObject] = [correlation] + Array(correlation.objects)
+    do {
+      try await healthStore.delete(objects)
+    } catch {
+      throw HealthKitError.from(error, fallback: HealthKitError.saveFailed)
+    }
   }
 
   // MARK: - Sleep
@@ -317,7 +461,7 @@ class ExpoHealthKitManager {
         sortDescriptors: [sortDescriptor]
       ) { _, samples, error in
         if let error = error {
-          continuation.resume(throwing: HealthKitError.queryFailed(error.localizedDescription))
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
           return
         }
 
@@ -326,46 +470,7 @@ class ExpoHealthKitManager {
           return
         }
 
-        let sleepData = sleepSamples.map { sample -> [String: Any] in
-          var sleepState = "unknown"
-          if #available(iOS 16.0, *) {
-            switch sample.value {
-            case HKCategoryValueSleepAnalysis.asleepCore.rawValue:
-              sleepState = "core"
-            case HKCategoryValueSleepAnalysis.asleepDeep.rawValue:
-              sleepState = "deep"
-            case HKCategoryValueSleepAnalysis.asleepREM.rawValue:
-              sleepState = "rem"
-            case HKCategoryValueSleepAnalysis.awake.rawValue:
-              sleepState = "awake"
-            case HKCategoryValueSleepAnalysis.inBed.rawValue:
-              sleepState = "inBed"
-            default:
-              sleepState = "asleep"
-            }
-          } else {
-            switch sample.value {
-            case HKCategoryValueSleepAnalysis.asleep.rawValue:
-              sleepState = "asleep"
-            case HKCategoryValueSleepAnalysis.awake.rawValue:
-              sleepState = "awake"
-            case HKCategoryValueSleepAnalysis.inBed.rawValue:
-              sleepState = "inBed"
-            default:
-              sleepState = "unknown"
-            }
-          }
-
-          return [
-            "id": sample.uuid.uuidString,
-            "value": sleepState,
-            "startDate": sample.startDate.timeIntervalSince1970,
-            "endDate": sample.endDate.timeIntervalSince1970,
-            "duration": sample.endDate.timeIntervalSince(sample.startDate)
-          ]
-        }
-
-        continuation.resume(returning: sleepData)
+        continuation.resume(returning: sleepSamples.map { self.serializeSleepSample($0) })
       }
 
       healthStore.execute(query)
@@ -429,6 +534,335 @@ class ExpoHealthKitManager {
     )
   }
 
+  func saveFoodEntry(data: [String: Any]) async throws -> String {
+    guard let name = data["name"] as? String,
+          let nutrients = data["nutrients"] as? [String: Double],
+          let startDate = data["startDate"] as? Double,
+          let endDate = data["endDate"] as? Double else {
+      throw HealthKitError.missingRequiredData("Missing required food entry data")
+    }
+
+    let start = Date(timeIntervalSince1970: startDate)
+    let end = Date(timeIntervalSince1970: endDate)
+    var metadata: [String: Any] = [HKMetadataKeyFoodType: name]
+    if let mealType = data["mealType"] as? String {
+      metadata[mealTypeMetadataKey] = mealType
+    }
+
+    var samples = Set<HKSample>()
+    for (dataType, value) in nutrients {
+      guard let quantityType = parseDataType(dataType) as? HKQuantityType,
+            quantityType.identifier.hasPrefix("HKQuantityTypeIdentifierDietary") else {
+        throw HealthKitError.invalidArgument("\(dataType) is not a nutrient")
+      }
+      let identifier = HKQuantityTypeIdentifier(rawValue: quantityType.identifier)
+      samples.insert(HKQuantitySample(
+        type: quantityType,
+        quantity: HKQuantity(unit: canonicalUnit(for: identifier), doubleValue: value),
+        start: start,
+        end: end,
+        metadata: metadata
+      ))
+    }
+
+    let correlation = HKCorrelation(
+      type: HKCorrelationType.correlationType(forIdentifier: .food)!,
+      start: start,
+      end: end,
+      objects: samples,
+      metadata: metadata
+    )
+
+    do {
+      try await healthStore.save(correlation)
+    } catch {
+      throw HealthKitError.from(error, fallback: HealthKitError.saveFailed)
+    }
+    return correlation.uuid.uuidString
+  }
+
+  func getFoodEntries(startDate: Date, endDate: Date, limit: Int?) async throws -> [[String: Any]] {
+    let predicate = HKQuery.predicateForSamples(withStart: startDate, end: endDate, options: .strictStartDate)
+    let sortDescriptor = NSSortDescriptor(key: HKSampleSortIdentifierEndDate, ascending: false)
+
+    return try await withCheckedThrowingContinuation { continuation in
+      let query = HKSampleQuery(
+        sampleType: HKCorrelationType.correlationType(forIdentifier: .food)!,
+        predicate: predicate,
+        limit: limit ?? HKObjectQueryNoLimit,
+        sortDescriptors: [sortDescriptor]
+      ) { _, samples, error in
+        if let error = error {
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
+          return
+        }
+
+        guard let entries = samples as? [HKCorrelation] else {
+          continuation.resume(returning: [])
+          return
+        }
+
+        continuation.resume(returning: entries.map { self.serializeFoodEntry($0) })
+      }
+
+      healthStore.execute(query)
+    }
+  }
+
+  // MARK: - Batch Writes
+
+  // Samples are saved one at a time. An atomic batch stops at the first
+  // failure and deletes what it saved before; those samples and the ones
+  // after the failure get an empty result.
+  func saveSamples(_ samples: [[String: Any]], atomic: Bool) async -> [[String: Any]] {
+    var results = [[String: Any]](repeating: [:], count: samples.count)
+    var saved: [(index: Int, objects: [HKObject])] = []
+
+    for (index, sample) in samples.enumerated() {
+      do {
+        let objects = try await saveSample(sample)
+        results[index] = ["id": objects[0].uuid.uuidString]
+        saved.append((index, objects))
+      } catch {
+        let failure = error as? HealthKitError ?? HealthKitError.from(error, fallback: HealthKitError.saveFailed)
+        results[index] = ["error": ["code": failure.code, "message": failure.description]]
+        guard atomic else {
+          continue
+        }
+
+        // A sample that can't be deleted again keeps its ID, so the results
+        // still describe what is in the store
+        for (savedIndex, objects) in saved {
+          if (try? await healthStore.delete(objects)) != nil {
+            results[savedIndex] = [:]
+          }
+        }
+        break
+      }
+    }
+
+    return results
+  }
+
+  // MARK: - Quantity Samples
+
+  func queryQuantitySamples(
+    dataType: String,
+    startDate: Date,
+    endDate: Date,
+    limit: Int?,
+    cursor: [String: Any]? = nil
+  ) async throws -> [[String: Any]] {
+    guard let quantityType = parseDataType(dataType) as? HKQuantityType else {
+      throw HealthKitError.invalidArgument("\(dataType) is not a quantity type")
+    }
+
+    let identifier = HKQuantityTypeIdentifier(rawValue: quantityType.identifier)
+    let samples = try await getQuantitySamples(
+      identifier: identifier,
+      startDate: startDate,
+      endDate: endDate,
+      unit: canonicalUnit(for: identifier),
+      limit: limit,
+      cursor: cursor
+    )
+    guard identifier == .bodyFatPercentage else {
+      return samples
+    }
+
+    // Body fat crosses the bridge as 0-100
+    return samples.map { sample in
+      var scaled = sample
+      scaled["value"] = (sample["value"] as? Double ?? 0) * 100.0
+      return scaled
+    }
+  }
+
+  // MARK: - Changes
+
+  func getChanges(dataType: String, anchor: String?, limit: Int?) async throws -> [String: Any] {
+    guard let sampleType = parseDataType(dataType) as? HKSampleType else {
+      throw HealthKitError.invalidArgument("Invalid data type: \(dataType)")
+    }
+    let queryAnchor = try anchor.map { try decodeAnchor($0) }
+
+    return try await withCheckedThrowingContinuation { continuation in
+      let query = HKAnchoredObjectQuery(
+        type: sampleType,
+        predicate: nil,
+        anchor: queryAnchor,
+        limit: limit ?? HKObjectQueryNoLimit
+      ) { _, samples, deletedObjects, newAnchor, error in
+        if let error = error {
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
+          return
+        }
+
+        // Keep the previous anchor if HealthKit did not hand out a new one
+        guard let nextAnchor = newAnchor.flatMap({ self.encodeAnchor($0) }) ?? anchor else {
+          continuation.resume(throwing: HealthKitError.queryFailed("HealthKit returned no anchor"))
+          return
+        }
+
+        continuation.resume(returning: [
+          "added": (samples ?? []).map { self.serializeSample($0) },
+          "deleted": (deletedObjects ?? []).map { $0.uuid.uuidString },
+          "anchor": nextAnchor
+        ])
+      }
+
+      healthStore.execute(query)
+    }
+  }
+
+  // MARK: - Observers
+
+  // Observer queries are keyed by the data type name they were started with.
+  // After an error HealthKit stops delivering updates, so the query is dropped
+  // and the error reported; JS starts it again after authorization changes.
+  func startObserving(dataType: String, onChange: @escaping (HealthKitError?) -> Void) throws {
+    guard let sampleType = parseDataType(dataType) as? HKSampleType else {
+      throw HealthKitError.invalidArgument("Invalid data type: \(dataType)")
+    }
+    stopObserving(dataType: dataType)
+
+    let query = HKObserverQuery(sampleType: sampleType, predicate: nil) { [weak self] _, completionHandler, error in
+      if let error = error {
+        self?.stopObserving(dataType: dataType)
+        onChange(HealthKitError.from(error, fallback: HealthKitError.queryFailed))
+      } else {
+        onChange(nil)
+      }
+      completionHandler()
+    }
+
+    observerLock.lock()
+    observerQueries[dataType] = query
+    observerLock.unlock()
+    healthStore.execute(query)
+  }
+
+  func stopObserving(dataType: String) {
+    observerLock.lock()
+    let query = observerQueries.removeValue(forKey: dataType)
+    observerLock.unlock()
+    if let query = query {
+      healthStore.stop(query)
+    }
+  }
+
+  // MARK: - Statistics
+
+  func getStatisticsCollection(
+    dataType: String,
+    startDate: Date,
+    endDate: Date,
+    interval: String,
+    aggregation: String
+  ) async throws -> [[String: Any]] {
+    guard let quantityType = parseDataType(dataType) as? HKQuantityType else {
+      throw HealthKitError.invalidArgument("\(dataType) is not a quantity type")
+    }
+    guard let component = parseCalendarComponent(interval) else {
+      throw HealthKitError.invalidArgument("Invalid interval: \(interval)")
+    }
+
+    let identifier = HKQuantityTypeIdentifier(rawValue: quantityType.identifier)
+    let options = try parseStatisticsOptions(aggregation, for: quantityType)
+    let calendar = Calendar.current
+    let anchorDate = calendar.dateInterval(of: component, for: startDate)?.start ?? startDate
+    var intervalComponents = DateComponents()
+    intervalComponents.setValue(1, for: component)
+    let predicate = HKQuery.predicateForSamples(withStart: startDate, end: endDate, options: .strictStartDate)
+
+    return try await withCheckedThrowingContinuation { continuation in
+      let query = HKStatisticsCollectionQuery(
+        quantityType: quantityType,
+        quantitySamplePredicate: predicate,
+        options: options,
+        anchorDate: anchorDate,
+        intervalComponents: intervalComponents
+      )
+
+      query.initialResultsHandler = { _, collection, error in
+        if let error = error {
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
+          return
+        }
+
+        var buckets: [[String: Any]] = []
+        collection?.enumerateStatistics(from: anchorDate, to: endDate) { statistics, _ in
+          // enumerateStatistics includes a bucket starting exactly at endDate
+          guard statistics.startDate < endDate else {
+            return
+          }
+
+          var value: Any = NSNull()
+          if let quantity = self.aggregatedQuantity(statistics, aggregation: aggregation) {
+            value = self.canonicalValue(quantity, for: identifier)
+          }
+
+          buckets.append([
+            "startDate": statistics.startDate.timeIntervalSince1970,
+            "endDate": statistics.endDate.timeIntervalSince1970,
+            "value": value
+          ])
+        }
+
+        continuation.resume(returning: buckets)
+      }
+
+      healthStore.execute(query)
+    }
+  }
+
+  private func parseCalendarComponent(_ interval: String) -> Calendar.Component? {
+    switch interval {
+    case "hour":
+      return .hour
+    case "day":
+      return .day
+    case "week":
+      return .weekOfYear
+    case "month":
+      return .month
+    default:
+      return nil
+    }
+  }
+
+  private func parseStatisticsOptions(_ aggregation: String, for quantityType: HKQuantityType) throws -> HKStatisticsOptions {
+    let isCumulative = quantityType.aggregationStyle == .cumulative
+
+    switch aggregation {
+    case "sum" where isCumulative:
+      return .cumulativeSum
+    case "avg" where !isCumulative:
+      return .discreteAverage
+    case "min" where !isCumulative:
+      return .discreteMin
+    case "max" where !isCumulative:
+      return .discreteMax
+    default:
+      throw HealthKitError.invalidArgument("\(quantityType.identifier) does not support the \(aggregation) aggregation")
+    }
+  }
+
+  private func aggregatedQuantity(_ statistics: HKStatistics, aggregation: String) -> HKQuantity? {
+    switch aggregation {
+    case "sum":
+      return statistics.sumQuantity()
+    case "avg":
+      return statistics.averageQuantity()
+    case "min":
+      return statistics.minimumQuantity()
+    case "max":
+      return statistics.maximumQuantity()
+    default:
+      return nil
+    }
+  }
+
   // MARK: - Generic Helper Methods
 
   private func getQuantitySum(identifier: HKQuantityTypeIdentifier, startDate: Date, endDate: Date, unit: HKUnit) async throws -> Double {
@@ -441,7 +875,7 @@ class ExpoHealthKitManager {
         options: .cumulativeSum
       ) { _, result, error in
         if let error = error {
-          continuation.resume(throwing: HealthKitError.queryFailed(error.localizedDescription))
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
           return
         }
 
@@ -453,18 +887,23 @@ class ExpoHealthKitManager {
     }
   }
 
-  private func getLatestQuantity(identifier: HKQuantityTypeIdentifier, unit: HKUnit) async throws -> Double? {
+  // The newest sample, optionally only among those matching `predicate`
+  private func getLatestQuantity(
+    identifier: HKQuantityTypeIdentifier,
+    unit: HKUnit,
+    predicate: NSPredicate? = nil
+  ) async throws -> Double? {
     let sortDescriptor = NSSortDescriptor(key: HKSampleSortIdentifierEndDate, ascending: false)
 
     return try await withCheckedThrowingContinuation { continuation in
       let query = HKSampleQuery(
         sampleType: HKQuantityType.quantityType(forIdentifier: identifier)!,
-        predicate: nil,
+        predicate: predicate,
         limit: 1,
         sortDescriptors: [sortDescriptor]
       ) { _, samples, error in
         if let error = error {
-          continuation.resume(throwing: HealthKitError.queryFailed(error.localizedDescription))
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
           return
         }
 
@@ -481,8 +920,15 @@ class ExpoHealthKitManager {
     }
   }
 
-  private func getQuantitySamples(identifier: HKQuantityTypeIdentifier, startDate: Date, endDate: Date, unit: HKUnit, limit: Int?) async throws -> [[String: Any]] {
-    let predicate = HKQuery.predicateForSamples(withStart: startDate, end: endDate, options: .strictStartDate)
+  private func getQuantitySamples(
+    identifier: HKQuantityTypeIdentifier,
+    startDate: Date,
+    endDate: Date,
+    unit: HKUnit,
+    limit: Int?,
+    cursor: [String: Any]? = nil
+  ) async throws -> [[String: Any]] {
+    let predicate = samplePredicate(startDate: startDate, endDate: endDate, cursor: cursor)
     let sortDescriptor = NSSortDescriptor(key: HKSampleSortIdentifierEndDate, ascending: false)
 
     return try await withCheckedThrowingContinuation { continuation in
@@ -493,7 +939,7 @@ class ExpoHealthKitManager {
         sortDescriptors: [sortDescriptor]
       ) { _, samples, error in
         if let error = error {
-          continuation.resume(throwing: HealthKitError.queryFailed(error.localizedDescription))
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
           return
         }
 
@@ -518,24 +964,599 @@ class ExpoHealthKitManager {
     }
   }
 
-  private func saveQuantitySample(identifier: HKQuantityTypeIdentifier, value: Double, unit: HKUnit, date: Date) async throws {
+  @discardableResult
+  private func saveQuantitySample(
+    identifier: HKQuantityTypeIdentifier,
+    value: Double,
+    unit: HKUnit,
+    date: Date,
+    endDate: Date? = nil
+  ) async throws -> HKQuantitySample {
     let quantity = HKQuantity(unit: unit, doubleValue: value)
     let sample = HKQuantitySample(
       type: HKQuantityType.quantityType(forIdentifier: identifier)!,
       quantity: quantity,
       start: date,
-      end: date
+      end: endDate ?? date
     )
 
     do {
       try await healthStore.save(sample)
     } catch {
-      throw HealthKitError.saveFailed(error.localizedDescription)
+      throw HealthKitError.from(error, fallback: HealthKitError.saveFailed)
+    }
+    return sample
+  }
+
+  private func insertWorkout(data: [String: Any]) async throws -> HKWorkout {
+    guard let startDate = data["startDate"] as? Double,
+          let endDate = data["endDate"] as? Double,
+          let duration = data["duration"] as? Double,
+          let distance = data["distance"] as? Double,
+          let calories = data["calories"] as? Double else {
+      throw HealthKitError.missingRequiredData("Missing required workout data")
+    }
+
+    let activityType = parseActivityType(data["activityType"] as? String ?? "running")
+    let metadata = parseWorkoutMetadata(data["metadata"] as? [String: Any] ?? [:])
+    let events = try parseWorkoutEvents(data["events"] as? [[String: Any]] ?? [])
+    let locations = try parseRoute(data["route"] as? [[String: Any]] ?? [])
+    let start = Date(timeIntervalSince1970: startDate)
+    let end = Date(timeIntervalSince1970: endDate)
+    let totalEnergyBurned = HKQuantity(unit: .kilocalorie(), doubleValue: calories)
+    let totalDistance = HKQuantity(unit: .meter(), doubleValue: distance)
+
+    // With events, HealthKit works out the duration itself from the pauses
+    let workout = events.isEmpty
+      ? HKWorkout(
+          activityType: activityType,
+          start: start,
+          end: end,
+          duration: duration,
+          totalEnergyBurned: totalEnergyBurned,
+          totalDistance: totalDistance,
+          device: .local(),
+          metadata: metadata
+        )
+      : HKWorkout(
+          activityType: activityType,
+          start: start,
+          end: end,
+          workoutEvents: events,
+          totalEnergyBurned: totalEnergyBurned,
+          totalDistance: totalDistance,
+          device: .local(),
+          metadata: metadata
+        )
+
+    do {
+      try await healthStore.save(workout)
+    } catch {
+      throw HealthKitError.from(error, fallback: HealthKitError.saveFailed)
+    }
+
+    if !locations.isEmpty {
+      do {
+        let routeBuilder = HKWorkoutRouteBuilder(healthStore: healthStore, device: .local())
+        try await routeBuilder.insertRouteData(locations)
+        _ = try await routeBuilder.finishRoute(with: workout, metadata: nil)
+      } catch {
+        // Don't leave a workout behind without the route it was saved with
+        try? await healthStore.delete(workout)
+        throw HealthKitError.from(error, fallback: HealthKitError.saveFailed)
+      }
+    }
+
+    return workout
+  }
+
+  // Systolic and diastolic are saved together as one correlation, so the
+  // reading has a single UUID
+  private func insertBloodPressure(systolic: Double, diastolic: Double, date: Date) async throws -> HKCorrelation {
+    let unit = HKUnit.millimeterOfMercury()
+    let objects: Set<HKSample> = [
+      HKQuantitySample(
+        type: HKQuantityType.quantityType(forIdentifier: .bloodPressureSystolic)!,
+        quantity: HKQuantity(unit: unit, doubleValue: systolic),
+        start: date,
+        end: date
+      ),
+      HKQuantitySample(
+        type: HKQuantityType.quantityType(forIdentifier: .bloodPressureDiastolic)!,
+        quantity: HKQuantity(unit: unit, doubleValue: diastolic),
+        start: date,
+        end: date
+      ),
+    ]
+    let correlation = HKCorrelation(
+      type: HKCorrelationType.correlationType(forIdentifier: .bloodPressure)!,
+      start: date,
+      end: date,
+      objects: objects
+    )
+
+    do {
+      try await healthStore.save(correlation)
+    } catch {
+      throw HealthKitError.from(error, fallback: HealthKitError.saveFailed)
+    }
+    return correlation
+  }
+
+  // Save one sample of a batch, returning everything stored for it with the
+  // sample itself first
+  private func saveSample(_ sample: [String: Any]) async throws -> [HKObject] {
+    switch sample["kind"] as? String {
+    case "quantity":
+      guard let dataType = sample["dataType"] as? String,
+            let value = sample["value"] as? Double,
+            let startDate = sample["startDate"] as? Double,
+            let endDate = sample["endDate"] as? Double else {
+        throw HealthKitError.missingRequiredData("Missing required sample data")
+      }
+      guard let quantityType = parseDataType(dataType) as? HKQuantityType else {
+        throw HealthKitError.invalidArgument("\(dataType) is not a quantity type")
+      }
+
+      let identifier = HKQuantityTypeIdentifier(rawValue: quantityType.identifier)
+      let quantitySample = try await saveQuantitySample(
+        identifier: identifier,
+        value: identifier == .bodyFatPercentage ? value / 100.0 : value, // Body fat crosses the bridge as 0-100
+        unit: canonicalUnit(for: identifier),
+        date: Date(timeIntervalSince1970: startDate),
+        endDate: Date(timeIntervalSince1970: endDate)
+      )
+      return [quantitySample]
+
+    case "bloodPressure":
+      guard let systolic = sample["systolic"] as? Double,
+            let diastolic = sample["diastolic"] as? Double,
+            let startDate = sample["startDate"] as? Double else {
+        throw HealthKitError.missingRequiredData("Missing required blood pressure data")
+      }
+
+      let correlation = try await insertBloodPressure(
+        systolic: systolic,
+        diastolic: diastolic,
+        date: Date(timeIntervalSince1970: startDate)
+      )
+      return [correlation] + Array(correlation.objects)
+
+    case "workout":
+      return [try await insertWorkout(data: sample)]
+
+    default:
+      throw HealthKitError.invalidArgument("Unknown sample kind")
     }
   }
 
   // MARK: - Helper Methods
 
+  private func findWorkout(id: String) async throws -> HKWorkout {
+    return try await findSample(
+      id: id,
+      type: HKObjectType.workoutType(),
+      invalidId: "Invalid workout ID",
+      notFound: .workoutNotFound
+    )
+  }
+
+  private func findSample<Sample: HKSample>(
+    id: String,
+    type: HKSampleType,
+    invalidId: String,
+    notFound: HealthKitError
+  ) async throws -> Sample {
+    guard let uuid = UUID(uuidString: id) else {
+      throw HealthKitError.invalidArgument(invalidId)
+    }
+
+    let predicate = HKQuery.predicateForObject(with: uuid)
+
+    return try await withCheckedThrowingContinuation { continuation in
+      let query = HKSampleQuery(
+        sampleType: type,
+        predicate: predicate,
+        limit: 1,
+        sortDescriptors: nil
+      ) { _, samples, error in
+        if let error = error {
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
+          return
+        }
+
+        guard let sample = samples?.first as? Sample else {
+          continuation.resume(throwing: notFound)
+          return
+        }
+
+        continuation.resume(returning: sample)
+      }
+
+      healthStore.execute(query)
+    }
+  }
+
+  // A route query delivers its locations in batches until `done`
+  private func getRouteLocations(_ route: HKWorkoutRoute) async throws -> [CLLocation] {
+    return try await withCheckedThrowingContinuation { continuation in
+      var locations: [CLLocation] = []
+      let query = HKWorkoutRouteQuery(route: route) { _, batch, done, error in
+        if let error = error {
+          continuation.resume(throwing: HealthKitError.from(error, fallback: HealthKitError.queryFailed))
+          return
+        }
+
+        locations.append(contentsOf: batch ?? [])
+        if done {
+          continuation.resume(returning: locations)
+        }
+      }
+
+      healthStore.execute(query)
+    }
+  }
+
+  private func parseRoute(_ route: [[String: Any]]) throws -> [CLLocation] {
+    return try route.map { point in
+      guard let latitude = point["latitude"] as? Double,
+            let longitude = point["longitude"] as? Double,
+            let timestamp = point["timestamp"] as? Double else {
+        throw HealthKitError.missingRequiredData("Route locations need latitude, longitude and timestamp")
+      }
+
+      let altitude = point["altitude"] as? Double
+      // A negative accuracy marks the value as invalid
+      let verticalAccuracy = altitude == nil ? -1 : point["verticalAccuracy"] as? Double ?? 0
+
+      return CLLocation(
+        coordinate: CLLocationCoordinate2D(latitude: latitude, longitude: longitude),
+        altitude: altitude ?? 0,
+        horizontalAccuracy: point["horizontalAccuracy"] as? Double ?? 0,
+        verticalAccuracy: verticalAccuracy,
+        timestamp: Date(timeIntervalSince1970: timestamp)
+      )
+    }
+  }
+
+  private func serializeLocation(_ location: CLLocation) -> [String: Any] {
+    var point: [String: Any] = [
+      "latitude": location.coordinate.latitude,
+      "longitude": location.coordinate.longitude,
+      "timestamp": location.timestamp.timeIntervalSince1970
+    ]
+    if location.horizontalAccuracy >= 0 {
+      point["horizontalAccuracy"] = location.horizontalAccuracy
+    }
+    if location.verticalAccuracy >= 0 {
+      point["altitude"] = location.altitude
+      point["verticalAccuracy"] = location.verticalAccuracy
+    }
+    return point
+  }
+
+  private func serializeWorkout(_ workout: HKWorkout) -> [String: Any] {
+    return [
+      "id": workout.uuid.uuidString,
+      "activityType": formatActivityType(workout.workoutActivityType),
+      "startDate": workout.startDate.timeIntervalSince1970,
+      "endDate": workout.endDate.timeIntervalSince1970,
+      "duration": workout.duration,
+      "distance": workout.totalDistance?.doubleValue(for: .meter()) ?? 0,
+      "calories": workout.totalEnergyBurned?.doubleValue(for: .kilocalorie()) ?? 0,
+      "metadata": serializeWorkoutMetadata(workout.metadata),
+      "events": (workout.workoutEvents ?? []).compactMap { serializeWorkoutEvent($0) }
+    ]
+  }
+
+  // The typed keys go under HealthKit's own keys, in its units; any other
+  // key is saved as is
+  private func parseWorkoutMetadata(_ metadata: [String: Any]) -> [String: Any]? {
+    var parsed: [String: Any] = [:]
+    for (key, value) in metadata {
+      switch key {
+      case "indoor":
+        parsed[HKMetadataKeyIndoorWorkout] = value as? Bool ?? false
+      case "elevationAscended":
+        parsed[HKMetadataKeyElevationAscended] = (value as? Double).map { HKQuantity(unit: .meter(), doubleValue: $0) }
+      case "weatherTemperature":
+        parsed[HKMetadataKeyWeatherTemperature] = (value as? Double).map {
+          HKQuantity(unit: .degreeCelsius(), doubleValue: $0)
+        }
+      case "weatherHumidity":
+        // Humidity crosses the bridge as 0-100, HealthKit's percent unit is 0-1
+        parsed[HKMetadataKeyWeatherHumidity] = (value as? Double).map { HKQuantity(unit: .percent(), doubleValue: $0 / 100.0) }
+      case "lapLength":
+        parsed[HKMetadataKeyLapLength] = (value as? Double).map { HKQuantity(unit: .meter(), doubleValue: $0) }
+      case "swimmingLocation":
+        parsed[HKMetadataKeySwimmingLocationType] = (value as? String).flatMap { swimmingLocations.firstIndex(of: $0) }
+      case "averageMETs":
+        if #available(iOS 14.0, *) {
+          parsed[HKMetadataKeyAverageMETs] = (value as? Double).map { HKQuantity(unit: metsUnit, doubleValue: $0) }
+        }
+      default:
+        parsed[key] = value
+      }
+    }
+    return parsed.isEmpty ? nil : parsed
+  }
+
+  // HealthKit's keys are read back under the typed names; other values that
+  // are not strings or numbers (dates, quantities) are left out
+  private func serializeWorkoutMetadata(_ metadata: [String: Any]?) -> [String: Any] {
+    var serialized: [String: Any] = [:]
+    for (key, value) in metadata ?? [:] {
+      if #available(iOS 14.0, *), key == HKMetadataKeyAverageMETs {
+        serialized["averageMETs"] = (value as? HKQuantity)?.doubleValue(for: metsUnit)
+        continue
+      }
+
+      switch key {
+      case HKMetadataKeyIndoorWorkout:
+        serialized["indoor"] = (value as? NSNumber)?.boolValue
+      case HKMetadataKeyElevationAscended:
+        serialized["elevationAscended"] = (value as? HKQuantity)?.doubleValue(for: .meter())
+      case HKMetadataKeyWeatherTemperature:
+        serialized["weatherTemperature"] = (value as? HKQuantity)?.doubleValue(for: .degreeCelsius())
+      case HKMetadataKeyWeatherHumidity:
+        serialized["weatherHumidity"] = (value as? HKQuantity).map { $0.doubleValue(for: .percent()) * 100.0 }
+      case HKMetadataKeyLapLength:
+        serialized["lapLength"] = (value as? HKQuantity)?.doubleValue(for: .meter())
+      case HKMetadataKeySwimmingLocationType:
+        if let raw = (value as? NSNumber)?.intValue, swimmingLocations.indices.contains(raw) {
+          serialized["swimmingLocation"] = swimmingLocations[raw]
+        }
+      default:
+        if value is String || value is NSNumber {
+          serialized[key] = value
+        }
+      }
+    }
+    return serialized
+  }
+
+  private func parseWorkoutEvents(_ events: [[String: Any]]) throws -> [HKWorkoutEvent] {
+    return try events.map { event in
+      guard let type = (event["type"] as? String).flatMap({ workoutEventTypes[$0] }),
+            let startDate = event["startDate"] as? Double,
+            let endDate = event["endDate"] as? Double else {
+        throw HealthKitError.invalidArgument("Invalid workout event")
+      }
+
+      var metadata: [String: Any] = [:]
+      for (key, value) in event["metadata"] as? [String: Any] ?? [:] {
+        if key == "swimmingStrokeStyle" {
+          metadata[HKMetadataKeySwimmingStrokeStyle] = (value as? String).flatMap { swimmingStrokeStyles.firstIndex(of: $0) }
+        } else {
+          metadata[key] = value
+        }
+      }
+
+      return HKWorkoutEvent(
+        type: type,
+        dateInterval: DateInterval(
+          start: Date(timeIntervalSince1970: startDate),
+          end: Date(timeIntervalSince1970: endDate)
+        ),
+        metadata: metadata.isEmpty ? nil : metadata
+      )
+    }
+  }
+
+  // Events of types this module has no name for are left out
+  private func serializeWorkoutEvent(_ event: HKWorkoutEvent) -> [String: Any]? {
+    guard let type = workoutEventTypes.first(where: { $0.value == event.type })?.key else {
+      return nil
+    }
+
+    var metadata: [String: Any] = [:]
+    for (key, value) in event.metadata ?? [:] {
+      if key == HKMetadataKeySwimmingStrokeStyle {
+        if let raw = (value as? NSNumber)?.intValue, swimmingStrokeStyles.indices.contains(raw) {
+          metadata["swimmingStrokeStyle"] = swimmingStrokeStyles[raw]
+        }
+      } else if value is String || value is NSNumber {
+        metadata[key] = value
+      }
+    }
+
+    return [
+      "type": type,
+      "startDate": event.dateInterval.start.timeIntervalSince1970,
+      "endDate": event.dateInterval.end.timeIntervalSince1970,
+      "metadata": metadata
+    ]
+  }
+
+  private func serializeSleepSample(_ sample: HKCategorySample) -> [String: Any] {
+    var sleepState = "unknown"
+    if #available(iOS 16.0, *) {
+      switch sample.value {
+      case HKCategoryValueSleepAnalysis.asleepCore.rawValue:
+        sleepState = "core"
+      case HKCategoryValueSleepAnalysis.asleepDeep.rawValue:
+        sleepState = "deep"
+      case HKCategoryValueSleepAnalysis.asleepREM.rawValue:
+        sleepState = "rem"
+      case HKCategoryValueSleepAnalysis.awake.rawValue:
+        sleepState = "awake"
+      case HKCategoryValueSleepAnalysis.inBed.rawValue:
+        sleepState = "inBed"
+      default:
+        sleepState = "asleep"
+      }
+    } else {
+      switch sample.value {
+      case HKCategoryValueSleepAnalysis.asleep.rawValue:
+        sleepState = "asleep"
+      case HKCategoryValueSleepAnalysis.awake.rawValue:
+        sleepState = "awake"
+      case HKCategoryValueSleepAnalysis.inBed.rawValue:
+        sleepState = "inBed"
+      default:
+        sleepState = "unknown"
+      }
+    }
+
+    return [
+      "id": sample.uuid.uuidString,
+      "value": sleepState,
+      "startDate": sample.startDate.timeIntervalSince1970,
+      "endDate": sample.endDate.timeIntervalSince1970,
+      "duration": sample.endDate.timeIntervalSince(sample.startDate)
+    ]
+  }
+
+  // Only the nutrients the app may read are in the correlation's objects
+  private func serializeFoodEntry(_ correlation: HKCorrelation) -> [String: Any] {
+    var nutrients: [String: Double] = [:]
+    for case let sample as HKQuantitySample in correlation.objects {
+      let identifier = HKQuantityTypeIdentifier(rawValue: sample.quantityType.identifier)
+      let name = nutrientName(for: identifier)
+      nutrients[name, default: 0] += sample.quantity.doubleValue(for: canonicalUnit(for: identifier))
+    }
+
+    var entry: [String: Any] = [
+      "id": correlation.uuid.uuidString,
+      "nutrients": nutrients,
+      "startDate": correlation.startDate.timeIntervalSince1970,
+      "endDate": correlation.endDate.timeIntervalSince1970
+    ]
+    if let name = correlation.metadata?[HKMetadataKeyFoodType] as? String {
+      entry["name"] = name
+    }
+    if let mealType = correlation.metadata?[mealTypeMetadataKey] as? String {
+      entry["mealType"] = mealType
+    }
+    return entry
+  }
+
+  // Only readings whose halves the app may both read are returned
+  private func serializeBloodPressure(_ correlation: HKCorrelation) -> [String: Any]? {
+    let unit = HKUnit.millimeterOfMercury()
+    let systolic = correlation.objects(for: HKQuantityType.quantityType(forIdentifier: .bloodPressureSystolic)!).first
+    let diastolic = correlation.objects(for: HKQuantityType.quantityType(forIdentifier: .bloodPressureDiastolic)!).first
+    guard let systolic = systolic as? HKQuantitySample, let diastolic = diastolic as? HKQuantitySample else {
+      return nil
+    }
+
+    return [
+      "id": correlation.uuid.uuidString,
+      "systolic": systolic.quantity.doubleValue(for: unit),
+      "diastolic": diastolic.quantity.doubleValue(for: unit),
+      "timestamp": correlation.startDate.timeIntervalSince1970
+    ]
+  }
+
+  // Nutrients cross the bridge under their canonical names: the identifier
+  // without its prefix, except for dietary energy
+  private func nutrientName(for identifier: HKQuantityTypeIdentifier) -> String {
+    if identifier == .dietaryEnergyConsumed {
+      return "DietaryEnergy"
+    }
+    return String(identifier.rawValue.dropFirst("HKQuantityTypeIdentifier".count))
+  }
+
+  // Quantity values in the canonical unit; category samples other than sleep
+  // (mindful sessions) carry their duration in seconds
+  private func serializeSample(_ sample: HKSample) -> [String: Any] {
+    if let workout = sample as? HKWorkout {
+      return serializeWorkout(workout)
+    }
+    if let category = sample as? HKCategorySample, category.categoryType.identifier == HKCategoryTypeIdentifier.sleepAnalysis.rawValue {
+      return serializeSleepSample(category)
+    }
+
+    var value = sample.endDate.timeIntervalSince(sample.startDate)
+    if let quantitySample = sample as? HKQuantitySample {
+      let identifier = HKQuantityTypeIdentifier(rawValue: quantitySample.quantityType.identifier)
+      value = canonicalValue(quantitySample.quantity, for: identifier)
+    }
+    return [
+      "id": sample.uuid.uuidString,
+      "value": value,
+      "startDate": sample.startDate.timeIntervalSince1970,
+      "endDate": sample.endDate.timeIntervalSince1970
+    ]
+  }
+
+  private func encodeAnchor(_ anchor: HKQueryAnchor) -> String? {
+    let data = try? NSKeyedArchiver.archivedData(withRootObject: anchor, requiringSecureCoding: true)
+    return data?.base64EncodedString()
+  }
+
+  private func decodeAnchor(_ anchor: String) throws -> HKQueryAnchor {
+    guard let data = Data(base64Encoded: anchor),
+          let decoded = try? NSKeyedUnarchiver.unarchivedObject(ofClass: HKQueryAnchor.self, from: data) else {
+      throw HealthKitError.invalidArgument("Invalid anchor")
+    }
+    return decoded
+  }
+
+  // Samples starting in the range and, when paginating, ending at or before
+  // the cursor without the ones a previous page already returned
+  private func samplePredicate(startDate: Date, endDate: Date, cursor: [String: Any]?) -> NSPredicate {
+    let range = HKQuery.predicateForSamples(withStart: startDate, end: endDate, options: .strictStartDate)
+    guard let cursorEndDate = cursor?["endDate"] as? Double else {
+      return range
+    }
+
+    var predicates = [
+      range,
+      NSPredicate(format: "%K <= %@", HKPredicateKeyPathEndDate, Date(timeIntervalSince1970: cursorEndDate) as NSDate)
+    ]
+    let excludedIds = Set((cursor?["excludeIds"] as? [String] ?? []).compactMap { UUID(uuidString: $0) })
+    if !excludedIds.isEmpty {
+      predicates.append(NSCompoundPredicate(notPredicateWithSubpredicate: HKQuery.predicateForObjects(with: excludedIds)))
+    }
+    return NSCompoundPredicate(andPredicateWithSubpredicates: predicates)
+  }
+
+  // The unit each quantity type crosses the bridge in (CANONICAL_UNITS on the JS side)
+  private func canonicalUnit(for identifier: HKQuantityTypeIdentifier) -> HKUnit {
+    switch identifier {
+    case .stepCount, .flightsClimbed, .bodyMassIndex:
+      return .count()
+    case .distanceWalkingRunning, .distanceCycling, .distanceSwimming:
+      return .meter()
+    case .activeEnergyBurned, .basalEnergyBurned, .dietaryEnergyConsumed:
+      return .kilocalorie()
+    case .height:
+      return .meterUnit(with: .centi)
+    case .bodyMass, .leanBodyMass:
+      return .gramUnit(with: .kilo)
+    case .bodyFatPercentage, .oxygenSaturation:
+      return .percent()
+    case .heartRate, .restingHeartRate, .respiratoryRate:
+      return .count().unitDivided(by: .minute())
+    case .heartRateVariabilitySDNN:
+      return .secondUnit(with: .milli)
+    case .bloodPressureSystolic, .bloodPressureDiastolic:
+      return .millimeterOfMercury()
+    case .bodyTemperature:
+      return .degreeCelsius()
+    case .dietaryWater:
+      return .literUnit(with: .milli)
+    case .dietaryCaffeine, .dietaryCholesterol, .dietarySodium, .dietaryThiamin,
+         .dietaryRiboflavin, .dietaryNiacin, .dietaryPantothenicAcid, .dietaryVitaminB6,
+         .dietaryVitaminC, .dietaryVitaminE, .dietaryCalcium, .dietaryChloride, .dietaryIron,
+         .dietaryMagnesium, .dietaryPhosphorus, .dietaryPotassium, .dietaryZinc, .dietaryCopper,
+         .dietaryManganese:
+      return .gramUnit(with: .milli)
+    case .dietaryVitaminA, .dietaryBiotin, .dietaryFolate, .dietaryVitaminB12, .dietaryVitaminD,
+         .dietaryVitaminK, .dietaryChromium, .dietaryIodine, .dietaryMolybdenum, .dietarySelenium:
+      return .gramUnit(with: .micro)
+    default:
+      return .gram()
+    }
+  }
+
+  // Body fat crosses the bridge as 0-100, every other percentage as 0-1
+  private func canonicalValue(_ quantity: HKQuantity, for identifier: HKQuantityTypeIdentifier) -> Double {
+    let value = quantity.doubleValue(for: canonicalUnit(for: identifier))
+    return identifier == .bodyFatPercentage ? value * 100.0 : value
+  }
+
   private func parseDataType(_ type: String) -> HKObjectType? {
     switch type.lowercased() {
     // Workouts
@@ -603,6 +1624,70 @@ class ExpoHealthKitManager {
       return HKQuantityType.quantityType(forIdentifier: .dietaryWater)
     case "caffeine", "dietarycaffeine":
       return HKQuantityType.quantityType(forIdentifier: .dietaryCaffeine)
+    case "sugar", "dietarysugar":
+      return HKQuantityType.quantityType(forIdentifier: .dietarySugar)
+    case "saturatedfat", "dietaryfatsaturated":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryFatSaturated)
+    case "monounsaturatedfat", "dietaryfatmonounsaturated":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryFatMonounsaturated)
+    case "polyunsaturatedfat", "dietaryfatpolyunsaturated":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryFatPolyunsaturated)
+    case "cholesterol", "dietarycholesterol":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryCholesterol)
+    case "sodium", "dietarysodium":
+      return HKQuantityType.quantityType(forIdentifier: .dietarySodium)
+    case "vitamina", "dietaryvitamina":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryVitaminA)
+    case "thiamin", "vitaminb1", "dietarythiamin":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryThiamin)
+    case "riboflavin", "vitaminb2", "dietaryriboflavin":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryRiboflavin)
+    case "niacin", "vitaminb3", "dietaryniacin":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryNiacin)
+    case "pantothenicacid", "vitaminb5", "dietarypantothenicacid":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryPantothenicAcid)
+    case "vitaminb6", "dietaryvitaminb6":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryVitaminB6)
+    case "biotin", "vitaminb7", "dietarybiotin":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryBiotin)
+    case "folate", "vitaminb9", "dietaryfolate":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryFolate)
+    case "vitaminb12", "dietaryvitaminb12":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryVitaminB12)
+    case "vitaminc", "dietaryvitaminc":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryVitaminC)
+    case "vitamind", "dietaryvitamind":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryVitaminD)
+    case "vitamine", "dietaryvitamine":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryVitaminE)
+    case "vitamink", "dietaryvitamink":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryVitaminK)
+    case "calcium", "dietarycalcium":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryCalcium)
+    case "chloride", "dietarychloride":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryChloride)
+    case "iron", "dietaryiron":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryIron)
+    case "magnesium", "dietarymagnesium":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryMagnesium)
+    case "phosphorus", "dietaryphosphorus":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryPhosphorus)
+    case "potassium", "dietarypotassium":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryPotassium)
+    case "zinc", "dietaryzinc":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryZinc)
+    case "chromium", "dietarychromium":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryChromium)
+    case "copper", "dietarycopper":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryCopper)
+    case "iodine", "dietaryiodine":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryIodine)
+    case "manganese", "dietarymanganese":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryManganese)
+    case "molybdenum", "dietarymolybdenum":
+      return HKQuantityType.quantityType(forIdentifier: .dietaryMolybdenum)
+    case "selenium", "dietaryselenium":
+      return HKQuantityType.quantityType(forIdentifier: .dietarySelenium)
 
     // Sleep
     case "sleep", "sleepanalysis":
@@ -617,57 +1702,110 @@ class ExpoHealthKitManager {
     }
   }
 
-  private func parseActivityType(_ type: String) -> HKWorkoutActivityType {
-    switch type.lowercased() {
-    case "running":
-      return .running
-    case "walking":
-      return .walking
-    case "cycling":
-      return .cycling
-    case "swimming":
-      return .swimming
-    case "hiking":
-      return .hiking
-    case "yoga":
-      return .yoga
-    case "functionalstrengthtraining":
-      return .functionalStrengthTraining
-    case "traditionalstrengthtraining":
-      return .traditionalStrengthTraining
-    case "elliptical":
-      return .elliptical
-    case "rowing":
-      return .rowing
-    default:
-      return .other
+  // Activity types cross the bridge under their HKWorkoutActivityType case
+  // names. Deprecated cases stay so older workouts keep their type.
+  private static let activityTypeNames: [HKWorkoutActivityType: String] = {
+    var names: [HKWorkoutActivityType: String] = [
+      .americanFootball: "americanFootball",
+      .archery: "archery",
+      .australianFootball: "australianFootball",
+      .badminton: "badminton",
+      .barre: "barre",
+      .baseball: "baseball",
+      .basketball: "basketball",
+      .bowling: "bowling",
+      .boxing: "boxing",
+      .climbing: "climbing",
+      .coreTraining: "coreTraining",
+      .cricket: "cricket",
+      .crossCountrySkiing: "crossCountrySkiing",
+      .crossTraining: "crossTraining",
+      .curling: "curling",
+      .cycling: "cycling",
+      .dance: "dance",
+      .danceInspiredTraining: "danceInspiredTraining",
+      .discSports: "discSports",
+      .downhillSkiing: "downhillSkiing",
+      .elliptical: "elliptical",
+      .equestrianSports: "equestrianSports",
+      .fencing: "fencing",
+      .fishing: "fishing",
+      .fitnessGaming: "fitnessGaming",
+      .flexibility: "flexibility",
+      .functionalStrengthTraining: "functionalStrengthTraining",
+      .golf: "golf",
+      .gymnastics: "gymnastics",
+      .handball: "handball",
+      .handCycling: "handCycling",
+      .highIntensityIntervalTraining: "highIntensityIntervalTraining",
+      .hiking: "hiking",
+      .hockey: "hockey",
+      .hunting: "hunting",
+      .jumpRope: "jumpRope",
+      .kickboxing: "kickboxing",
+      .lacrosse: "lacrosse",
+      .martialArts: "martialArts",
+      .mindAndBody: "mindAndBody",
+      .mixedCardio: "mixedCardio",
+      .mixedMetabolicCardioTraining: "mixedMetabolicCardioTraining",
+      .paddleSports: "paddleSports",
+      .pilates: "pilates",
+      .play: "play",
+      .preparationAndRecovery: "preparationAndRecovery",
+      .racquetball: "racquetball",
+      .rowing: "rowing",
+      .rugby: "rugby",
+      .running: "running",
+      .sailing: "sailing",
+      .skatingSports: "skatingSports",
+      .snowboarding: "snowboarding",
+      .snowSports: "snowSports",
+      .soccer: "soccer",
+      .softball: "softball",
+      .squash: "squash",
+      .stairClimbing: "stairClimbing",
+      .stairs: "stairs",
+      .stepTraining: "stepTraining",
+      .surfingSports: "surfingSports",
+      .swimming: "swimming",
+      .tableTennis: "tableTennis",
+      .taiChi: "taiChi",
+      .tennis: "tennis",
+      .trackAndField: "trackAndField",
+      .traditionalStrengthTraining: "traditionalStrengthTraining",
+      .volleyball: "volleyball",
+      .walking: "walking",
+      .waterFitness: "waterFitness",
+      .waterPolo: "waterPolo",
+      .waterSports: "waterSports",
+      .wheelchairRunPace: "wheelchairRunPace",
+      .wheelchairWalkPace: "wheelchairWalkPace",
+      .wrestling: "wrestling",
+      .yoga: "yoga",
+      .other: "other"
+    ]
+    if #available(iOS 14.0, *) {
+      names[.cardioDance] = "cardioDance"
+      names[.cooldown] = "cooldown"
+      names[.pickleball] = "pickleball"
+      names[.socialDance] = "socialDance"
     }
+    if #available(iOS 16.0, *) {
+      names[.swimBikeRun] = "swimBikeRun"
+      names[.transition] = "transition"
+    }
+    if #available(iOS 17.0, *) {
+      names[.underwaterDiving] = "underwaterDiving"
+    }
+    return names
+  }()
+
+  private func parseActivityType(_ type: String) -> HKWorkoutActivityType {
+    let name = type.lowercased()
+    return Self.activityTypeNames.first { $0.value.lowercased() == name }?.key ?? .other
   }
 
   private func formatActivityType(_ type: HKWorkoutActivityType) -> String {
-    switch type {
-    case .running:
-      return "running"
-    case .walking:
-      return "walking"
-    case .cycling:
-      return "cycling"
-    case .swimming:
-      return "swimming"
-    case .hiking:
-      return "hiking"
-    case .yoga:
-      return "yoga"
-    case .functionalStrengthTraining:
-      return "functionalStrengthTraining"
-    case .traditionalStrengthTraining:
-      return "traditionalStrengthTraining"
-    case .elliptical:
-      return "elliptical"
-    case .rowing:
-      return "rowing"
-    default:
-      return "other"
-    }
+    return Self.activityTypeNames[type] ?? "other"
   }
 }
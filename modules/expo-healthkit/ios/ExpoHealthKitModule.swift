@@ -7,6 +7,8 @@ public class ExpoHealthKitModule: Module {
   public func definition() -> ModuleDefinition {
     Name("ExpoHealthKit")
 
+    Events("onDataChanged")
+
     Function("isAvailable") { () -> Bool in
       return HKHealthStore.isHealthDataAvailable()
     }
@@ -15,6 +17,14 @@ public class ExpoHealthKitModule: Module {
       try await healthManager.requestAuthorization(readTypes: readTypes, writeTypes: writeTypes)
     }
 
+    AsyncFunction("getAuthorizationStatus") { (dataType: String) throws -> String in
+      return try healthManager.getAuthorizationStatus(dataType: dataType)
+    }
+
+    AsyncFunction("getRequestStatus") { (readTypes: [String], writeTypes: [String]) async throws -> String in
+      return try await healthManager.getRequestStatus(readTypes: readTypes, writeTypes: writeTypes)
+    }
+
     AsyncFunction("saveWorkout") { (workoutData: [String: Any]) async throws -> String in
       return try await healthManager.saveWorkout(data: workoutData)
     }
@@ -27,7 +37,8 @@ public class ExpoHealthKitModule: Module {
       return try await healthManager.queryWorkouts(
         startDate: Date(timeIntervalSince1970: startDate),
         endDate: Date(timeIntervalSince1970: endDate),
-        limit: limit
+        limit: limit,
+        cursor: options["cursor"] as? [String: Any]
       )
     }
 
@@ -49,6 +60,10 @@ public class ExpoHealthKitModule: Module {
       try await healthManager.deleteWorkout(id: workoutId)
     }
 
+    AsyncFunction("getWorkoutRoute") { (workoutId: String) async throws -> [[String: Any]] in
+      return try await healthManager.getWorkoutRoute(workoutId: workoutId)
+    }
+
     // Steps & Activity
     AsyncFunction("getSteps") { (startDate: Double, endDate: Double) async throws -> Double in
       return try await healthManager.getSteps(
@@ -129,6 +144,18 @@ public class ExpoHealthKitModule: Module {
       try await healthManager.saveBloodPressure(systolic: systolic, diastolic: diastolic, date: date)
     }
 
+    AsyncFunction("getBloodPressureSamples") { (startDate: Double, endDate: Double, limit: Int?) async throws -> [[String: Any]] in
+      return try await healthManager.getBloodPressureSamples(
+        startDate: Date(timeIntervalSince1970: startDate),
+        endDate: Date(timeIntervalSince1970: endDate),
+        limit: limit
+      )
+    }
+
+    AsyncFunction("deleteBloodPressure") { (id: String) async throws in
+      try await healthManager.deleteBloodPressure(id: id)
+    }
+
     // Sleep
     AsyncFunction("getSleepSamples") { (startDate: Double, endDate: Double) async throws -> [[String: Any]] in
       return try await healthManager.getSleepSamples(
@@ -169,5 +196,82 @@ public class ExpoHealthKitModule: Module {
       let date = timestamp != nil ? Date(timeIntervalSince1970: timestamp!) : Date()
       try await healthManager.saveFat(grams: grams, date: date)
     }
+
+    AsyncFunction("saveFoodEntry") { (entry: [String: Any]) async throws -> String in
+      return try await healthManager.saveFoodEntry(data: entry)
+    }
+
+    AsyncFunction("getFoodEntries") { (options: [String: Any]) async throws -> [[String: Any]] in
+      let startDate = options["startDate"] as? Double ?? 0
+      let endDate = options["endDate"] as? Double ?? Date().timeIntervalSince1970
+
+      return try await healthManager.getFoodEntries(
+        startDate: Date(timeIntervalSince1970: startDate),
+        endDate: Date(timeIntervalSince1970: endDate),
+        limit: options["limit"] as? Int
+      )
+    }
+
+    // Batch Writes
+    AsyncFunction("saveSamples") { (samples: [[String: Any]], atomic: Bool) async -> [[String: Any]] in
+      return await healthManager.saveSamples(samples, atomic: atomic)
+    }
+
+    // Quantity Samples
+    AsyncFunction("queryQuantitySamples") { (dataType: String, options: [String: Any]) async throws -> [[String: Any]] in
+      let startDate = options["startDate"] as? Double ?? 0
+      let endDate = options["endDate"] as? Double ?? Date().timeIntervalSince1970
+      let limit = options["limit"] as? Int
+
+      return try await healthManager.queryQuantitySamples(
+        dataType: dataType,
+        startDate: Date(timeIntervalSince1970: startDate),
+        endDate: Date(timeIntervalSince1970: endDate),
+        limit: limit,
+        cursor: options["cursor"] as? [String: Any]
+      )
+    }
+
+    // Changes
+    AsyncFunction("getChanges") { (dataType: String, options: [String: Any]) async throws -> [String: Any] in
+      return try await healthManager.getChanges(
+        dataType: dataType,
+        anchor: options["anchor"] as? String,
+        limit: options["limit"] as? Int
+      )
+    }
+
+    // Observers
+    AsyncFunction("startObserving") { (dataType: String) throws in
+      try healthManager.startObserving(dataType: dataType) { [weak self] error in
+        var event: [String: Any] = ["dataType": dataType]
+        if let error = error {
+          event["error"] = ["code": error.code, "message": error.description]
+        }
+        self?.sendEvent("onDataChanged", event)
+      }
+    }
+
+    AsyncFunction("stopObserving") { (dataType: String) in
+      healthManager.stopObserving(dataType: dataType)
+    }
+
+    // Statistics
+    AsyncFunction("getStatisticsCollection") { (dataType: String, options: [String: Any]) async throws -> [[String: Any]] in
+      guard let startDate = options["startDate"] as? Double,
+            let endDate = options["endDate"] as? Double,
+            let interval = options["interval"] as? String,
+            let aggregation = options["aggregation"] as? String else {
+        throw HealthKitError.missingRequiredData("Missing required statistics options")
+      }
+
+      return try await healthManager.getStatisticsCollection(
+        dataType: dataType,
+        startDate: Date(timeIntervalSince1970: startDate),
+        endDate: Date(timeIntervalSince1970: endDate),
+        interval: interval,
+        aggregation: aggregation
+      )
+    }
   }
 }
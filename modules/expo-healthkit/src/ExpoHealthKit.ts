@@ -1,26 +1,283 @@
-import { requireNativeModule } from 'expo-modules-core';
+import { getNativeModule, callNativeModule } from './ExpoHealthKitModule';
 import type {
+  NativeFoodEntry,
+  NativeQueryOptions,
+  NativeSampleInput,
+  NativeSaveResult,
+  NativeWorkoutData,
+} from './ExpoHealthKitModule';
+import { resolveDataType, getDataTypeKind, isNutrientType } from './dataTypes';
+import type { CanonicalDataType } from './dataTypes';
+import { HealthKitError, normalizeError } from './errors';
+import {
+  toDateRange,
+  toEpochSeconds,
+  toOptionalEpochSeconds,
+  assertOrderedRange,
+} from './dates';
+import type { DateInput } from './dates';
+import { resolvePageSize, decodeCursor, toPage, iteratePages } from './pagination';
+import { refreshSubscriptions } from './subscriptions';
+import { notifyWrite } from './writes';
+import { cachedNativeCall } from './cache';
+import {
+  enforceValidation,
+  validateValue,
+  validateBloodPressure,
+  validateWorkout,
+} from './validation';
+import { CANONICAL_UNITS, convert, toCanonicalUnit, fromCanonicalUnit } from './units';
+import type {
+  LengthUnit,
+  MassUnit,
+  VolumeUnit,
+  EnergyUnit,
+  RatioUnit,
+  PressureUnit,
+  UnitFor,
+} from './units';
+import type {
+  AuthorizationNextStep,
+  AuthorizationRequestStatus,
+  AuthorizationStatus,
+  AuthorizationSummary,
   WorkoutData,
+  WorkoutUnits,
   Workout,
+  WorkoutMetadata,
+  WorkoutEventData,
+  WorkoutEvent,
+  WorkoutEventType,
+  SwimmingLocation,
+  SwimmingStrokeStyle,
+  WorkoutRouteLocation,
+  WorkoutRoutePoint,
   QueryOptions,
   DataType,
   QuantitySample,
   SleepSample,
   BloodPressure,
+  BloodPressureSample,
+  FoodEntryData,
+  FoodEntry,
+  MealType,
+  NutrientType,
+  SampleInput,
+  SaveSamplesOptions,
+  SaveSampleResult,
+  QuantityQueryOptions,
+  PageOptions,
+  PaginatedQueryOptions,
+  QuantityPageOptions,
+  Page,
+  SampleFor,
+  ChangesOptions,
+  Changes,
+  StatisticsCollectionOptions,
+  StatisticsBucket,
 } from './types';
 
-const ExpoHealthKitModule = requireNativeModule('ExpoHealthKit');
+function convertSamples<T extends DataType>(
+  type: T,
+  samples: QuantitySample[],
+  unit?: UnitFor<T>
+): QuantitySample[] {
+  if (unit === undefined) {
+    return samples;
+  }
+  return samples.map((sample) => ({ ...sample, value: fromCanonicalUnit(type, sample.value, unit) }));
+}
+
+function convertOptional<T extends DataType>(type: T, value: number | null, unit?: UnitFor<T>): number | null {
+  return value === null ? null : fromCanonicalUnit(type, value, unit);
+}
+
+function requireQuantityType(dataType: DataType): { canonical: CanonicalDataType; kind: 'cumulative' | 'discrete' } {
+  const canonical = resolveDataType(dataType);
+  const kind = getDataTypeKind(dataType);
+  if (!canonical || (kind !== 'cumulative' && kind !== 'discrete')) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${dataType} is not a quantity type`);
+  }
+  return { canonical, kind };
+}
+
+// Ask for one item more than a page holds to learn whether another page follows
+function toNativePageOptions(options: PaginatedQueryOptions): NativeQueryOptions & { limit: number } {
+  const queryOptions = {
+    startDate: toOptionalEpochSeconds(options.startDate, 'startDate'),
+    endDate: toOptionalEpochSeconds(options.endDate, 'endDate'),
+    limit: resolvePageSize(options.pageSize) + 1,
+    cursor: decodeCursor(options.cursor),
+  };
+  assertOrderedRange(queryOptions.startDate, queryOptions.endDate);
+  return queryOptions;
+}
+
+const WORKOUT_EVENT_TYPES: WorkoutEventType[] = [
+  'pause',
+  'resume',
+  'motionPaused',
+  'motionResumed',
+  'lap',
+  'segment',
+  'marker',
+];
+const SWIMMING_LOCATIONS: SwimmingLocation[] = ['pool', 'openWater', 'unknown'];
+const SWIMMING_STROKE_STYLES: SwimmingStrokeStyle[] = [
+  'freestyle',
+  'backstroke',
+  'breaststroke',
+  'butterfly',
+  'mixed',
+  'kickboard',
+  'unknown',
+];
+
+// Lengths and temperature are the only metadata values with units
+function convertWorkoutMetadata(
+  metadata: WorkoutMetadata,
+  length: (value: number) => number,
+  temperature: (value: number) => number
+): WorkoutMetadata {
+  const converted = { ...metadata };
+  for (const key of ['elevationAscended', 'lapLength'] as const) {
+    const value = converted[key];
+    if (value !== undefined) {
+      converted[key] = length(value);
+    }
+  }
+  if (converted.weatherTemperature !== undefined) {
+    converted.weatherTemperature = temperature(converted.weatherTemperature);
+  }
+  return converted;
+}
+
+function convertWorkout(workout: Workout, units: WorkoutUnits): Workout {
+  return {
+    ...workout,
+    distance: fromCanonicalUnit('Distance', workout.distance, units.distance),
+    calories: fromCanonicalUnit('ActiveEnergy', workout.calories, units.energy),
+    metadata: convertWorkoutMetadata(
+      workout.metadata,
+      (meters) => fromCanonicalUnit('Distance', meters, units.distance),
+      (celsius) => convert(celsius, 'degC', units.temperature ?? 'degC')
+    ),
+  };
+}
+
+function assertMetadataValues(metadata: Record<string, unknown>, name: string): void {
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value !== undefined && !['string', 'number', 'boolean'].includes(typeof value)) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${name}.${key} must be a string, number or boolean`);
+    }
+  }
+}
+
+function toNativeWorkoutMetadata(metadata: WorkoutMetadata, units: WorkoutUnits): WorkoutMetadata {
+  assertMetadataValues(metadata, 'metadata');
+  const invalid = (key: string, requirement: string) =>
+    new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `metadata.${key} must be ${requirement}`);
+  const { indoor, elevationAscended, weatherHumidity, lapLength, swimmingLocation, averageMETs } = metadata;
+  if (indoor !== undefined && typeof indoor !== 'boolean') {
+    throw invalid('indoor', 'a boolean');
+  }
+  if (elevationAscended !== undefined && !(elevationAscended >= 0)) {
+    throw invalid('elevationAscended', 'zero or more');
+  }
+  if (weatherHumidity !== undefined && !(weatherHumidity >= 0 && weatherHumidity <= 100)) {
+    throw invalid('weatherHumidity', 'a percentage from 0 to 100');
+  }
+  if (lapLength !== undefined && !(lapLength > 0)) {
+    throw invalid('lapLength', 'greater than zero');
+  }
+  if (swimmingLocation !== undefined && !SWIMMING_LOCATIONS.includes(swimmingLocation)) {
+    throw invalid('swimmingLocation', `one of ${SWIMMING_LOCATIONS.join(', ')}`);
+  }
+  if (averageMETs !== undefined && !(averageMETs > 0)) {
+    throw invalid('averageMETs', 'greater than zero');
+  }
+  return convertWorkoutMetadata(
+    metadata,
+    (length) => toCanonicalUnit('Distance', length, units.distance),
+    (temperature) => convert(temperature, units.temperature ?? 'degC', 'degC')
+  );
+}
+
+// Lap and segment events span a time; the others happen at an instant
+function toNativeEvents(events: WorkoutEventData[], start: number, end: number): WorkoutEvent[] {
+  return events
+    .map((event, i) => {
+      const invalid = (message: string) => new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `events[${i}] ${message}`);
+      if (!WORKOUT_EVENT_TYPES.includes(event.type)) {
+        throw invalid(`has an unknown type: ${event.type}`);
+      }
+      const startDate = toEpochSeconds(event.startDate, `events[${i}].startDate`);
+      const endDate = event.endDate === undefined ? startDate : toEpochSeconds(event.endDate, `events[${i}].endDate`);
+      if (endDate !== startDate && event.type !== 'lap' && event.type !== 'segment') {
+        throw invalid(`is a ${event.type}, which has no end date`);
+      }
+      if (startDate < start || endDate > end || endDate < startDate) {
+        throw invalid("must lie between the workout's start and end");
+      }
+      const metadata = event.metadata ?? {};
+      assertMetadataValues(metadata, `events[${i}].metadata`);
+      const style = metadata.swimmingStrokeStyle;
+      if (style !== undefined && !SWIMMING_STROKE_STYLES.includes(style)) {
+        throw invalid(`has an unknown swimming stroke style: ${style}`);
+      }
+      return { type: event.type, startDate, endDate, metadata };
+    })
+    .sort((a, b) => a.startDate - b.startDate);
+}
+
+function toNativeRoute(route: WorkoutRouteLocation[]): WorkoutRoutePoint[] {
+  return route
+    .map((location, i) => {
+      const { latitude, longitude } = location;
+      if (!Number.isFinite(latitude) || Math.abs(latitude) > 90 || !Number.isFinite(longitude) || Math.abs(longitude) > 180) {
+        throw new HealthKitError(
+          'ERR_HEALTHKIT_INVALID_ARGUMENT',
+          `Invalid coordinates at route[${i}]: ${latitude}, ${longitude}`
+        );
+      }
+      return { ...location, timestamp: toEpochSeconds(location.timestamp, `route[${i}].timestamp`) };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function toNativeWorkout(workout: WorkoutData): NativeWorkoutData {
+  const { start, end } = toDateRange(workout.startDate, workout.endDate);
+  const { units = {}, route, metadata, events, ...data } = workout;
+  const workoutData = {
+    ...data,
+    startDate: start,
+    endDate: end,
+    distance: toCanonicalUnit('Distance', workout.distance, units.distance),
+    calories: toCanonicalUnit('ActiveEnergy', workout.calories, units.energy),
+    metadata: metadata === undefined ? undefined : toNativeWorkoutMetadata(metadata, units),
+    events: events === undefined ? undefined : toNativeEvents(events, start, end),
+    route: route === undefined ? undefined : toNativeRoute(route),
+  };
+  enforceValidation(validateWorkout({ ...workoutData, window: end - start }));
+  return workoutData;
+}
 
 /**
  * Check if HealthKit is available on this device
  * @returns true if HealthKit is available, false otherwise
  */
 export function isAvailable(): boolean {
-  return ExpoHealthKitModule.isAvailable();
+  try {
+    return getNativeModule().isAvailable();
+  } catch {
+    // No native module on this platform
+    return false;
+  }
 }
 
 /**
- * Request authorization to access HealthKit data
+ * Request authorization to access HealthKit data. Active subscriptions are
+ * started again afterwards, so they pick up newly granted types.
  * @param readTypes - Array of data types to request read access for
  * @param writeTypes - Array of data types to request write access for
  */
@@ -28,75 +285,180 @@ export async function requestAuthorization(
   readTypes: DataType[] = [],
   writeTypes: DataType[] = []
 ): Promise<void> {
-  return await ExpoHealthKitModule.requestAuthorization(readTypes, writeTypes);
+  await callNativeModule((module) => module.requestAuthorization(readTypes, writeTypes));
+  refreshSubscriptions();
+}
+
+/**
+ * Check whether the app may save a data type. HealthKit does not reveal
+ * whether read access was granted, so there is no read status.
+ * @param dataType - Any data type
+ * @returns `notDetermined` until write access to the type was requested
+ */
+export async function getAuthorizationStatus(dataType: DataType): Promise<AuthorizationStatus> {
+  const canonical = resolveDataType(dataType);
+  if (!canonical) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unsupported data type: ${dataType}`);
+  }
+  return await callNativeModule((module) => module.getAuthorizationStatus(canonical));
+}
+
+/**
+ * Check whether `requestAuthorization` with these types would show the
+ * permission sheet. The sheet only shows for types that were never
+ * requested, so a user who declined can only change their mind in Settings.
+ * @param readTypes - Data types to read
+ * @param writeTypes - Data types to write
+ */
+export async function getRequestStatus(
+  readTypes: DataType[] = [],
+  writeTypes: DataType[] = []
+): Promise<AuthorizationRequestStatus> {
+  return await callNativeModule((module) => module.getRequestStatus(readTypes, writeTypes));
+}
+
+/**
+ * Work out what onboarding should do next for the types the app needs:
+ *
+ * ```ts
+ * const { nextStep } = await getAuthorizationSummary(readTypes, writeTypes);
+ * switch (nextStep) {
+ *   case 'prompt':
+ *     await requestAuthorization(readTypes, writeTypes);
+ *     break;
+ *   case 'openSettings':
+ *     await Linking.openSettings();
+ *     break;
+ * }
+ * ```
+ *
+ * Write types are checked one by one; read types only count towards
+ * `requestStatus`, since HealthKit keeps read access private.
+ * @param readTypes - Data types to read
+ * @param writeTypes - Data types to write
+ */
+export async function getAuthorizationSummary(
+  readTypes: DataType[] = [],
+  writeTypes: DataType[] = []
+): Promise<AuthorizationSummary> {
+  if (!isAvailable()) {
+    return {
+      nextStep: 'unavailable',
+      isAvailable: false,
+      requestStatus: 'unknown',
+      authorizedWriteTypes: [],
+      deniedWriteTypes: [],
+      notDeterminedWriteTypes: [],
+    };
+  }
+
+  const types: CanonicalDataType[] = [];
+  for (const type of writeTypes) {
+    const canonical = resolveDataType(type);
+    if (!canonical) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unsupported data type: ${type}`);
+    }
+    if (!types.includes(canonical)) {
+      types.push(canonical);
+    }
+  }
+  const [requestStatus, statuses] = await Promise.all([
+    getRequestStatus(readTypes, writeTypes),
+    Promise.all(types.map((type) => getAuthorizationStatus(type))),
+  ]);
+  const withStatus = (status: AuthorizationStatus) => types.filter((_, index) => statuses[index] === status);
+  const deniedWriteTypes = withStatus('sharingDenied');
+
+  // Types never asked for come first: the sheet may be all it takes
+  let nextStep: AuthorizationNextStep = 'continue';
+  if (requestStatus !== 'unnecessary') {
+    nextStep = 'prompt';
+  } else if (deniedWriteTypes.length > 0) {
+    nextStep = 'openSettings';
+  }
+
+  return {
+    nextStep,
+    isAvailable: true,
+    requestStatus,
+    authorizedWriteTypes: withStatus('sharingAuthorized'),
+    deniedWriteTypes,
+    notDeterminedWriteTypes: withStatus('notDetermined'),
+  };
 }
 
 /**
  * Save a workout to HealthKit
- * @param workout - The workout data to save
+ * @param workout - The workout data to save (distance in meters and
+ * calories in kilocalories unless `workout.units` says otherwise), with an
+ * optional GPS route
  * @returns The UUID of the saved workout
  */
 export async function saveWorkout(workout: WorkoutData): Promise<string> {
-  const workoutData = {
-    ...workout,
-    startDate: typeof workout.startDate === 'number'
-      ? workout.startDate
-      : workout.startDate / 1000,
-    endDate: typeof workout.endDate === 'number'
-      ? workout.endDate
-      : workout.endDate / 1000,
-  };
-  return await ExpoHealthKitModule.saveWorkout(workoutData);
+  const workoutData = toNativeWorkout(workout);
+  const id = await callNativeModule((module) => module.saveWorkout(workoutData));
+  notifyWrite('Workout');
+  return id;
 }
 
 /**
  * Query workouts from HealthKit
  * @param options - Query options (startDate, endDate, limit)
+ * @param units - Optional units for distance (default meters) and calories (default kilocalories)
  * @returns Array of workouts
  */
-export async function queryWorkouts(options: QueryOptions = {}): Promise<Workout[]> {
+export async function queryWorkouts(
+  options: QueryOptions = {},
+  units: WorkoutUnits = {}
+): Promise<Workout[]> {
   const queryOptions = {
-    startDate:
-      options.startDate instanceof Date
-        ? options.startDate.getTime() / 1000
-        : options.startDate,
-    endDate:
-      options.endDate instanceof Date
-        ? options.endDate.getTime() / 1000
-        : options.endDate,
+    startDate: toOptionalEpochSeconds(options.startDate, 'startDate'),
+    endDate: toOptionalEpochSeconds(options.endDate, 'endDate'),
     limit: options.limit,
   };
-  return await ExpoHealthKitModule.queryWorkouts(queryOptions);
+  assertOrderedRange(queryOptions.startDate, queryOptions.endDate);
+  const workouts = await cachedNativeCall('queryWorkouts', ['Workout'], [queryOptions], (module) =>
+    module.queryWorkouts(queryOptions)
+  );
+  return workouts.map((workout) => convertWorkout(workout, units));
 }
 
 /**
  * Get total distance for a date range
  * @param startDate - Start date
  * @param endDate - End date
- * @returns Total distance in meters
+ * @param unit - Optional unit (defaults to meters)
+ * @returns Total distance
  */
 export async function getTotalDistance(
-  startDate: Date,
-  endDate: Date
+  startDate: DateInput,
+  endDate: DateInput,
+  unit?: LengthUnit
 ): Promise<number> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getTotalDistance(start, end);
+  const { start, end } = toDateRange(startDate, endDate);
+  const meters = await cachedNativeCall('getTotalDistance', ['DistanceWalkingRunning'], [start, end], (module) =>
+    module.getTotalDistance(start, end)
+  );
+  return fromCanonicalUnit('Distance', meters, unit);
 }
 
 /**
  * Get total calories for a date range
  * @param startDate - Start date
  * @param endDate - End date
- * @returns Total calories in kilocalories
+ * @param unit - Optional unit (defaults to kilocalories)
+ * @returns Total calories
  */
 export async function getTotalCalories(
-  startDate: Date,
-  endDate: Date
+  startDate: DateInput,
+  endDate: DateInput,
+  unit?: EnergyUnit
 ): Promise<number> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getTotalCalories(start, end);
+  const { start, end } = toDateRange(startDate, endDate);
+  const kilocalories = await cachedNativeCall('getTotalCalories', ['ActiveEnergyBurned'], [start, end], (module) =>
+    module.getTotalCalories(start, end)
+  );
+  return fromCanonicalUnit('ActiveEnergy', kilocalories, unit);
 }
 
 /**
@@ -104,7 +466,21 @@ export async function getTotalCalories(
  * @param workoutId - The UUID of the workout to delete
  */
 export async function deleteWorkout(workoutId: string): Promise<void> {
-  return await ExpoHealthKitModule.deleteWorkout(workoutId);
+  await callNativeModule((module) => module.deleteWorkout(workoutId));
+  notifyWrite('Workout');
+}
+
+/**
+ * Get the GPS route recorded with a workout
+ * @param workoutId - The UUID of the workout
+ * @returns The locations in time order, or an empty array if the workout
+ * has no route
+ * @throws HealthKitError with `ERR_HEALTHKIT_NOT_FOUND` if there is no such workout
+ */
+export async function getWorkoutRoute(workoutId: string): Promise<WorkoutRoutePoint[]> {
+  return cachedNativeCall('getWorkoutRoute', ['Workout'], [workoutId], (module) =>
+    module.getWorkoutRoute(workoutId)
+  );
 }
 
 // ======================
@@ -117,10 +493,9 @@ export async function deleteWorkout(workoutId: string): Promise<void> {
  * @param endDate - End date
  * @returns Total steps
  */
-export async function getSteps(startDate: Date, endDate: Date): Promise<number> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getSteps(start, end);
+export async function getSteps(startDate: DateInput, endDate: DateInput): Promise<number> {
+  const { start, end } = toDateRange(startDate, endDate);
+  return await cachedNativeCall('getSteps', ['StepCount'], [start, end], (module) => module.getSteps(start, end));
 }
 
 /**
@@ -129,10 +504,11 @@ export async function getSteps(startDate: Date, endDate: Date): Promise<number>
  * @param endDate - End date
  * @returns Total flights climbed
  */
-export async function getFlightsClimbed(startDate: Date, endDate: Date): Promise<number> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getFlightsClimbed(start, end);
+export async function getFlightsClimbed(startDate: DateInput, endDate: DateInput): Promise<number> {
+  const { start, end } = toDateRange(startDate, endDate);
+  return await cachedNativeCall('getFlightsClimbed', ['FlightsClimbed'], [start, end], (module) =>
+    module.getFlightsClimbed(start, end)
+  );
 }
 
 // ======================
@@ -141,48 +517,64 @@ export async function getFlightsClimbed(startDate: Date, endDate: Date): Promise
 
 /**
  * Save height to HealthKit
- * @param heightCm - Height in centimeters
+ * @param height - Height
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of `height` (defaults to centimeters)
  */
-export async function saveHeight(heightCm: number, date?: Date): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveHeight(heightCm, timestamp);
+export async function saveHeight(height: number, date?: DateInput, unit?: LengthUnit): Promise<void> {
+  const heightCm = toCanonicalUnit('Height', height, unit);
+  enforceValidation(validateValue('Height', heightCm));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveHeight(heightCm, timestamp));
+  notifyWrite('Height');
 }
 
 /**
  * Save weight to HealthKit
- * @param weightKg - Weight in kilograms
+ * @param weight - Weight
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of `weight` (defaults to kilograms)
  */
-export async function saveWeight(weightKg: number, date?: Date): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveWeight(weightKg, timestamp);
+export async function saveWeight(weight: number, date?: DateInput, unit?: MassUnit): Promise<void> {
+  const weightKg = toCanonicalUnit('BodyMass', weight, unit);
+  enforceValidation(validateValue('BodyMass', weightKg));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveWeight(weightKg, timestamp));
+  notifyWrite('BodyMass');
 }
 
 /**
  * Save body fat percentage to HealthKit
- * @param percentage - Body fat percentage (0-100)
+ * @param bodyFat - Body fat
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of `bodyFat` (defaults to percent, 0-100)
  */
-export async function saveBodyFat(percentage: number, date?: Date): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveBodyFat(percentage, timestamp);
+export async function saveBodyFat(bodyFat: number, date?: DateInput, unit?: RatioUnit): Promise<void> {
+  const percentage = toCanonicalUnit('BodyFatPercentage', bodyFat, unit);
+  enforceValidation(validateValue('BodyFatPercentage', percentage));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveBodyFat(percentage, timestamp));
+  notifyWrite('BodyFatPercentage');
 }
 
 /**
  * Get the most recent height measurement
- * @returns Height in centimeters, or null if not available
+ * @param unit - Optional unit (defaults to centimeters)
+ * @returns Height, or null if not available
  */
-export async function getLatestHeight(): Promise<number | null> {
-  return await ExpoHealthKitModule.getLatestHeight();
+export async function getLatestHeight(unit?: LengthUnit): Promise<number | null> {
+  const heightCm = await cachedNativeCall('getLatestHeight', ['Height'], [], (module) => module.getLatestHeight());
+  return convertOptional('Height', heightCm, unit);
 }
 
 /**
  * Get the most recent weight measurement
- * @returns Weight in kilograms, or null if not available
+ * @param unit - Optional unit (defaults to kilograms)
+ * @returns Weight, or null if not available
  */
-export async function getLatestWeight(): Promise<number | null> {
-  return await ExpoHealthKitModule.getLatestWeight();
+export async function getLatestWeight(unit?: MassUnit): Promise<number | null> {
+  const weightKg = await cachedNativeCall('getLatestWeight', ['BodyMass'], [], (module) => module.getLatestWeight());
+  return convertOptional('BodyMass', weightKg, unit);
 }
 
 /**
@@ -190,15 +582,19 @@ export async function getLatestWeight(): Promise<number | null> {
  * @returns BMI value, or null if not available
  */
 export async function getLatestBMI(): Promise<number | null> {
-  return await ExpoHealthKitModule.getLatestBMI();
+  return await cachedNativeCall('getLatestBMI', ['BodyMassIndex'], [], (module) => module.getLatestBMI());
 }
 
 /**
  * Get the most recent body fat percentage
- * @returns Body fat percentage (0-100), or null if not available
+ * @param unit - Optional unit (defaults to percent, 0-100)
+ * @returns Body fat, or null if not available
  */
-export async function getLatestBodyFat(): Promise<number | null> {
-  return await ExpoHealthKitModule.getLatestBodyFat();
+export async function getLatestBodyFat(unit?: RatioUnit): Promise<number | null> {
+  const percentage = await cachedNativeCall('getLatestBodyFat', ['BodyFatPercentage'], [], (module) =>
+    module.getLatestBodyFat()
+  );
+  return convertOptional('BodyFatPercentage', percentage, unit);
 }
 
 // ======================
@@ -213,13 +609,14 @@ export async function getLatestBodyFat(): Promise<number | null> {
  * @returns Array of heart rate samples (bpm)
  */
 export async function getHeartRateSamples(
-  startDate: Date,
-  endDate: Date,
+  startDate: DateInput,
+  endDate: DateInput,
   limit?: number
 ): Promise<QuantitySample[]> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getHeartRateSamples(start, end, limit);
+  const { start, end } = toDateRange(startDate, endDate);
+  return await cachedNativeCall('getHeartRateSamples', ['HeartRate'], [start, end, limit], (module) =>
+    module.getHeartRateSamples(start, end, limit)
+  );
 }
 
 /**
@@ -227,22 +624,23 @@ export async function getHeartRateSamples(
  * @returns Heart rate in bpm, or null if not available
  */
 export async function getLatestHeartRate(): Promise<number | null> {
-  return await ExpoHealthKitModule.getLatestHeartRate();
+  return await cachedNativeCall('getLatestHeartRate', ['HeartRate'], [], (module) => module.getLatestHeartRate());
 }
 
 /**
- * Get resting heart rate for a date range
+ * Get the latest resting heart rate recorded in a date range
  * @param startDate - Start date
  * @param endDate - End date
- * @returns Resting heart rate in bpm, or null if not available
+ * @returns Resting heart rate in bpm, or null if none was recorded in the range
  */
 export async function getRestingHeartRate(
-  startDate: Date,
-  endDate: Date
+  startDate: DateInput,
+  endDate: DateInput
 ): Promise<number | null> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getRestingHeartRate(start, end);
+  const { start, end } = toDateRange(startDate, endDate);
+  return await cachedNativeCall('getRestingHeartRate', ['RestingHeartRate'], [start, end], (module) =>
+    module.getRestingHeartRate(start, end)
+  );
 }
 
 /**
@@ -250,31 +648,84 @@ export async function getRestingHeartRate(
  * @param startDate - Start date
  * @param endDate - End date
  * @param limit - Optional limit on number of samples
- * @returns Array of SpO2 samples (percentage)
+ * @param unit - Optional unit (defaults to a fraction, 0-1)
+ * @returns Array of SpO2 samples
  */
 export async function getOxygenSaturation(
-  startDate: Date,
-  endDate: Date,
-  limit?: number
+  startDate: DateInput,
+  endDate: DateInput,
+  limit?: number,
+  unit?: RatioUnit
 ): Promise<QuantitySample[]> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getOxygenSaturation(start, end, limit);
+  const { start, end } = toDateRange(startDate, endDate);
+  const samples = await cachedNativeCall('getOxygenSaturation', ['OxygenSaturation'], [start, end, limit], (module) =>
+    module.getOxygenSaturation(start, end, limit)
+  );
+  return convertSamples('OxygenSaturation', samples, unit);
 }
 
 /**
  * Save blood pressure measurement to HealthKit
- * @param systolic - Systolic pressure in mmHg
- * @param diastolic - Diastolic pressure in mmHg
+ * @param systolic - Systolic pressure
+ * @param diastolic - Diastolic pressure
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of both pressures (defaults to mmHg)
  */
 export async function saveBloodPressure(
   systolic: number,
   diastolic: number,
-  date?: Date
+  date?: DateInput,
+  unit?: PressureUnit
 ): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveBloodPressure(systolic, diastolic, timestamp);
+  const systolicMmHg = toCanonicalUnit('BloodPressureSystolic', systolic, unit);
+  const diastolicMmHg = toCanonicalUnit('BloodPressureDiastolic', diastolic, unit);
+  enforceValidation(validateBloodPressure(systolicMmHg, diastolicMmHg));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveBloodPressure(systolicMmHg, diastolicMmHg, timestamp));
+  notifyWrite('BloodPressureSystolic', 'BloodPressureDiastolic');
+}
+
+/**
+ * Get blood pressure readings for a date range, each with its systolic and
+ * diastolic values paired. Readings the app can only partly read (one half
+ * denied) are left out.
+ * @param startDate - Start date
+ * @param endDate - End date
+ * @param limit - Optional limit on number of readings
+ * @param unit - Optional unit of both pressures (defaults to mmHg)
+ * @returns Readings, newest first
+ */
+export async function getBloodPressureSamples(
+  startDate: DateInput,
+  endDate: DateInput,
+  limit?: number,
+  unit?: PressureUnit
+): Promise<BloodPressureSample[]> {
+  const { start, end } = toDateRange(startDate, endDate);
+  const readings = await cachedNativeCall(
+    'getBloodPressureSamples',
+    ['BloodPressureSystolic', 'BloodPressureDiastolic'],
+    [start, end, limit],
+    (module) => module.getBloodPressureSamples(start, end, limit)
+  );
+  if (unit === undefined) {
+    return readings;
+  }
+  return readings.map((reading) => ({
+    ...reading,
+    systolic: fromCanonicalUnit('BloodPressureSystolic', reading.systolic, unit),
+    diastolic: fromCanonicalUnit('BloodPressureDiastolic', reading.diastolic, unit),
+  }));
+}
+
+/**
+ * Delete a blood pressure reading, both its systolic and diastolic samples
+ * @param id - The UUID of the reading, from `getBloodPressureSamples`
+ * @throws HealthKitError with `ERR_HEALTHKIT_NOT_FOUND` if there is no such reading
+ */
+export async function deleteBloodPressure(id: string): Promise<void> {
+  await callNativeModule((module) => module.deleteBloodPressure(id));
+  notifyWrite('BloodPressureSystolic', 'BloodPressureDiastolic');
 }
 
 // ======================
@@ -288,12 +739,13 @@ export async function saveBloodPressure(
  * @returns Array of sleep samples with state and duration
  */
 export async function getSleepSamples(
-  startDate: Date,
-  endDate: Date
+  startDate: DateInput,
+  endDate: DateInput
 ): Promise<SleepSample[]> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getSleepSamples(start, end);
+  const { start, end } = toDateRange(startDate, endDate);
+  return await cachedNativeCall('getSleepSamples', ['SleepAnalysis'], [start, end], (module) =>
+    module.getSleepSamples(start, end)
+  );
 }
 
 // ======================
@@ -302,62 +754,506 @@ export async function getSleepSamples(
 
 /**
  * Save water intake to HealthKit
- * @param milliliters - Amount of water in milliliters
+ * @param amount - Amount of water
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of `amount` (defaults to milliliters)
  */
-export async function saveWater(milliliters: number, date?: Date): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveWater(milliliters, timestamp);
+export async function saveWater(amount: number, date?: DateInput, unit?: VolumeUnit): Promise<void> {
+  const milliliters = toCanonicalUnit('DietaryWater', amount, unit);
+  enforceValidation(validateValue('DietaryWater', milliliters));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveWater(milliliters, timestamp));
+  notifyWrite('DietaryWater');
 }
 
 /**
  * Get total water intake for a date range
  * @param startDate - Start date
  * @param endDate - End date
- * @returns Total water in milliliters
+ * @param unit - Optional unit (defaults to milliliters)
+ * @returns Total water
  */
-export async function getWaterIntake(startDate: Date, endDate: Date): Promise<number> {
-  const start = startDate.getTime() / 1000;
-  const end = endDate.getTime() / 1000;
-  return await ExpoHealthKitModule.getWaterIntake(start, end);
+export async function getWaterIntake(
+  startDate: DateInput,
+  endDate: DateInput,
+  unit?: VolumeUnit
+): Promise<number> {
+  const { start, end } = toDateRange(startDate, endDate);
+  const milliliters = await cachedNativeCall('getWaterIntake', ['DietaryWater'], [start, end], (module) =>
+    module.getWaterIntake(start, end)
+  );
+  return fromCanonicalUnit('DietaryWater', milliliters, unit);
 }
 
 /**
  * Save caffeine intake to HealthKit
- * @param milligrams - Amount of caffeine in milligrams
+ * @param amount - Amount of caffeine
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of `amount` (defaults to milligrams)
  */
-export async function saveCaffeine(milligrams: number, date?: Date): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveCaffeine(milligrams, timestamp);
+export async function saveCaffeine(amount: number, date?: DateInput, unit?: MassUnit): Promise<void> {
+  const milligrams = toCanonicalUnit('DietaryCaffeine', amount, unit);
+  enforceValidation(validateValue('DietaryCaffeine', milligrams));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveCaffeine(milligrams, timestamp));
+  notifyWrite('DietaryCaffeine');
 }
 
 /**
  * Save protein intake to HealthKit
- * @param grams - Amount of protein in grams
+ * @param amount - Amount of protein
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of `amount` (defaults to grams)
  */
-export async function saveProtein(grams: number, date?: Date): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveProtein(grams, timestamp);
+export async function saveProtein(amount: number, date?: DateInput, unit?: MassUnit): Promise<void> {
+  const grams = toCanonicalUnit('DietaryProtein', amount, unit);
+  enforceValidation(validateValue('DietaryProtein', grams));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveProtein(grams, timestamp));
+  notifyWrite('DietaryProtein');
 }
 
 /**
  * Save carbohydrate intake to HealthKit
- * @param grams - Amount of carbs in grams
+ * @param amount - Amount of carbs
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of `amount` (defaults to grams)
  */
-export async function saveCarbs(grams: number, date?: Date): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveCarbs(grams, timestamp);
+export async function saveCarbs(amount: number, date?: DateInput, unit?: MassUnit): Promise<void> {
+  const grams = toCanonicalUnit('DietaryCarbohydrates', amount, unit);
+  enforceValidation(validateValue('DietaryCarbohydrates', grams));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveCarbs(grams, timestamp));
+  notifyWrite('DietaryCarbohydrates');
 }
 
 /**
  * Save fat intake to HealthKit
- * @param grams - Amount of fat in grams
+ * @param amount - Amount of fat
  * @param date - Optional date (defaults to now)
+ * @param unit - Optional unit of `amount` (defaults to grams)
+ */
+export async function saveFat(amount: number, date?: DateInput, unit?: MassUnit): Promise<void> {
+  const grams = toCanonicalUnit('DietaryFatTotal', amount, unit);
+  enforceValidation(validateValue('DietaryFatTotal', grams));
+  const timestamp = toOptionalEpochSeconds(date);
+  await callNativeModule((module) => module.saveFat(grams, timestamp));
+  notifyWrite('DietaryFatTotal');
+}
+
+const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const NUTRIENT_TYPES = (Object.keys(CANONICAL_UNITS) as CanonicalDataType[]).filter(isNutrientType);
+
+// Keeps the nutrients HealthKit reported under a known name
+function toFoodEntry(entry: NativeFoodEntry): FoodEntry {
+  const nutrients: Partial<Record<NutrientType, number>> = {};
+  for (const [type, value] of Object.entries(entry.nutrients)) {
+    const canonical = resolveDataType(type);
+    if (canonical && isNutrientType(canonical)) {
+      nutrients[canonical as NutrientType] = value;
+    }
+  }
+  return {
+    id: entry.id,
+    name: entry.name ?? null,
+    mealType: MEAL_TYPES.find((mealType) => mealType === entry.mealType) ?? null,
+    nutrients,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+  };
+}
+
+/**
+ * Save a food with all of its nutrients. HealthKit stores it as a food
+ * correlation grouping one sample per nutrient, so the Health app shows a
+ * single food and totals such as `getWaterIntake` include its nutrients.
+ * @param entry - Name, meal, nutrients in their canonical units, and an
+ * optional date (defaults to now)
+ * @returns The UUID of the food entry
+ */
+export async function saveFoodEntry(entry: FoodEntryData): Promise<string> {
+  if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'A food entry needs a name');
+  }
+  if (entry.mealType !== undefined && !MEAL_TYPES.includes(entry.mealType)) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unknown meal type: ${entry.mealType}`);
+  }
+
+  const nutrients: Partial<Record<NutrientType, number>> = {};
+  for (const [type, value] of Object.entries(entry.nutrients ?? {})) {
+    const canonical = resolveDataType(type);
+    if (!canonical || !isNutrientType(canonical)) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${type} is not a nutrient`);
+    }
+    if (canonical in nutrients) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${canonical} is listed more than once`);
+    }
+    nutrients[canonical as NutrientType] = value;
+  }
+  const types = Object.keys(nutrients) as NutrientType[];
+  if (types.length === 0) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'A food entry needs at least one nutrient');
+  }
+  enforceValidation(types.flatMap((type) => validateValue(type, nutrients[type]!)));
+
+  const date = toOptionalEpochSeconds(entry.date) ?? Date.now() / 1000;
+  const foodEntry = { name: entry.name, mealType: entry.mealType, nutrients, startDate: date, endDate: date };
+  const id = await callNativeModule((module) => module.saveFoodEntry(foodEntry));
+  notifyWrite(...types);
+  return id;
+}
+
+/**
+ * Query food entries, newest first. Nutrients the app is not allowed to
+ * read are left out of each entry.
+ * @param options - Query options (startDate, endDate, limit)
+ * @returns Array of food entries
  */
-export async function saveFat(grams: number, date?: Date): Promise<void> {
-  const timestamp = date ? date.getTime() / 1000 : undefined;
-  return await ExpoHealthKitModule.saveFat(grams, timestamp);
+export async function getFoodEntries(options: QueryOptions = {}): Promise<FoodEntry[]> {
+  const queryOptions = {
+    startDate: toOptionalEpochSeconds(options.startDate, 'startDate'),
+    endDate: toOptionalEpochSeconds(options.endDate, 'endDate'),
+    limit: options.limit,
+  };
+  assertOrderedRange(queryOptions.startDate, queryOptions.endDate);
+  const entries = await cachedNativeCall('getFoodEntries', NUTRIENT_TYPES, [queryOptions], (module) =>
+    module.getFoodEntries(queryOptions)
+  );
+  return entries.map(toFoodEntry);
+}
+
+// ======================
+// Batch Writes
+// ======================
+
+interface PreparedSample {
+  native: NativeSampleInput;
+  /** The types written when the sample is saved */
+  types: CanonicalDataType[];
+}
+
+// Convert and validate a sample the way the single-sample save functions do.
+// The importer's dry run uses it too; it is not part of the package's API.
+export function prepareSample(sample: SampleInput, index: number): PreparedSample {
+  switch (sample.kind) {
+    case 'quantity': {
+      const { canonical } = requireQuantityType(sample.dataType);
+      const value = toCanonicalUnit(sample.dataType, sample.value, sample.unit);
+      enforceValidation(validateValue(canonical, value));
+      const startDate =
+        sample.startDate === undefined
+          ? Date.now() / 1000
+          : toEpochSeconds(sample.startDate, `samples[${index}].startDate`);
+      const endDate =
+        sample.endDate === undefined ? startDate : toEpochSeconds(sample.endDate, `samples[${index}].endDate`);
+      assertOrderedRange(startDate, endDate);
+      return { native: { kind: 'quantity', dataType: canonical, value, startDate, endDate }, types: [canonical] };
+    }
+    case 'bloodPressure': {
+      const systolic = toCanonicalUnit('BloodPressureSystolic', sample.systolic, sample.unit);
+      const diastolic = toCanonicalUnit('BloodPressureDiastolic', sample.diastolic, sample.unit);
+      enforceValidation(validateBloodPressure(systolic, diastolic));
+      const date =
+        sample.date === undefined ? Date.now() / 1000 : toEpochSeconds(sample.date, `samples[${index}].date`);
+      return {
+        native: { kind: 'bloodPressure', systolic, diastolic, startDate: date, endDate: date },
+        types: ['BloodPressureSystolic', 'BloodPressureDiastolic'],
+      };
+    }
+    case 'workout': {
+      const { kind, ...workout } = sample;
+      return { native: { kind, ...toNativeWorkout(workout) }, types: ['Workout'] };
+    }
+    default:
+      throw new HealthKitError(
+        'ERR_HEALTHKIT_INVALID_ARGUMENT',
+        `Unknown sample kind at samples[${index}]: ${(sample as { kind?: unknown }).kind}`
+      );
+  }
+}
+
+function toSaveResult(result: NativeSaveResult | undefined): SaveSampleResult | undefined {
+  if (result?.id !== undefined) {
+    return { success: true, id: result.id };
+  }
+  if (result?.error) {
+    return {
+      success: false,
+      error: normalizeError(Object.assign(new Error(result.error.message), { code: result.error.code })),
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Save quantity samples, blood pressure readings and workouts in a single
+ * call to HealthKit, e.g. every nutrient of a meal:
+ *
+ * ```ts
+ * const results = await saveSamples(
+ *   [
+ *     { kind: 'quantity', dataType: 'Water', value: 250, startDate: mealTime },
+ *     { kind: 'quantity', dataType: 'Protein', value: 32, startDate: mealTime },
+ *     { kind: 'quantity', dataType: 'Carbs', value: 54, startDate: mealTime },
+ *   ],
+ *   { atomic: true }
+ * );
+ * ```
+ *
+ * Each sample is converted and validated like the matching save function
+ * would, but a sample that fails is reported in its result rather than
+ * thrown. In atomic mode, samples saved before a failure are deleted again,
+ * and every sample that is not saved fails with `ERR_HEALTHKIT_SAVE_FAILED`,
+ * caused by the error of the first sample that failed.
+ * @param samples - The samples to save, in any mix of kinds
+ * @param options - Whether to save all of the samples or none of them
+ * @returns One result per sample, in the same order
+ */
+export async function saveSamples(
+  samples: SampleInput[],
+  options: SaveSamplesOptions = {}
+): Promise<SaveSampleResult[]> {
+  const atomic = options.atomic ?? false;
+  const results: (SaveSampleResult | undefined)[] = samples.map(() => undefined);
+  const prepared: { index: number; sample: PreparedSample }[] = [];
+
+  samples.forEach((sample, index) => {
+    try {
+      prepared.push({ index, sample: prepareSample(sample, index) });
+    } catch (error) {
+      results[index] = { success: false, error: normalizeError(error) };
+    }
+  });
+
+  // An atomic batch with an invalid sample never reaches HealthKit
+  let nativeResults: NativeSaveResult[] = [];
+  if (prepared.length > 0 && !(atomic && prepared.length < samples.length)) {
+    const nativeSamples = prepared.map(({ sample }) => sample.native);
+    nativeResults = await callNativeModule((module) => module.saveSamples(nativeSamples, atomic));
+  }
+
+  const written = new Set<CanonicalDataType>();
+  prepared.forEach(({ index, sample }, i) => {
+    results[index] = toSaveResult(nativeResults[i]);
+    if (results[index]?.success) {
+      sample.types.forEach((type) => written.add(type));
+    }
+  });
+  if (written.size > 0) {
+    notifyWrite(...written);
+  }
+
+  const failedIndex = results.findIndex((result) => result?.success === false);
+  const failure = results[failedIndex];
+  const cause = failure?.success === false ? failure.error : undefined;
+  const message = cause ? `Not saved because samples[${failedIndex}] failed: ${cause.message}` : 'Not saved';
+  return results.map(
+    (result) => result ?? { success: false, error: new HealthKitError('ERR_HEALTHKIT_SAVE_FAILED', message, cause) }
+  );
+}
+
+// ======================
+// Quantity Samples
+// ======================
+
+/**
+ * Query samples of any quantity type, such as HRV, respiratory rate,
+ * body temperature or dietary fiber
+ * @param dataType - Any cumulative or discrete quantity type
+ * @param options - Query options (startDate, endDate, limit) and optional unit
+ * @returns Array of samples, newest first, in the type's canonical unit
+ * unless `options.unit` is given
+ */
+export async function queryQuantitySamples<T extends DataType>(
+  dataType: T,
+  options: QuantityQueryOptions<T> = {}
+): Promise<QuantitySample[]> {
+  const { canonical } = requireQuantityType(dataType);
+  const queryOptions = {
+    startDate: toOptionalEpochSeconds(options.startDate, 'startDate'),
+    endDate: toOptionalEpochSeconds(options.endDate, 'endDate'),
+    limit: options.limit,
+  };
+  assertOrderedRange(queryOptions.startDate, queryOptions.endDate);
+  const samples = await cachedNativeCall('queryQuantitySamples', [canonical], [canonical, queryOptions], (module) =>
+    module.queryQuantitySamples(canonical, queryOptions)
+  );
+  return convertSamples(dataType, samples, options.unit);
+}
+
+// ======================
+// Pagination
+// ======================
+
+/**
+ * Query one page of workouts, newest first
+ * @param options - Query options (startDate, endDate), page size and the
+ * cursor of the previous page
+ * @param units - Optional units for distance (default meters) and calories (default kilocalories)
+ * @returns The workouts and the cursor of the next page, or null on the last page
+ */
+export async function queryWorkoutsPage(
+  options: PaginatedQueryOptions = {},
+  units: WorkoutUnits = {}
+): Promise<Page<Workout>> {
+  const queryOptions = toNativePageOptions(options);
+  const workouts = await callNativeModule((module) => module.queryWorkouts(queryOptions));
+  const page = toPage(workouts, queryOptions.limit - 1, queryOptions.cursor);
+  return { ...page, items: page.items.map((workout) => convertWorkout(workout, units)) };
+}
+
+/**
+ * Query one page of samples of any quantity type, newest first
+ * @param dataType - Any cumulative or discrete quantity type
+ * @param options - Query options (startDate, endDate), page size, the
+ * cursor of the previous page and optional unit
+ * @returns The samples and the cursor of the next page, or null on the last page
+ */
+export async function queryQuantitySamplesPage<T extends DataType>(
+  dataType: T,
+  options: QuantityPageOptions<T> = {}
+): Promise<Page<QuantitySample>> {
+  const { canonical } = requireQuantityType(dataType);
+  const queryOptions = toNativePageOptions(options);
+  const samples = await callNativeModule((module) => module.queryQuantitySamples(canonical, queryOptions));
+  const page = toPage(samples, queryOptions.limit - 1, queryOptions.cursor);
+  return { ...page, items: convertSamples(dataType, page.items, options.unit) };
+}
+
+/**
+ * Get one page of heart rate samples for a date range, newest first
+ * @param startDate - Start date
+ * @param endDate - End date
+ * @param options - Page size and the cursor of the previous page
+ * @returns The samples (bpm) and the cursor of the next page, or null on the last page
+ */
+export async function getHeartRateSamplesPage(
+  startDate: DateInput,
+  endDate: DateInput,
+  options: PageOptions = {}
+): Promise<Page<QuantitySample>> {
+  return await queryQuantitySamplesPage('HeartRate', { ...options, startDate, endDate });
+}
+
+/**
+ * Iterate over all workouts page by page, newest first:
+ *
+ * ```ts
+ * for await (const page of iterateWorkouts({ startDate: yearAgo })) {
+ *   await upload(page.items);
+ * }
+ * ```
+ *
+ * Each page carries its `nextCursor`, so an interrupted loop can be resumed
+ * by passing it as `options.cursor`.
+ */
+export function iterateWorkouts(
+  options: PaginatedQueryOptions = {},
+  units: WorkoutUnits = {}
+): AsyncGenerator<Page<Workout>, void, undefined> {
+  return iteratePages((cursor) => queryWorkoutsPage({ ...options, cursor }, units), options.cursor);
+}
+
+/**
+ * Iterate over all samples of a quantity type page by page, newest first
+ * @see iterateWorkouts
+ */
+export function iterateQuantitySamples<T extends DataType>(
+  dataType: T,
+  options: QuantityPageOptions<T> = {}
+): AsyncGenerator<Page<QuantitySample>, void, undefined> {
+  return iteratePages((cursor) => queryQuantitySamplesPage(dataType, { ...options, cursor }), options.cursor);
+}
+
+/**
+ * Iterate over all heart rate samples in a date range page by page, newest first
+ * @see iterateWorkouts
+ */
+export function iterateHeartRate(
+  startDate: DateInput,
+  endDate: DateInput,
+  options: PageOptions = {}
+): AsyncGenerator<Page<QuantitySample>, void, undefined> {
+  return iteratePages((cursor) => getHeartRateSamplesPage(startDate, endDate, { ...options, cursor }), options.cursor);
+}
+
+// ======================
+// Changes
+// ======================
+
+/**
+ * Get the samples added and deleted since an anchor. Unlike date-range
+ * queries this also reports deletions, so a sync job only has to keep the
+ * returned anchor (see `AnchorStore`).
+ * @param dataType - Any data type, including workouts and sleep
+ * @param anchor - The anchor returned by the previous call; omit to get every sample
+ * @param options - Optional limit per call and unit for quantity samples
+ * @returns Added samples, IDs of deleted samples and the anchor to pass next
+ */
+export async function getChanges<T extends DataType>(
+  dataType: T,
+  anchor?: string | null,
+  options: ChangesOptions<T> = {}
+): Promise<Changes<T>> {
+  const canonical = resolveDataType(dataType);
+  if (!canonical) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unsupported data type: ${dataType}`);
+  }
+  if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit <= 0)) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Invalid limit: ${options.limit}`);
+  }
+  const changes = await callNativeModule((module) =>
+    module.getChanges(canonical, { anchor: anchor ?? undefined, limit: options.limit })
+  );
+  const added =
+    canonical === 'Workout' || canonical === 'SleepAnalysis'
+      ? changes.added
+      : convertSamples(dataType, changes.added as QuantitySample[], options.unit);
+  return { ...changes, added: added as SampleFor<T>[] };
+}
+
+// ======================
+// Statistics
+// ======================
+
+const STATISTICS_INTERVALS = ['hour', 'day', 'week', 'month'];
+
+/**
+ * Get aggregated values for a quantity type in calendar-aligned buckets,
+ * in a single call. Every bucket in the range is returned, including
+ * buckets without samples.
+ * @param dataType - Any cumulative or discrete quantity type
+ * @param options - Date range, interval, aggregation and optional unit
+ * @returns Buckets in chronological order
+ */
+export async function getStatisticsCollection<T extends DataType>(
+  dataType: T,
+  options: StatisticsCollectionOptions<T>
+): Promise<StatisticsBucket[]> {
+  const { canonical, kind } = requireQuantityType(dataType);
+  if (!STATISTICS_INTERVALS.includes(options.interval)) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Invalid interval: ${options.interval}`);
+  }
+
+  const aggregation = options.aggregation ?? (kind === 'cumulative' ? 'sum' : 'avg');
+  if ((kind === 'cumulative') !== (aggregation === 'sum')) {
+    throw new HealthKitError(
+      'ERR_HEALTHKIT_INVALID_ARGUMENT',
+      `${dataType} does not support the ${aggregation} aggregation`
+    );
+  }
+
+  const { start, end } = toDateRange(options.startDate, options.endDate);
+  const statisticsOptions = { startDate: start, endDate: end, interval: options.interval, aggregation };
+  const buckets = await cachedNativeCall(
+    'getStatisticsCollection',
+    [canonical],
+    [canonical, statisticsOptions],
+    (module) => module.getStatisticsCollection(canonical, statisticsOptions)
+  );
+  return buckets.map((bucket) => ({
+    ...bucket,
+    value: convertOptional(dataType, bucket.value, options.unit),
+  }));
 }
@@ -0,0 +1,234 @@
+import { requireNativeModule } from 'expo-modules-core';
+import type { EventSubscription } from 'expo-modules-core';
+import { normalizeError } from './errors';
+import type {
+  AuthorizationRequestStatus,
+  AuthorizationStatus,
+  BloodPressureSample,
+  WorkoutData,
+  Workout,
+  WorkoutEvent,
+  WorkoutRoutePoint,
+  QuantitySample,
+  SleepSample,
+  StatisticsAggregation,
+  StatisticsBucket,
+} from './types';
+import type { CalendarInterval } from './dates';
+
+/**
+ * Workout data as it crosses the bridge (dates in seconds since epoch)
+ */
+export interface NativeWorkoutData extends Omit<WorkoutData, 'startDate' | 'endDate' | 'events' | 'route'> {
+  startDate: number;
+  endDate: number;
+  events?: WorkoutEvent[];
+  route?: WorkoutRoutePoint[];
+}
+
+/**
+ * A sample to save as it crosses the bridge, in canonical units. Blood
+ * pressure is saved as one correlation at `startDate`.
+ */
+export type NativeSampleInput =
+  | { kind: 'quantity'; dataType: string; value: number; startDate: number; endDate: number }
+  | { kind: 'bloodPressure'; systolic: number; diastolic: number; startDate: number; endDate: number }
+  | ({ kind: 'workout' } & NativeWorkoutData);
+
+/**
+ * What happened to one sample of a batch: `id` if it was saved, `error` if
+ * it failed, and neither if it was not written because another sample of
+ * an atomic batch failed
+ */
+export interface NativeSaveResult {
+  id?: string;
+  error?: { code: string; message: string };
+}
+
+/**
+ * A food entry as it crosses the bridge, with nutrients keyed by their
+ * canonical names
+ */
+export interface NativeFoodEntryData {
+  name: string;
+  mealType?: string;
+  nutrients: Record<string, number>;
+  startDate: number;
+  endDate: number;
+}
+
+/**
+ * A saved food entry as it crosses the bridge. `name` and `mealType` are
+ * left out when the entry has none.
+ */
+export interface NativeFoodEntry extends Partial<Pick<NativeFoodEntryData, 'name' | 'mealType'>> {
+  id: string;
+  nutrients: Record<string, number>;
+  startDate: number;
+  endDate: number;
+}
+
+/**
+ * A pagination cursor as it crosses the bridge: only samples ending at or
+ * before `endDate` and not listed in `excludeIds` are returned
+ */
+export interface NativeCursor {
+  endDate: number;
+  excludeIds: string[];
+}
+
+/**
+ * Query options as they cross the bridge (dates in seconds since epoch)
+ */
+export interface NativeQueryOptions {
+  startDate?: number;
+  endDate?: number;
+  limit?: number;
+  cursor?: NativeCursor;
+}
+
+/**
+ * Statistics collection options as they cross the bridge
+ */
+export interface NativeStatisticsOptions {
+  startDate: number;
+  endDate: number;
+  interval: CalendarInterval;
+  aggregation: StatisticsAggregation;
+}
+
+/**
+ * Anchored query options as they cross the bridge
+ */
+export interface NativeChangesOptions {
+  /** Anchor returned by the previous call; omit to get every sample */
+  anchor?: string;
+  limit?: number;
+}
+
+/**
+ * Samples added and deleted since an anchor, with the anchor to pass next
+ */
+export interface NativeChanges {
+  added: (QuantitySample | SleepSample | Workout)[];
+  deleted: string[];
+  anchor: string;
+}
+
+/**
+ * Sent by an observer when samples of a type were added or deleted, or with
+ * `error` when the observer failed and stopped
+ */
+export interface NativeDataChangedEvent {
+  dataType: string;
+  error?: { code: string; message: string };
+}
+
+/**
+ * The surface implemented by the native `ExpoHealthKit` module.
+ * All dates are seconds since epoch.
+ */
+export interface ExpoHealthKitNativeModule {
+  isAvailable(): boolean;
+  requestAuthorization(readTypes: string[], writeTypes: string[]): Promise<void>;
+  getAuthorizationStatus(dataType: string): Promise<AuthorizationStatus>;
+  getRequestStatus(readTypes: string[], writeTypes: string[]): Promise<AuthorizationRequestStatus>;
+
+  // Workouts
+  saveWorkout(workoutData: NativeWorkoutData): Promise<string>;
+  queryWorkouts(options: NativeQueryOptions): Promise<Workout[]>;
+  getTotalDistance(startDate: number, endDate: number): Promise<number>;
+  getTotalCalories(startDate: number, endDate: number): Promise<number>;
+  deleteWorkout(workoutId: string): Promise<void>;
+  getWorkoutRoute(workoutId: string): Promise<WorkoutRoutePoint[]>;
+
+  // Steps & Activity
+  getSteps(startDate: number, endDate: number): Promise<number>;
+  getFlightsClimbed(startDate: number, endDate: number): Promise<number>;
+
+  // Body Measurements
+  saveHeight(heightCm: number, timestamp?: number): Promise<void>;
+  saveWeight(weightKg: number, timestamp?: number): Promise<void>;
+  saveBodyFat(percentage: number, timestamp?: number): Promise<void>;
+  getLatestHeight(): Promise<number | null>;
+  getLatestWeight(): Promise<number | null>;
+  getLatestBMI(): Promise<number | null>;
+  getLatestBodyFat(): Promise<number | null>;
+
+  // Heart Rate & Vitals
+  getHeartRateSamples(startDate: number, endDate: number, limit?: number): Promise<QuantitySample[]>;
+  getLatestHeartRate(): Promise<number | null>;
+  getRestingHeartRate(startDate: number, endDate: number): Promise<number | null>;
+  getOxygenSaturation(startDate: number, endDate: number, limit?: number): Promise<QuantitySample[]>;
+  saveBloodPressure(systolic: number, diastolic: number, timestamp?: number): Promise<void>;
+  getBloodPressureSamples(startDate: number, endDate: number, limit?: number): Promise<BloodPressureSample[]>;
+  deleteBloodPressure(id: string): Promise<void>;
+
+  // Sleep
+  getSleepSamples(startDate: number, endDate: number): Promise<SleepSample[]>;
+
+  // Nutrition
+  saveWater(milliliters: number, timestamp?: number): Promise<void>;
+  getWaterIntake(startDate: number, endDate: number): Promise<number>;
+  saveCaffeine(milligrams: number, timestamp?: number): Promise<void>;
+  saveProtein(grams: number, timestamp?: number): Promise<void>;
+  saveCarbs(grams: number, timestamp?: number): Promise<void>;
+  saveFat(grams: number, timestamp?: number): Promise<void>;
+  saveFoodEntry(entry: NativeFoodEntryData): Promise<string>;
+  getFoodEntries(options: NativeQueryOptions): Promise<NativeFoodEntry[]>;
+
+  // Batch Writes
+  saveSamples(samples: NativeSampleInput[], atomic: boolean): Promise<NativeSaveResult[]>;
+
+  // Quantity Samples
+  queryQuantitySamples(dataType: string, options: NativeQueryOptions): Promise<QuantitySample[]>;
+
+  // Changes
+  getChanges(dataType: string, options: NativeChangesOptions): Promise<NativeChanges>;
+
+  // Observers
+  startObserving(dataType: string): Promise<void>;
+  stopObserving(dataType: string): Promise<void>;
+  addListener(eventName: 'onDataChanged', listener: (event: NativeDataChangedEvent) => void): EventSubscription;
+
+  // Statistics
+  getStatisticsCollection(dataType: string, options: NativeStatisticsOptions): Promise<StatisticsBucket[]>;
+}
+
+let installedModule: ExpoHealthKitNativeModule | null = null;
+
+/**
+ * Get the module that backs every HealthKit call.
+ * The native module is only required on first use, so importing this
+ * package never fails on platforms without HealthKit.
+ */
+export function getNativeModule(): ExpoHealthKitNativeModule {
+  if (!installedModule) {
+    installedModule = requireNativeModule<ExpoHealthKitNativeModule>('ExpoHealthKit');
+  }
+  return installedModule;
+}
+
+/**
+ * Replace the module that backs every HealthKit call, e.g. with a
+ * `SimulatedHealthKit` in tests. Pass null to go back to the native module.
+ * @param module - The module to install, or null
+ */
+export function setNativeModule(module: ExpoHealthKitNativeModule | null): void {
+  installedModule = module;
+}
+
+/**
+ * Run a call against the installed module, rejecting with a
+ * `HealthKitError` whatever the module throws
+ * @param call - The call to make
+ */
+export async function callNativeModule<T>(
+  call: (module: ExpoHealthKitNativeModule) => Promise<T>
+): Promise<T> {
+  try {
+    return await call(getNativeModule());
+  } catch (error) {
+    throw normalizeError(error);
+  }
+}
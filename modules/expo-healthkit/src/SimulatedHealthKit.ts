@@ -0,0 +1,1031 @@
+import type { EventSubscription } from 'expo-modules-core';
+import { setNativeModule } from './ExpoHealthKitModule';
+import type {
+  ExpoHealthKitNativeModule,
+  NativeChanges,
+  NativeChangesOptions,
+  NativeCursor,
+  NativeDataChangedEvent,
+  NativeFoodEntry,
+  NativeFoodEntryData,
+  NativeQueryOptions,
+  NativeSampleInput,
+  NativeSaveResult,
+  NativeStatisticsOptions,
+  NativeWorkoutData,
+} from './ExpoHealthKitModule';
+import { parseActivityType } from './activityTypes';
+import { resolveDataType, isQuantityType, isNutrientType } from './dataTypes';
+import type { CanonicalDataType } from './dataTypes';
+import { toEpochSeconds, startOfInterval, addInterval } from './dates';
+import type { DateInput } from './dates';
+import { HealthKitError, normalizeError } from './errors';
+import type {
+  ActivityType,
+  AuthorizationRequestStatus,
+  AuthorizationStatus,
+  BloodPressureSample,
+  DataType,
+  Workout,
+  WorkoutEvent,
+  WorkoutEventData,
+  WorkoutMetadata,
+  WorkoutRouteLocation,
+  WorkoutRoutePoint,
+  QuantitySample,
+  SleepSample,
+  StatisticsAggregation,
+  StatisticsBucket,
+} from './types';
+import { createUUID } from './uuid';
+
+export interface SimulatedQuantityFixture {
+  id?: string;
+  value: number;
+  startDate: DateInput;
+  endDate?: DateInput;
+}
+
+export interface SimulatedSleepFixture {
+  id?: string;
+  value: SleepSample['value'];
+  startDate: DateInput;
+  endDate: DateInput;
+}
+
+export interface SimulatedWorkoutFixture {
+  id?: string;
+  activityType?: ActivityType;
+  startDate: DateInput;
+  endDate: DateInput;
+  duration?: number;
+  distance?: number;
+  calories?: number;
+  metadata?: WorkoutMetadata;
+  events?: WorkoutEventData[];
+  route?: WorkoutRouteLocation[];
+}
+
+export interface SimulatedBloodPressureFixture {
+  id?: string;
+  systolic: number;
+  diastolic: number;
+  date: DateInput;
+}
+
+/**
+ * Seed data for a simulated store.
+ * Quantity values use the same units as the bridge: cm, kg, body fat in
+ * percent (0-100), oxygen saturation as a fraction (0-1), mL of water,
+ * mg of caffeine, g of macronutrients, bpm, mmHg, meters, kcal and counts.
+ */
+export interface SimulatedHealthKitFixtures {
+  quantities?: Partial<Record<DataType, SimulatedQuantityFixture[]>>;
+  sleep?: SimulatedSleepFixture[];
+  workouts?: SimulatedWorkoutFixture[];
+  bloodPressure?: SimulatedBloodPressureFixture[];
+}
+
+export interface SimulatedHealthKitOptions {
+  /** Whether `isAvailable()` reports HealthKit as available (default true) */
+  available?: boolean;
+  /** Whether every requested type is granted (default true) */
+  grantAll?: boolean;
+  /** Types the simulated user declines when authorization is requested */
+  deniedTypes?: DataType[];
+  /** Treat these types as already authorized for writing */
+  authorizedWriteTypes?: DataType[];
+  /** Simulate a locked device, where the health database is inaccessible */
+  locked?: boolean;
+}
+
+// A food correlation: the nutrient samples are stored like any other
+interface StoredFoodEntry extends Omit<NativeFoodEntry, 'nutrients'> {
+  sampleIds: Partial<Record<CanonicalDataType, string>>;
+}
+
+// A blood pressure correlation over a systolic and a diastolic sample
+interface StoredBloodPressure {
+  id: string;
+  systolicId: string;
+  diastolicId: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function nowSeconds(): number {
+  return Date.now() / 1000;
+}
+
+// Mirrors HKQuery.predicateForSamples(withStart:end:options: .strictStartDate)
+function inRange(sample: { startDate: number }, startDate: number, endDate: number): boolean {
+  return sample.startDate >= startDate && sample.startDate < endDate;
+}
+
+// Like HKWorkout(workoutEvents:): the time between start and end less the
+// pauses
+function activeDuration(startDate: number, endDate: number, events: WorkoutEvent[]): number {
+  let paused = 0;
+  let pausedAt: number | null = null;
+  for (const event of events) {
+    if ((event.type === 'pause' || event.type === 'motionPaused') && pausedAt === null) {
+      pausedAt = event.startDate;
+    } else if ((event.type === 'resume' || event.type === 'motionResumed') && pausedAt !== null) {
+      paused += event.startDate - pausedAt;
+      pausedAt = null;
+    }
+  }
+  if (pausedAt !== null) {
+    paused += endDate - pausedAt;
+  }
+  return endDate - startDate - paused;
+}
+
+function copyWorkout(workout: Workout): Workout {
+  return {
+    ...workout,
+    metadata: { ...workout.metadata },
+    events: workout.events.map((event) => ({ ...event, metadata: { ...event.metadata } })),
+  };
+}
+
+function beforeCursor(sample: { id: string; endDate: number }, cursor?: NativeCursor): boolean {
+  return !cursor || (sample.endDate <= cursor.endDate && !cursor.excludeIds.includes(sample.id));
+}
+
+function byEndDateDescending(a: { endDate: number }, b: { endDate: number }): number {
+  return b.endDate - a.endDate;
+}
+
+function aggregate(values: number[], aggregation: StatisticsAggregation): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  switch (aggregation) {
+    case 'sum':
+      return values.reduce((total, value) => total + value, 0);
+    case 'avg':
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+  }
+}
+
+function applyLimit<T>(items: T[], limit?: number): T[] {
+  return limit !== undefined && limit !== null && limit > 0 ? items.slice(0, limit) : items;
+}
+
+/**
+ * A pure TypeScript, in-memory implementation of the native module.
+ * Use it in Jest, on the web or on the iOS simulator so code built on this
+ * package can run without a device:
+ *
+ * ```ts
+ * const healthKit = installSimulatedHealthKit({
+ *   quantities: { Steps: [{ value: 1200, startDate: new Date() }] },
+ * });
+ * await getSteps(startOfDay, new Date()); // 1200
+ * ```
+ */
+export class SimulatedHealthKit implements ExpoHealthKitNativeModule {
+  private available: boolean;
+  private locked: boolean;
+  private grantAll: boolean;
+  private deniedTypes: Set<CanonicalDataType>;
+  private readTypes = new Set<CanonicalDataType>();
+  // Every type read access was requested for, granted or not
+  private requestedReadTypes = new Set<CanonicalDataType>();
+  private writeTypes = new Set<CanonicalDataType>();
+  private declinedWriteTypes = new Set<CanonicalDataType>();
+  private quantities = new Map<CanonicalDataType, QuantitySample[]>();
+  private sleep: SleepSample[] = [];
+  private workouts: Workout[] = [];
+  private routes = new Map<string, WorkoutRoutePoint[]>();
+  private foodEntries: StoredFoodEntry[] = [];
+  private bloodPressures: StoredBloodPressure[] = [];
+  // Change log for anchored queries: every insert and delete bumps the revision
+  private revision = 0;
+  private revisions = new Map<string, number>();
+  private deletions: { type: CanonicalDataType; id: string; revision: number }[] = [];
+  private observedTypes = new Set<CanonicalDataType>();
+  private listeners = new Set<(event: NativeDataChangedEvent) => void>();
+
+  constructor(fixtures: SimulatedHealthKitFixtures = {}, options: SimulatedHealthKitOptions = {}) {
+    this.available = options.available ?? true;
+    this.locked = options.locked ?? false;
+    this.grantAll = options.grantAll ?? true;
+    this.deniedTypes = this.resolveTypes(options.deniedTypes ?? []);
+    this.writeTypes = this.resolveTypes(options.authorizedWriteTypes ?? []);
+    this.seed(fixtures);
+  }
+
+  // ======================
+  // Simulator controls
+  // ======================
+
+  /**
+   * Add fixture data to the store
+   * @param fixtures - Quantity, sleep, workout and blood pressure samples to add
+   */
+  seed(fixtures: SimulatedHealthKitFixtures): void {
+    for (const [type, samples] of Object.entries(fixtures.quantities ?? {})) {
+      const canonical = this.requireType(type);
+      for (const sample of samples ?? []) {
+        const startDate = toEpochSeconds(sample.startDate);
+        this.insertQuantity(canonical, {
+          id: sample.id ?? createUUID(),
+          value: sample.value,
+          startDate,
+          endDate: sample.endDate !== undefined ? toEpochSeconds(sample.endDate) : startDate,
+        });
+      }
+    }
+
+    for (const sample of fixtures.sleep ?? []) {
+      const startDate = toEpochSeconds(sample.startDate);
+      const endDate = toEpochSeconds(sample.endDate);
+      const id = sample.id ?? createUUID();
+      this.sleep.push({
+        id,
+        value: sample.value,
+        startDate,
+        endDate,
+        duration: endDate - startDate,
+      });
+      this.recordAdded('SleepAnalysis', id);
+    }
+
+    for (const workout of fixtures.workouts ?? []) {
+      const startDate = toEpochSeconds(workout.startDate);
+      const endDate = toEpochSeconds(workout.endDate);
+      const id = workout.id ?? createUUID();
+      this.workouts.push({
+        id,
+        activityType: workout.activityType ?? 'other',
+        startDate,
+        endDate,
+        duration: workout.duration ?? endDate - startDate,
+        distance: workout.distance ?? 0,
+        calories: workout.calories ?? 0,
+        metadata: { ...workout.metadata },
+        events: (workout.events ?? []).map((event) => {
+          const eventStart = toEpochSeconds(event.startDate);
+          return {
+            type: event.type,
+            startDate: eventStart,
+            endDate: event.endDate !== undefined ? toEpochSeconds(event.endDate) : eventStart,
+            metadata: { ...event.metadata },
+          };
+        }),
+      });
+      if (workout.route && workout.route.length > 0) {
+        this.routes.set(id, workout.route.map((point) => ({ ...point, timestamp: toEpochSeconds(point.timestamp) })));
+      }
+      this.recordAdded('Workout', id);
+    }
+
+    for (const reading of fixtures.bloodPressure ?? []) {
+      const date = toEpochSeconds(reading.date);
+      const systolic = { id: createUUID(), value: reading.systolic, startDate: date, endDate: date };
+      const diastolic = { id: createUUID(), value: reading.diastolic, startDate: date, endDate: date };
+      this.insertQuantity('BloodPressureSystolic', systolic);
+      this.insertQuantity('BloodPressureDiastolic', diastolic);
+      this.bloodPressures.push({ id: reading.id ?? createUUID(), systolicId: systolic.id, diastolicId: diastolic.id });
+    }
+  }
+
+  /**
+   * Remove all samples and authorization state
+   */
+  reset(): void {
+    this.quantities.clear();
+    this.sleep = [];
+    this.workouts = [];
+    this.routes.clear();
+    this.foodEntries = [];
+    this.bloodPressures = [];
+    this.revisions.clear();
+    this.deletions = [];
+    this.observedTypes.clear();
+    this.readTypes.clear();
+    this.requestedReadTypes.clear();
+    this.writeTypes.clear();
+    this.declinedWriteTypes.clear();
+  }
+
+  /**
+   * Remove a stored sample as if another app deleted it. The deletion is
+   * reported by `getChanges`.
+   * @returns false if no sample of that type has the ID
+   */
+  removeSample(type: DataType, id: string): boolean {
+    const canonical = this.requireType(type);
+    const samples: { id: string }[] = this.storedSamples(canonical);
+    const index = samples.findIndex((sample) => sample.id.toLowerCase() === id.toLowerCase());
+    if (index === -1) {
+      return false;
+    }
+    const [removed] = samples.splice(index, 1);
+    this.routes.delete(removed.id);
+    this.recordDeleted(canonical, removed.id);
+    return true;
+  }
+
+  /**
+   * Change whether HealthKit is reported as available
+   */
+  setAvailable(available: boolean): void {
+    this.available = available;
+  }
+
+  /**
+   * Lock or unlock the simulated device. While locked, every read and
+   * write fails with `ERR_HEALTHKIT_DATABASE_LOCKED`.
+   */
+  setLocked(locked: boolean): void {
+    this.locked = locked;
+  }
+
+  /**
+   * Get every stored sample for a quantity type, newest first
+   */
+  getStoredQuantities(type: DataType): QuantitySample[] {
+    return [...(this.quantities.get(this.requireType(type)) ?? [])].sort(byEndDateDescending);
+  }
+
+  /**
+   * Get every stored sleep sample, newest first
+   */
+  getStoredSleep(): SleepSample[] {
+    return [...this.sleep].sort(byEndDateDescending);
+  }
+
+  /**
+   * Get every stored workout, newest first
+   */
+  getStoredWorkouts(): Workout[] {
+    return [...this.workouts].sort(byEndDateDescending);
+  }
+
+  /**
+   * Check whether a type has been granted for reading or writing
+   */
+  isAuthorized(type: DataType, access: 'read' | 'write'): boolean {
+    const canonical = this.requireType(type);
+    return (access === 'read' ? this.readTypes : this.writeTypes).has(canonical);
+  }
+
+  // ======================
+  // Core
+  // ======================
+
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  async requestAuthorization(readTypes: string[], writeTypes: string[]): Promise<void> {
+    if (!this.available) {
+      throw new HealthKitError('ERR_HEALTHKIT_UNAVAILABLE', 'HealthKit is not available on this device');
+    }
+
+    for (const type of readTypes) {
+      const canonical = resolveDataType(type);
+      if (!canonical) {
+        continue;
+      }
+      this.requestedReadTypes.add(canonical);
+      if (this.isGranted(canonical)) {
+        this.readTypes.add(canonical);
+      }
+    }
+    for (const type of writeTypes) {
+      const canonical = resolveDataType(type);
+      if (!canonical) {
+        continue;
+      }
+      if (this.isGranted(canonical)) {
+        this.writeTypes.add(canonical);
+        this.declinedWriteTypes.delete(canonical);
+      } else if (!this.writeTypes.has(canonical)) {
+        this.declinedWriteTypes.add(canonical);
+      }
+    }
+  }
+
+  async getAuthorizationStatus(dataType: string): Promise<AuthorizationStatus> {
+    if (!this.available) {
+      throw new HealthKitError('ERR_HEALTHKIT_UNAVAILABLE', 'HealthKit is not available on this device');
+    }
+
+    const canonical = this.requireType(dataType);
+    if (this.declinedWriteTypes.has(canonical)) {
+      return 'sharingDenied';
+    }
+    return this.writeTypes.has(canonical) ? 'sharingAuthorized' : 'notDetermined';
+  }
+
+  async getRequestStatus(readTypes: string[], writeTypes: string[]): Promise<AuthorizationRequestStatus> {
+    if (!this.available) {
+      throw new HealthKitError('ERR_HEALTHKIT_UNAVAILABLE', 'HealthKit is not available on this device');
+    }
+
+    const unrequested =
+      readTypes.some((type) => {
+        const canonical = resolveDataType(type);
+        return canonical !== null && !this.requestedReadTypes.has(canonical);
+      }) ||
+      writeTypes.some((type) => {
+        const canonical = resolveDataType(type);
+        return canonical !== null && !this.writeTypes.has(canonical) && !this.declinedWriteTypes.has(canonical);
+      });
+    return unrequested ? 'shouldRequest' : 'unnecessary';
+  }
+
+  // ======================
+  // Workouts
+  // ======================
+
+  async saveWorkout(workoutData: NativeWorkoutData): Promise<string> {
+    this.assertAvailable();
+    return this.insertWorkout(workoutData).id;
+  }
+
+  async queryWorkouts(options: NativeQueryOptions): Promise<Workout[]> {
+    this.assertAvailable();
+    const startDate = options.startDate ?? 0;
+    const endDate = options.endDate ?? nowSeconds();
+    const workouts = this.workouts
+      .filter((w) => inRange(w, startDate, endDate) && beforeCursor(w, options.cursor))
+      .sort(byEndDateDescending)
+      .map(copyWorkout);
+    return applyLimit(workouts, options.limit);
+  }
+
+  async getTotalDistance(startDate: number, endDate: number): Promise<number> {
+    return this.sum('DistanceWalkingRunning', startDate, endDate);
+  }
+
+  async getTotalCalories(startDate: number, endDate: number): Promise<number> {
+    return this.sum('ActiveEnergyBurned', startDate, endDate);
+  }
+
+  async deleteWorkout(workoutId: string): Promise<void> {
+    this.assertAvailable();
+    if (!UUID_PATTERN.test(workoutId)) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'Invalid workout ID');
+    }
+    const index = this.workouts.findIndex((w) => w.id.toLowerCase() === workoutId.toLowerCase());
+    if (index === -1) {
+      throw new HealthKitError('ERR_HEALTHKIT_NOT_FOUND', 'Workout not found');
+    }
+    this.assertCanWrite('Workout');
+    const [removed] = this.workouts.splice(index, 1);
+    this.routes.delete(removed.id);
+    this.recordDeleted('Workout', removed.id);
+  }
+
+  async getWorkoutRoute(workoutId: string): Promise<WorkoutRoutePoint[]> {
+    this.assertAvailable();
+    if (!UUID_PATTERN.test(workoutId)) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'Invalid workout ID');
+    }
+    const workout = this.workouts.find((w) => w.id.toLowerCase() === workoutId.toLowerCase());
+    if (!workout) {
+      throw new HealthKitError('ERR_HEALTHKIT_NOT_FOUND', 'Workout not found');
+    }
+    return (this.routes.get(workout.id) ?? []).map((point) => ({ ...point }));
+  }
+
+  // ======================
+  // Steps & Activity
+  // ======================
+
+  async getSteps(startDate: number, endDate: number): Promise<number> {
+    return this.sum('StepCount', startDate, endDate);
+  }
+
+  async getFlightsClimbed(startDate: number, endDate: number): Promise<number> {
+    return this.sum('FlightsClimbed', startDate, endDate);
+  }
+
+  // ======================
+  // Body Measurements
+  // ======================
+
+  async saveHeight(heightCm: number, timestamp?: number): Promise<void> {
+    this.save('Height', heightCm, timestamp);
+  }
+
+  async saveWeight(weightKg: number, timestamp?: number): Promise<void> {
+    this.save('BodyMass', weightKg, timestamp);
+  }
+
+  async saveBodyFat(percentage: number, timestamp?: number): Promise<void> {
+    this.save('BodyFatPercentage', percentage, timestamp);
+  }
+
+  async getLatestHeight(): Promise<number | null> {
+    return this.latest('Height');
+  }
+
+  async getLatestWeight(): Promise<number | null> {
+    return this.latest('BodyMass');
+  }
+
+  async getLatestBMI(): Promise<number | null> {
+    return this.latest('BodyMassIndex');
+  }
+
+  async getLatestBodyFat(): Promise<number | null> {
+    return this.latest('BodyFatPercentage');
+  }
+
+  // ======================
+  // Heart Rate & Vitals
+  // ======================
+
+  async getHeartRateSamples(startDate: number, endDate: number, limit?: number): Promise<QuantitySample[]> {
+    return this.samples('HeartRate', startDate, endDate, limit);
+  }
+
+  async getLatestHeartRate(): Promise<number | null> {
+    return this.latest('HeartRate');
+  }
+
+  async getRestingHeartRate(startDate: number, endDate: number): Promise<number | null> {
+    return this.latest('RestingHeartRate', startDate, endDate);
+  }
+
+  async getOxygenSaturation(startDate: number, endDate: number, limit?: number): Promise<QuantitySample[]> {
+    return this.samples('OxygenSaturation', startDate, endDate, limit);
+  }
+
+  async saveBloodPressure(systolic: number, diastolic: number, timestamp?: number): Promise<void> {
+    this.insertBloodPressure(systolic, diastolic, timestamp);
+  }
+
+  async getBloodPressureSamples(startDate: number, endDate: number, limit?: number): Promise<BloodPressureSample[]> {
+    this.assertAvailable();
+    const readings = this.bloodPressures
+      .map((reading) => this.readBloodPressure(reading))
+      .filter((reading): reading is BloodPressureSample => reading !== null)
+      .filter((reading) => inRange({ startDate: reading.timestamp }, startDate, endDate))
+      .sort((a, b) => b.timestamp - a.timestamp);
+    return applyLimit(readings, limit);
+  }
+
+  async deleteBloodPressure(id: string): Promise<void> {
+    this.assertAvailable();
+    if (!UUID_PATTERN.test(id)) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'Invalid blood pressure ID');
+    }
+    const reading = this.bloodPressures.find((r) => r.id.toLowerCase() === id.toLowerCase());
+    if (!reading || !this.readBloodPressure(reading)) {
+      throw new HealthKitError('ERR_HEALTHKIT_NOT_FOUND', 'Blood pressure reading not found');
+    }
+    this.assertCanWrite('BloodPressureSystolic');
+    this.assertCanWrite('BloodPressureDiastolic');
+    this.removeBloodPressure(reading.id);
+  }
+
+  // ======================
+  // Sleep
+  // ======================
+
+  async getSleepSamples(startDate: number, endDate: number): Promise<SleepSample[]> {
+    this.assertAvailable();
+    return this.sleep
+      .filter((s) => inRange(s, startDate, endDate))
+      .sort(byEndDateDescending)
+      .map((s) => ({ ...s }));
+  }
+
+  // ======================
+  // Nutrition
+  // ======================
+
+  async saveWater(milliliters: number, timestamp?: number): Promise<void> {
+    this.save('DietaryWater', milliliters, timestamp);
+  }
+
+  async getWaterIntake(startDate: number, endDate: number): Promise<number> {
+    return this.sum('DietaryWater', startDate, endDate);
+  }
+
+  async saveCaffeine(milligrams: number, timestamp?: number): Promise<void> {
+    this.save('DietaryCaffeine', milligrams, timestamp);
+  }
+
+  async saveProtein(grams: number, timestamp?: number): Promise<void> {
+    this.save('DietaryProtein', grams, timestamp);
+  }
+
+  async saveCarbs(grams: number, timestamp?: number): Promise<void> {
+    this.save('DietaryCarbohydrates', grams, timestamp);
+  }
+
+  async saveFat(grams: number, timestamp?: number): Promise<void> {
+    this.save('DietaryFatTotal', grams, timestamp);
+  }
+
+  async saveFoodEntry(entry: NativeFoodEntryData): Promise<string> {
+    this.assertAvailable();
+    const nutrients = Object.entries(entry.nutrients).map(([type, value]) => {
+      const canonical = this.requireType(type);
+      if (!isNutrientType(canonical)) {
+        throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${type} is not a nutrient`);
+      }
+      // Every nutrient must be writable before any is saved
+      this.assertCanWrite(canonical);
+      return { type: canonical, value };
+    });
+
+    const sampleIds: Partial<Record<CanonicalDataType, string>> = {};
+    for (const { type, value } of nutrients) {
+      sampleIds[type] = this.save(type, value, entry.startDate, entry.endDate);
+    }
+    const id = createUUID();
+    this.foodEntries.push({
+      id,
+      name: entry.name,
+      mealType: entry.mealType,
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      sampleIds,
+    });
+    return id;
+  }
+
+  // Nutrient samples deleted since the entry was saved are left out
+  async getFoodEntries(options: NativeQueryOptions): Promise<NativeFoodEntry[]> {
+    this.assertAvailable();
+    const startDate = options.startDate ?? 0;
+    const endDate = options.endDate ?? nowSeconds();
+    const entries = this.foodEntries
+      .filter((entry) => inRange(entry, startDate, endDate))
+      .sort(byEndDateDescending)
+      .map(({ sampleIds, ...entry }) => {
+        const nutrients: Record<string, number> = {};
+        for (const [type, id] of Object.entries(sampleIds)) {
+          const sample = this.quantities.get(type as CanonicalDataType)?.find((s) => s.id === id);
+          if (sample) {
+            nutrients[type] = sample.value;
+          }
+        }
+        return { ...entry, nutrients };
+      });
+    return applyLimit(entries, options.limit);
+  }
+
+  // ======================
+  // Batch Writes
+  // ======================
+
+  // Like the native module, samples are saved one at a time and an atomic
+  // batch deletes what it saved as soon as one fails
+  async saveSamples(samples: NativeSampleInput[], atomic: boolean): Promise<NativeSaveResult[]> {
+    const results: NativeSaveResult[] = samples.map(() => ({}));
+    const saved: { index: number; remove: () => void }[] = [];
+
+    for (const [index, sample] of samples.entries()) {
+      try {
+        const { id, remove } = this.saveSample(sample);
+        results[index] = { id };
+        saved.push({ index, remove });
+      } catch (error) {
+        const { code, message } = normalizeError(error);
+        results[index] = { error: { code, message } };
+        if (atomic) {
+          for (const { index: savedIndex, remove } of saved) {
+            remove();
+            results[savedIndex] = {};
+          }
+          break;
+        }
+      }
+    }
+    return results;
+  }
+
+  // ======================
+  // Quantity Samples
+  // ======================
+
+  async queryQuantitySamples(dataType: string, options: NativeQueryOptions): Promise<QuantitySample[]> {
+    const type = this.requireType(dataType);
+    if (!isQuantityType(type)) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${dataType} is not a quantity type`);
+    }
+    return this.samples(type, options.startDate ?? 0, options.endDate ?? nowSeconds(), options.limit, options.cursor);
+  }
+
+  // ======================
+  // Changes
+  // ======================
+
+  // Anchors are the revision of the change log they were handed out at
+  async getChanges(dataType: string, options: NativeChangesOptions): Promise<NativeChanges> {
+    this.assertAvailable();
+    const type = this.requireType(dataType);
+    if (options.anchor !== undefined && !/^\d+$/.test(options.anchor)) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'Invalid anchor');
+    }
+    const since = options.anchor === undefined ? 0 : Number(options.anchor);
+
+    const changes = [
+      ...this.storedSamples(type).map((sample) => ({
+        revision: this.revisions.get(sample.id) ?? 0,
+        added: { ...sample },
+      })),
+      ...this.deletions.filter((d) => d.type === type).map((d) => ({ revision: d.revision, deleted: d.id })),
+    ]
+      .filter((change) => change.revision > since)
+      .sort((a, b) => a.revision - b.revision);
+    const batch = applyLimit(changes, options.limit);
+
+    return {
+      added: batch.flatMap((change) => ('added' in change ? [change.added] : [])),
+      deleted: batch.flatMap((change) => ('deleted' in change ? [change.deleted] : [])),
+      anchor: String(batch.length < changes.length ? batch[batch.length - 1].revision : this.revision),
+    };
+  }
+
+  // ======================
+  // Observers
+  // ======================
+
+  // Like an observer query started before authorization was requested, this
+  // fails until read access to the type has been granted
+  async startObserving(dataType: string): Promise<void> {
+    this.assertAvailable();
+    const type = this.requireType(dataType);
+    if (!this.readTypes.has(type)) {
+      throw new HealthKitError(
+        'ERR_HEALTHKIT_AUTHORIZATION_NOT_DETERMINED',
+        `Authorization not determined for ${type}`
+      );
+    }
+    this.observedTypes.add(type);
+  }
+
+  async stopObserving(dataType: string): Promise<void> {
+    this.observedTypes.delete(this.requireType(dataType));
+  }
+
+  addListener(eventName: 'onDataChanged', listener: (event: NativeDataChangedEvent) => void): EventSubscription {
+    this.listeners.add(listener);
+    return {
+      remove: () => {
+        this.listeners.delete(listener);
+      },
+    };
+  }
+
+  // ======================
+  // Statistics
+  // ======================
+
+  async getStatisticsCollection(
+    dataType: string,
+    options: NativeStatisticsOptions
+  ): Promise<StatisticsBucket[]> {
+    const samples = this.samples(this.requireType(dataType), options.startDate, options.endDate);
+    const end = new Date(options.endDate * 1000);
+    const buckets: StatisticsBucket[] = [];
+
+    let bucketStart = startOfInterval(new Date(options.startDate * 1000), options.interval);
+    while (bucketStart < end) {
+      const bucketEnd = addInterval(bucketStart, options.interval);
+      const startDate = bucketStart.getTime() / 1000;
+      const endDate = bucketEnd.getTime() / 1000;
+      const values = samples.filter((s) => inRange(s, startDate, endDate)).map((s) => s.value);
+      buckets.push({ startDate, endDate, value: aggregate(values, options.aggregation) });
+      bucketStart = bucketEnd;
+    }
+    return buckets;
+  }
+
+  // ======================
+  // Store helpers
+  // ======================
+
+  private resolveTypes(types: DataType[]): Set<CanonicalDataType> {
+    return new Set(types.map((type) => this.requireType(type)));
+  }
+
+  private requireType(type: string): CanonicalDataType {
+    const canonical = resolveDataType(type);
+    if (!canonical) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unsupported data type: ${type}`);
+    }
+    return canonical;
+  }
+
+  private isGranted(type: CanonicalDataType): boolean {
+    return this.grantAll && !this.deniedTypes.has(type);
+  }
+
+  private assertAvailable(): void {
+    if (!this.available) {
+      throw new HealthKitError('ERR_HEALTHKIT_UNAVAILABLE', 'HealthKit is not available on this device');
+    }
+    if (this.locked) {
+      throw new HealthKitError('ERR_HEALTHKIT_DATABASE_LOCKED', 'Protected health data is inaccessible');
+    }
+  }
+
+  private assertCanWrite(type: CanonicalDataType): void {
+    if (this.declinedWriteTypes.has(type)) {
+      throw new HealthKitError('ERR_HEALTHKIT_AUTHORIZATION_DENIED', `Authorization to share ${type} was denied`);
+    }
+    if (!this.writeTypes.has(type)) {
+      throw new HealthKitError(
+        'ERR_HEALTHKIT_AUTHORIZATION_NOT_DETERMINED',
+        `Authorization to share ${type} is not determined`
+      );
+    }
+  }
+
+  private insertQuantity(type: CanonicalDataType, sample: QuantitySample): void {
+    const samples = this.quantities.get(type) ?? [];
+    samples.push(sample);
+    this.quantities.set(type, samples);
+    this.recordAdded(type, sample.id);
+  }
+
+  private insertWorkout(workoutData: NativeWorkoutData): Workout {
+    const { startDate, endDate, duration, distance, calories } = workoutData;
+    if ([startDate, endDate, duration, distance, calories].some((v) => typeof v !== 'number')) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'Missing required workout data');
+    }
+    this.assertCanWrite('Workout');
+
+    const events = (workoutData.events ?? []).map((event) => ({ ...event, metadata: { ...event.metadata } }));
+    const workout: Workout = {
+      id: createUUID(),
+      activityType: parseActivityType(workoutData.activityType ?? 'running'),
+      startDate,
+      endDate,
+      duration: events.length > 0 ? activeDuration(startDate, endDate, events) : duration,
+      distance,
+      calories,
+      metadata: { ...workoutData.metadata },
+      events,
+    };
+    this.workouts.push(workout);
+    if (workoutData.route && workoutData.route.length > 0) {
+      this.routes.set(workout.id, workoutData.route.map((point) => ({ ...point })));
+    }
+    this.recordAdded('Workout', workout.id);
+    return workout;
+  }
+
+  private recordAdded(type: CanonicalDataType, id: string): void {
+    this.revisions.set(id, ++this.revision);
+    this.notify(type);
+  }
+
+  private recordDeleted(type: CanonicalDataType, id: string): void {
+    this.revisions.delete(id);
+    this.deletions.push({ type, id, revision: ++this.revision });
+    this.notify(type);
+  }
+
+  private notify(type: CanonicalDataType): void {
+    if (this.observedTypes.has(type)) {
+      this.listeners.forEach((listener) => listener({ dataType: type }));
+    }
+  }
+
+  // The live array holding samples of a type
+  private storedSamples(type: CanonicalDataType): (QuantitySample | SleepSample | Workout)[] {
+    if (type === 'Workout') {
+      return this.workouts;
+    }
+    if (type === 'SleepAnalysis') {
+      return this.sleep;
+    }
+    if (!this.quantities.has(type)) {
+      this.quantities.set(type, []);
+    }
+    return this.quantities.get(type)!;
+  }
+
+  private save(type: CanonicalDataType, value: number, timestamp?: number, endTimestamp?: number): string {
+    this.assertAvailable();
+    this.assertCanWrite(type);
+    const startDate = timestamp ?? nowSeconds();
+    const id = createUUID();
+    this.insertQuantity(type, { id, value, startDate, endDate: endTimestamp ?? startDate });
+    return id;
+  }
+
+  // Save one sample of a batch, returning its ID and how to undo the save
+  private saveSample(sample: NativeSampleInput): { id: string; remove: () => void } {
+    this.assertAvailable();
+    switch (sample.kind) {
+      case 'quantity': {
+        const type = this.requireType(sample.dataType);
+        if (!isQuantityType(type)) {
+          throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${sample.dataType} is not a quantity type`);
+        }
+        const id = this.save(type, sample.value, sample.startDate, sample.endDate);
+        return { id, remove: () => this.removeSample(type, id) };
+      }
+      case 'bloodPressure': {
+        const id = this.insertBloodPressure(sample.systolic, sample.diastolic, sample.startDate);
+        return { id, remove: () => this.removeBloodPressure(id) };
+      }
+      case 'workout': {
+        const { id } = this.insertWorkout(sample);
+        return { id, remove: () => this.removeSample('Workout', id) };
+      }
+    }
+  }
+
+  private insertBloodPressure(systolic: number, diastolic: number, timestamp?: number): string {
+    this.assertAvailable();
+    // Both halves must be writable before either is saved
+    this.assertCanWrite('BloodPressureSystolic');
+    this.assertCanWrite('BloodPressureDiastolic');
+    const id = createUUID();
+    this.bloodPressures.push({
+      id,
+      systolicId: this.save('BloodPressureSystolic', systolic, timestamp),
+      diastolicId: this.save('BloodPressureDiastolic', diastolic, timestamp),
+    });
+    return id;
+  }
+
+  // A reading whose halves were removed on their own no longer counts
+  private readBloodPressure(reading: StoredBloodPressure): BloodPressureSample | null {
+    const systolic = this.quantities.get('BloodPressureSystolic')?.find((s) => s.id === reading.systolicId);
+    const diastolic = this.quantities.get('BloodPressureDiastolic')?.find((s) => s.id === reading.diastolicId);
+    if (!systolic || !diastolic) {
+      return null;
+    }
+    return { id: reading.id, systolic: systolic.value, diastolic: diastolic.value, timestamp: systolic.startDate };
+  }
+
+  private removeBloodPressure(id: string): void {
+    const index = this.bloodPressures.findIndex((reading) => reading.id === id);
+    if (index === -1) {
+      return;
+    }
+    const [{ systolicId, diastolicId }] = this.bloodPressures.splice(index, 1);
+    this.removeSample('BloodPressureSystolic', systolicId);
+    this.removeSample('BloodPressureDiastolic', diastolicId);
+  }
+
+  private samples(
+    type: CanonicalDataType,
+    startDate: number,
+    endDate: number,
+    limit?: number,
+    cursor?: NativeCursor
+  ): QuantitySample[] {
+    this.assertAvailable();
+    const samples = (this.quantities.get(type) ?? [])
+      .filter((s) => inRange(s, startDate, endDate) && beforeCursor(s, cursor))
+      .sort(byEndDateDescending)
+      .map((s) => ({ ...s }));
+    return applyLimit(samples, limit);
+  }
+
+  private sum(type: CanonicalDataType, startDate: number, endDate: number): number {
+    return this.samples(type, startDate, endDate).reduce((total, s) => total + s.value, 0);
+  }
+
+  // The newest sample, optionally only among those starting in a range
+  private latest(type: CanonicalDataType, startDate = -Infinity, endDate = Infinity): number | null {
+    this.assertAvailable();
+    const [sample] = (this.quantities.get(type) ?? [])
+      .filter((s) => inRange(s, startDate, endDate))
+      .sort(byEndDateDescending);
+    return sample ? sample.value : null;
+  }
+}
+
+/**
+ * Create a simulated store and install it in place of the native module
+ * @param fixtures - Optional seed data
+ * @param options - Optional availability and authorization behaviour
+ * @returns The installed simulator, for seeding and inspection
+ */
+export function installSimulatedHealthKit(
+  fixtures: SimulatedHealthKitFixtures = {},
+  options: SimulatedHealthKitOptions = {}
+): SimulatedHealthKit {
+  const simulator = new SimulatedHealthKit(fixtures, options);
+  setNativeModule(simulator);
+  return simulator;
+}
+
+/**
+ * Go back to the native module after `installSimulatedHealthKit`
+ */
+export function uninstallSimulatedHealthKit(): void {
+  setNativeModule(null);
+}
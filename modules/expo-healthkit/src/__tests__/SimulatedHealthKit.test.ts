@@ -0,0 +1,56 @@
+import {
+  getLatestWeight,
+  getSteps,
+  installSimulatedHealthKit,
+  isAvailable,
+  requestAuthorization,
+  saveWeight,
+  uninstallSimulatedHealthKit,
+} from '../index';
+
+const HOUR = 3600 * 1000;
+
+describe('SimulatedHealthKit', () => {
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('answers reads from its fixtures', async () => {
+    const now = Date.now();
+    installSimulatedHealthKit({
+      quantities: {
+        Steps: [
+          { value: 1200, startDate: now - 2 * HOUR, endDate: now - HOUR },
+          { value: 800, startDate: now - HOUR, endDate: now },
+        ],
+      },
+    });
+    await requestAuthorization(['Steps'], []);
+
+    expect(isAvailable()).toBe(true);
+    expect(await getSteps(new Date(now - 3 * HOUR), new Date(now + 1000))).toBe(2000);
+  });
+
+  it('reads back what was saved, in the requested unit', async () => {
+    installSimulatedHealthKit();
+    await requestAuthorization(['BodyMass'], ['BodyMass']);
+
+    await saveWeight(70);
+
+    expect(await getLatestWeight()).toBe(70);
+    expect(await getLatestWeight('lb')).toBeCloseTo(154.32, 2);
+  });
+
+  it('rejects writes the user declined', async () => {
+    installSimulatedHealthKit({}, { deniedTypes: ['BodyMass'] });
+    await requestAuthorization([], ['BodyMass']);
+
+    await expect(saveWeight(70)).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_AUTHORIZATION_DENIED' });
+  });
+
+  it('reports HealthKit as unavailable', () => {
+    installSimulatedHealthKit({}, { available: false });
+
+    expect(isAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,15 @@
+import { getActivityTypeInfo, parseActivityType } from '../index';
+
+describe('activity types', () => {
+  it('parses HealthKit identifiers and names in any case', () => {
+    expect(parseActivityType('HKWorkoutActivityTypeRunning')).toBe('running');
+    expect(parseActivityType('RUNNING')).toBe('running');
+    expect(getActivityTypeInfo('running').displayName).toBe('Running');
+  });
+
+  // Names inherited from Object.prototype are not activity types
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty'])('parses %s as other', (key) => {
+    expect(parseActivityType(key)).toBe('other');
+    expect(getActivityTypeInfo(key as never).displayName).toBe('Other');
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  AnchorStore,
+  getChanges,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  saveWorkout,
+  uninstallSimulatedHealthKit,
+} from '../index';
+import type { SimulatedHealthKit } from '../index';
+
+const HOUR = 3600 * 1000;
+
+describe('change feed', () => {
+  const now = Date.now();
+  let simulator: SimulatedHealthKit;
+
+  beforeEach(async () => {
+    simulator = installSimulatedHealthKit({
+      workouts: [
+        { id: 'a', startDate: now - 3 * HOUR, endDate: now - 2 * HOUR },
+        { id: 'b', startDate: now - 2 * HOUR, endDate: now - HOUR },
+      ],
+    });
+    await requestAuthorization(['Workout'], ['Workout']);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('reports samples added and deleted since an anchor', async () => {
+    const first = await getChanges('Workout');
+    expect(first.added.map((workout) => workout.id).sort()).toEqual(['a', 'b']);
+    expect(first.deleted).toEqual([]);
+
+    const id = await saveWorkout({ startDate: now - HOUR, endDate: now, duration: 600, distance: 0, calories: 0 });
+    simulator.removeSample('Workout', 'a');
+    const second = await getChanges('Workout', first.anchor);
+    expect(second.added.map((workout) => workout.id)).toEqual([id]);
+    expect(second.deleted).toEqual(['a']);
+
+    const third = await getChanges('Workout', second.anchor);
+    expect(third.added).toEqual([]);
+    expect(third.deleted).toEqual([]);
+  });
+
+  it('rejects malformed anchors and limits', async () => {
+    await expect(getChanges('Workout', 'not an anchor')).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+    });
+    await expect(getChanges('Workout', null, { limit: 0 })).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+    });
+  });
+
+  it('syncs batch by batch and stores the anchor after each', async () => {
+    const store = new AnchorStore();
+    const batches: number[] = [];
+
+    const totals = await store.sync(
+      'Workout',
+      (changes) => {
+        batches.push(changes.added.length);
+      },
+      { limit: 1 }
+    );
+
+    expect(totals).toEqual({ added: 2, deleted: 0 });
+    expect(batches).toEqual([1, 1]);
+    expect(await store.getAnchor('Workout')).not.toBeNull();
+  });
+
+  it('keeps the anchor when processing the changes fails', async () => {
+    const store = new AnchorStore();
+    await store.sync('Workout', () => {});
+    const anchor = await store.getAnchor('Workout');
+    simulator.removeSample('Workout', 'b');
+
+    await expect(
+      store.sync('Workout', () => {
+        throw new Error('upload failed');
+      })
+    ).rejects.toThrow('upload failed');
+    expect(await store.getAnchor('Workout')).toBe(anchor);
+
+    const deleted: string[] = [];
+    await store.sync('Workout', (changes) => {
+      deleted.push(...changes.deleted);
+    });
+    expect(deleted).toEqual(['b']);
+  });
+});
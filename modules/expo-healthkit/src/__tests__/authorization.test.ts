@@ -0,0 +1,75 @@
+import {
+  getAuthorizationStatus,
+  getAuthorizationSummary,
+  getRequestStatus,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  uninstallSimulatedHealthKit,
+} from '../index';
+
+describe('authorization', () => {
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('reports write access per type once it was requested', async () => {
+    installSimulatedHealthKit({}, { deniedTypes: ['DietaryWater'] });
+    expect(await getAuthorizationStatus('Weight')).toBe('notDetermined');
+
+    await requestAuthorization([], ['BodyMass', 'DietaryWater']);
+    expect(await getAuthorizationStatus('Weight')).toBe('sharingAuthorized');
+    expect(await getAuthorizationStatus('Water')).toBe('sharingDenied');
+    expect(await getAuthorizationStatus('HeartRate')).toBe('notDetermined');
+    await expect(getAuthorizationStatus('Mana' as 'Steps')).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+    });
+  });
+
+  it('only needs the permission sheet for types never requested', async () => {
+    installSimulatedHealthKit();
+    expect(await getRequestStatus(['Steps'], ['BodyMass'])).toBe('shouldRequest');
+
+    await requestAuthorization(['Steps'], ['BodyMass']);
+    expect(await getRequestStatus(['Steps'], ['BodyMass'])).toBe('unnecessary');
+    expect(await getRequestStatus(['Steps', 'HeartRate'], ['BodyMass'])).toBe('shouldRequest');
+  });
+
+  it('summarizes the next onboarding step', async () => {
+    installSimulatedHealthKit({}, { deniedTypes: ['DietaryWater'] });
+    const readTypes = ['Steps'] as const;
+    const writeTypes = ['BodyMass', 'Water'] as const;
+
+    expect(await getAuthorizationSummary([...readTypes], [...writeTypes])).toEqual({
+      nextStep: 'prompt',
+      isAvailable: true,
+      requestStatus: 'shouldRequest',
+      authorizedWriteTypes: [],
+      deniedWriteTypes: [],
+      notDeterminedWriteTypes: ['BodyMass', 'DietaryWater'],
+    });
+
+    await requestAuthorization([...readTypes], [...writeTypes]);
+    expect(await getAuthorizationSummary([...readTypes], [...writeTypes])).toEqual({
+      nextStep: 'openSettings',
+      isAvailable: true,
+      requestStatus: 'unnecessary',
+      authorizedWriteTypes: ['BodyMass'],
+      deniedWriteTypes: ['DietaryWater'],
+      notDeterminedWriteTypes: [],
+    });
+    expect(await getAuthorizationSummary([...readTypes], ['BodyMass'])).toMatchObject({ nextStep: 'continue' });
+  });
+
+  it('summarizes a device without HealthKit', async () => {
+    installSimulatedHealthKit({}, { available: false });
+
+    expect(await getAuthorizationSummary(['Steps'], ['BodyMass'])).toEqual({
+      nextStep: 'unavailable',
+      isAvailable: false,
+      requestStatus: 'unknown',
+      authorizedWriteTypes: [],
+      deniedWriteTypes: [],
+      notDeterminedWriteTypes: [],
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  BLOOD_PRESSURE_CATEGORIES,
+  classifyBloodPressure,
+  deleteBloodPressure,
+  getBloodPressureSamples,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  saveBloodPressure,
+  uninstallSimulatedHealthKit,
+} from '../index';
+
+const HOUR = 3600 * 1000;
+
+describe('classifyBloodPressure', () => {
+  it.each([
+    [115, 75, 'normal'],
+    [125, 75, 'elevated'],
+    [125, 82, 'hypertensionStage1'],
+    [135, 70, 'hypertensionStage1'],
+    [118, 92, 'hypertensionStage2'],
+    [145, 85, 'hypertensionStage2'],
+    [185, 100, 'hypertensiveCrisis'],
+    [150, 125, 'hypertensiveCrisis'],
+  ] as const)('classifies %i/%i as %s', (systolic, diastolic, category) => {
+    expect(classifyBloodPressure({ systolic, diastolic })).toBe(category);
+  });
+
+  it('lists the categories from lowest to highest', () => {
+    expect(BLOOD_PRESSURE_CATEGORIES[0]).toBe('normal');
+    expect(BLOOD_PRESSURE_CATEGORIES[BLOOD_PRESSURE_CATEGORIES.length - 1]).toBe('hypertensiveCrisis');
+  });
+});
+
+describe('blood pressure readings', () => {
+  const now = Date.now();
+  const range = { startDate: now - 24 * HOUR, endDate: now + HOUR };
+
+  beforeEach(async () => {
+    installSimulatedHealthKit({
+      bloodPressure: [
+        { systolic: 118, diastolic: 76, date: now - 3 * HOUR },
+        { systolic: 131, diastolic: 84, date: now - 48 * HOUR },
+      ],
+    });
+    const types = ['BloodPressureSystolic', 'BloodPressureDiastolic'] as const;
+    await requestAuthorization([...types], [...types]);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('saves readings and reads them back paired, newest first', async () => {
+    await saveBloodPressure(16, 10.5, now - HOUR, 'kPa');
+
+    const readings = await getBloodPressureSamples(range.startDate, range.endDate);
+    expect(readings).toHaveLength(2);
+    expect(readings[0].systolic).toBeCloseTo(120, 0);
+    expect(readings[0].diastolic).toBeCloseTo(79, 0);
+    expect(readings[0].timestamp).toBe((now - HOUR) / 1000);
+    expect(readings[1]).toMatchObject({ systolic: 118, diastolic: 76 });
+
+    const [latest] = await getBloodPressureSamples(range.startDate, range.endDate, 1, 'kPa');
+    expect(latest.systolic).toBeCloseTo(16, 5);
+  });
+
+  it('rejects readings whose systolic pressure is not above the diastolic', async () => {
+    await expect(saveBloodPressure(80, 80)).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+    expect(await getBloodPressureSamples(range.startDate, range.endDate)).toHaveLength(1);
+  });
+
+  it('deletes both halves of a reading by its ID', async () => {
+    const [reading] = await getBloodPressureSamples(range.startDate, range.endDate);
+
+    await deleteBloodPressure(reading.id);
+    expect(await getBloodPressureSamples(range.startDate, range.endDate)).toEqual([]);
+    await expect(deleteBloodPressure(reading.id)).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_NOT_FOUND' });
+  });
+});
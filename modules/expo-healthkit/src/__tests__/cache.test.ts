@@ -0,0 +1,46 @@
+import {
+  clearCache,
+  configureCache,
+  getHeartRateSamples,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  uninstallSimulatedHealthKit,
+} from '../index';
+import type { SimulatedHealthKit } from '../index';
+
+describe('read cache', () => {
+  const start = new Date(Date.now() - 60000);
+  const end = new Date(Date.now() + 60000);
+  let simulator: SimulatedHealthKit;
+
+  beforeEach(async () => {
+    simulator = installSimulatedHealthKit({ quantities: { HeartRate: [{ value: 60, startDate: new Date() }] } });
+    await requestAuthorization(['HeartRate'], []);
+    configureCache({ enabled: true });
+  });
+
+  afterEach(() => {
+    configureCache({ enabled: false });
+    clearCache();
+    uninstallSimulatedHealthKit();
+  });
+
+  it('answers repeated reads without the native module', async () => {
+    const read = jest.spyOn(simulator, 'getHeartRateSamples');
+
+    await getHeartRateSamples(start, end);
+    await getHeartRateSamples(start, end);
+
+    expect(read).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives each caller its own copy', async () => {
+    const first = await getHeartRateSamples(start, end);
+    first[0].value = 999;
+    first.push({ ...first[0] });
+
+    const second = await getHeartRateSamples(start, end);
+    expect(second).toHaveLength(1);
+    expect(second[0].value).toBe(60);
+  });
+});
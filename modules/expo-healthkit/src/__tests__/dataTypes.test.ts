@@ -0,0 +1,15 @@
+import { getDataTypeKind, resolveDataType } from '../index';
+
+describe('resolveDataType', () => {
+  it('resolves aliases in any case', () => {
+    expect(resolveDataType('STEPS')).toBe('StepCount');
+    expect(resolveDataType('weight')).toBe('BodyMass');
+    expect(getDataTypeKind('Steps')).toBe('cumulative');
+  });
+
+  // Names inherited from Object.prototype must not resolve to anything
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty'])('does not resolve %s', (key) => {
+    expect(resolveDataType(key)).toBeNull();
+    expect(getDataTypeKind(key)).toBeNull();
+  });
+});
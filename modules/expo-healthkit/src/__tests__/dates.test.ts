@@ -0,0 +1,67 @@
+import {
+  epochSeconds,
+  getSteps,
+  installSimulatedHealthKit,
+  queryWorkouts,
+  requestAuthorization,
+  saveWorkout,
+  toEpochSeconds,
+  uninstallSimulatedHealthKit,
+} from '../index';
+
+// 2024-05-01T07:30:00Z
+const SECONDS = 1714548600;
+
+describe('date inputs', () => {
+  it.each([
+    ['a Date', new Date(SECONDS * 1000)],
+    ['milliseconds', SECONDS * 1000],
+    ['wrapped seconds', epochSeconds(SECONDS)],
+    ['an ISO string', '2024-05-01T07:30:00Z'],
+    ['an ISO string with an offset', '2024-05-01T09:30:00+02:00'],
+  ])('reads %s', (_, input) => {
+    expect(toEpochSeconds(input)).toBe(SECONDS);
+  });
+
+  it.each([
+    ['an invalid Date', new Date('nope')],
+    ['a string that is not ISO 8601', 'May 1st'],
+    ['NaN', Number.NaN],
+    ['an object without seconds', {} as never],
+  ])('rejects %s', (_, input) => {
+    expect(() => toEpochSeconds(input, 'startDate')).toThrow(
+      expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT', message: expect.stringContaining('startDate') })
+    );
+  });
+});
+
+describe('date ranges', () => {
+  beforeEach(async () => {
+    installSimulatedHealthKit();
+    await requestAuthorization(['Steps', 'Workout'], ['Workout']);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('rejects an end before the start', async () => {
+    await expect(getSteps('2024-05-02', '2024-05-01')).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+    });
+  });
+
+  it('saves workouts given as Dates and reads them back in seconds', async () => {
+    await saveWorkout({
+      startDate: new Date('2024-05-01T07:00:00Z'),
+      endDate: new Date('2024-05-01T07:30:00Z'),
+      duration: 1800,
+      distance: 5000,
+      calories: 300,
+    });
+
+    const [workout] = await queryWorkouts({ startDate: '2024-05-01', endDate: '2024-05-02' });
+    expect(workout.startDate).toBe(SECONDS - 1800);
+    expect(workout.endDate).toBe(SECONDS);
+  });
+});
@@ -0,0 +1,19 @@
+import { HealthKitError, isHealthKitError, normalizeError } from '../index';
+
+describe('normalizeError', () => {
+  it('maps Expo error codes', () => {
+    expect(normalizeError({ code: 'ERR_MISSING_ARGUMENT', message: 'x' }).code).toBe('ERR_HEALTHKIT_INVALID_ARGUMENT');
+  });
+
+  it('keeps HealthKit errors as they are', () => {
+    const error = new HealthKitError('ERR_HEALTHKIT_NOT_FOUND', 'gone');
+
+    expect(normalizeError(error)).toBe(error);
+    expect(isHealthKitError(error, 'ERR_HEALTHKIT_NOT_FOUND')).toBe(true);
+  });
+
+  // Names inherited from Object.prototype must not map to a code
+  it.each(['constructor', 'toString', '__proto__'])('does not map %s', (code) => {
+    expect(normalizeError({ code, message: 'x' }).code).toBe('ERR_HEALTHKIT_UNKNOWN');
+  });
+});
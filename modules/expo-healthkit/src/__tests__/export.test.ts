@@ -0,0 +1,153 @@
+import {
+  exportHealthData,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  uninstallSimulatedHealthKit,
+} from '../index';
+import type { ExportFileInfo, ExportProgress } from '../index';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+// 2024-05-01T07:30:00Z
+const NOW = Date.UTC(2024, 4, 1, 7, 30);
+const range = { startDate: NOW - DAY, endDate: NOW + DAY };
+
+describe('exportHealthData', () => {
+  beforeEach(async () => {
+    installSimulatedHealthKit({
+      quantities: {
+        Steps: [
+          { id: 's1', value: 120, startDate: NOW - 10 * MINUTE, endDate: NOW - 5 * MINUTE },
+          { id: 'needs "quoting", here', value: 80, startDate: NOW - 30 * MINUTE, endDate: NOW - 20 * MINUTE },
+        ],
+      },
+      sleep: [{ id: 'z1', value: 'deep', startDate: NOW - 8 * 60 * MINUTE, endDate: NOW - 7 * 60 * MINUTE }],
+      workouts: [
+        {
+          id: 'w1',
+          activityType: 'running',
+          startDate: NOW - 2 * 60 * MINUTE,
+          endDate: NOW - 60 * MINUTE,
+          duration: 3600,
+          distance: 10000,
+          calories: 600,
+        },
+      ],
+    });
+    await requestAuthorization(['Steps', 'SleepAnalysis', 'Workout'], []);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('writes CSV with a fixed header and quoted fields', async () => {
+    const [file] = await exportHealthData({ ...range, types: ['Steps'], format: 'csv' });
+
+    expect(file).toMatchObject({ dataType: 'StepCount', fileName: 'StepCount.csv', mimeType: 'text/csv', rows: 2 });
+    const lines = file.content!.trimEnd().split('\n');
+    expect(lines[0]).toBe('id,startDate,endDate,value,unit');
+    expect(lines).toContain('s1,2024-05-01T07:20:00.000Z,2024-05-01T07:25:00.000Z,120,count');
+    expect(lines).toContain('"needs ""quoting"", here",2024-05-01T07:00:00.000Z,2024-05-01T07:10:00.000Z,80,count');
+  });
+
+  it('writes JSON and NDJSON with columns in schema order', async () => {
+    const [json] = await exportHealthData({ ...range, types: ['Workout'], format: 'json' });
+    expect(json.mimeType).toBe('application/json');
+    const workouts = JSON.parse(json.content!);
+    expect(workouts).toEqual([
+      {
+        id: 'w1',
+        activityType: 'running',
+        startDate: '2024-05-01T05:30:00.000Z',
+        endDate: '2024-05-01T06:30:00.000Z',
+        duration: 3600,
+        distance: 10000,
+        calories: 600,
+      },
+    ]);
+    expect(Object.keys(workouts[0])).toEqual(json.columns);
+
+    const [ndjson] = await exportHealthData({ ...range, types: ['SleepAnalysis'], format: 'ndjson' });
+    expect(ndjson.mimeType).toBe('application/x-ndjson');
+    expect(
+      ndjson
+        .content!.trimEnd()
+        .split('\n')
+        .map((line) => JSON.parse(line))
+    ).toEqual([
+      {
+        id: 'z1',
+        startDate: '2024-04-30T23:30:00.000Z',
+        endDate: '2024-05-01T00:30:00.000Z',
+        value: 'deep',
+        duration: 3600,
+      },
+    ]);
+  });
+
+  it('writes an empty JSON array when there are no records', async () => {
+    const [file] = await exportHealthData({ ...range, types: ['HeartRate'], format: 'json' });
+
+    expect(file.rows).toBe(0);
+    expect(JSON.parse(file.content!)).toEqual([]);
+  });
+
+  it('streams each file to the writer from openFile and closes it', async () => {
+    const opened: ExportFileInfo[] = [];
+    const chunks: Record<string, string[]> = {};
+    const closed: string[] = [];
+    const progress: ExportProgress[] = [];
+
+    const files = await exportHealthData({
+      ...range,
+      types: ['Steps', 'StepCount', 'Workout'],
+      format: 'csv',
+      pageSize: 1,
+      openFile: (file) => {
+        opened.push(file);
+        chunks[file.fileName] = [];
+        return {
+          write: (chunk) => {
+            chunks[file.fileName].push(chunk);
+          },
+          close: () => {
+            closed.push(file.fileName);
+          },
+        };
+      },
+      onProgress: (update) => progress.push(update),
+    });
+
+    expect(opened.map((file) => file.fileName)).toEqual(['StepCount.csv', 'Workout.csv']);
+    expect(closed).toEqual(['StepCount.csv', 'Workout.csv']);
+    expect(files.map((file) => [file.fileName, file.rows, file.content])).toEqual([
+      ['StepCount.csv', 2, undefined],
+      ['Workout.csv', 1, undefined],
+    ]);
+    // Header, one chunk per page, then an empty CSV footer
+    expect(chunks['StepCount.csv']).toHaveLength(4);
+    expect(chunks['Workout.csv'].join('')).toMatch(
+      /^id,activityType,startDate,endDate,duration,distance,calories\nw1,/
+    );
+
+    const fractions = progress.map((update) => update.fraction);
+    expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+    expect(progress[progress.length - 1]).toMatchObject({ completedTypes: 2, totalTypes: 2, fraction: 1 });
+  });
+
+  it('rejects category types other than sleep and unknown formats before writing', async () => {
+    const openFile = jest.fn();
+
+    await expect(
+      exportHealthData({ ...range, types: ['Steps', 'MindfulMinutes'], format: 'csv', openFile })
+    ).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+    });
+    await expect(
+      exportHealthData({ ...range, types: ['Steps'], format: 'xml' as 'csv', openFile })
+    ).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+    expect(openFile).not.toHaveBeenCalled();
+  });
+});
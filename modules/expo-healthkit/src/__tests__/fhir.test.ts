@@ -0,0 +1,63 @@
+import {
+  bloodPressureToFHIR,
+  createFHIRBundle,
+  FHIRValidationError,
+  quantitySampleToFHIR,
+  validateFHIRBundle,
+} from '../index';
+import type { FHIRObservation } from '../index';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+// 2024-05-01T07:30:00Z
+const SECONDS = 1714548600;
+
+describe('FHIR export', () => {
+  const heartRate = quantitySampleToFHIR(
+    'HeartRate',
+    { id: 'B1F2C3D4-0000-4000-8000-000000000001', value: 62, startDate: SECONDS, endDate: SECONDS },
+    { subject: { reference: 'Patient/1' } }
+  );
+
+  it('codes quantity samples with LOINC and UCUM', () => {
+    expect(heartRate).toMatchObject({
+      resourceType: 'Observation',
+      id: 'b1f2c3d4-0000-4000-8000-000000000001',
+      status: 'final',
+      code: { coding: [{ system: 'http://loinc.org', code: '8867-4' }] },
+      subject: { reference: 'Patient/1' },
+      effectiveDateTime: '2024-05-01T07:30:00.000Z',
+      valueQuantity: { value: 62, unit: 'beats/minute', system: 'http://unitsofmeasure.org', code: '/min' },
+    });
+  });
+
+  it('rejects types without a LOINC code', () => {
+    expect(() =>
+      quantitySampleToFHIR('Caffeine', { id: 'x', value: 1, startDate: SECONDS, endDate: SECONDS + 60 })
+    ).toThrow(expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' }));
+  });
+
+  it('codes blood pressure as a panel with systolic and diastolic components', () => {
+    const observation = bloodPressureToFHIR({ systolic: 120, diastolic: 80, timestamp: SECONDS });
+
+    expect(observation.id).toMatch(UUID);
+    expect(observation.code.coding?.[0].code).toBe('85354-9');
+    expect(observation.component?.map((component) => component.valueQuantity?.value)).toEqual([120, 80]);
+  });
+
+  it('builds a valid document that starts with a Composition', () => {
+    const bundle = createFHIRBundle([heartRate], { timestamp: SECONDS * 1000 });
+
+    expect(bundle.type).toBe('document');
+    expect(bundle.id).toMatch(UUID);
+    expect(bundle.entry.map((entry) => entry.resource.resourceType)).toEqual(['Composition', 'Observation']);
+    expect(bundle.entry[1].fullUrl).toBe(`urn:uuid:${heartRate.id}`);
+    expect(validateFHIRBundle(bundle)).toEqual([]);
+  });
+
+  it('refuses to bundle an incomplete observation', () => {
+    const incomplete: FHIRObservation = { ...heartRate, valueQuantity: undefined, effectiveDateTime: undefined };
+
+    expect(() => createFHIRBundle([incomplete], { type: 'collection' })).toThrow(FHIRValidationError);
+  });
+});
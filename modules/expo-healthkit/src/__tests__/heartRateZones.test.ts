@@ -0,0 +1,77 @@
+import {
+  analyzeWorkoutHeartRate,
+  calculateHeartRateZones,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  uninstallSimulatedHealthKit,
+} from '../index';
+import type { HeartRateZoneOptions } from '../index';
+
+function lowerBounds(options: HeartRateZoneOptions): number[] {
+  return calculateHeartRateZones(options).map((zone) => zone.minBpm);
+}
+
+describe('calculateHeartRateZones', () => {
+  it('estimates the maximum from age', () => {
+    expect(lowerBounds({ age: 30 })).toEqual([95, 114, 133, 152, 171]);
+  });
+
+  it('spreads karvonen zones over the heart rate reserve', () => {
+    expect(lowerBounds({ zoneModel: 'karvonen', maxHR: 180, restingHR: 60 })).toEqual([120, 132, 144, 156, 168]);
+  });
+
+  it('uses custom thresholds as given', () => {
+    expect(lowerBounds({ zoneModel: 'custom', thresholds: [100, 130, 150] })).toEqual([100, 130, 150]);
+  });
+
+  it.each<[string, HeartRateZoneOptions]>([
+    ['a maximum that is not a number', { maxHR: Number.NaN }],
+    ['a zero maximum', { maxHR: 0 }],
+    ['an impossible maximum', { maxHR: 1000 }],
+    ['a negative age', { age: -3 }],
+    ['a resting rate above the maximum', { zoneModel: 'karvonen', maxHR: 180, restingHR: 190 }],
+    ['descending thresholds', { zoneModel: 'custom', thresholds: [120, 100] }],
+    ['a negative threshold', { zoneModel: 'custom', thresholds: [-5, 100] }],
+  ])('rejects %s', (_, options) => {
+    expect(() => calculateHeartRateZones(options)).toThrow(
+      expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' })
+    );
+  });
+});
+
+describe('analyzeWorkoutHeartRate', () => {
+  const DAY = 24 * 3600 * 1000;
+  const now = Date.now();
+  const workout = { id: 'w', startDate: (now - 30 * DAY) / 1000, endDate: (now - 30 * DAY + 3600000) / 1000 };
+
+  beforeEach(async () => {
+    installSimulatedHealthKit({
+      quantities: {
+        RestingHeartRate: [
+          { value: 50, startDate: now - 32 * DAY },
+          { value: 70, startDate: now - DAY },
+        ],
+      },
+    });
+    await requestAuthorization(['HeartRate', 'RestingHeartRate'], []);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('uses the resting heart rate from the week before the workout', async () => {
+    const analysis = await analyzeWorkoutHeartRate(workout, { zoneModel: 'karvonen', maxHR: 180 });
+
+    // 50 + 50% of (180 - 50), not 70 + 50% of (180 - 70)
+    expect(analysis.zones[0].minBpm).toBe(115);
+  });
+
+  it('rejects karvonen zones without a resting heart rate from that week', async () => {
+    const older = { ...workout, startDate: workout.startDate - 30 * 86400, endDate: workout.endDate - 30 * 86400 };
+
+    await expect(analyzeWorkoutHeartRate(older, { zoneModel: 'karvonen', maxHR: 180 })).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_NOT_FOUND',
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+
+import {
+  installSimulatedHealthKit,
+  requestAuthorization,
+  uninstallSimulatedHealthKit,
+  useHealthQuery,
+  useWorkouts,
+} from '../index';
+import type { SimulatedHealthKit } from '../index';
+
+describe('useHealthQuery', () => {
+  it('loads the query result', async () => {
+    const { result } = renderHook(() => useHealthQuery('steps', ['Steps'], async () => 42));
+
+    expect(result.current.isLoading).toBe(true);
+    await waitFor(() => expect(result.current.data).toBe(42));
+    expect(result.current.isLoading).toBe(false);
+  });
+
+  it('stops loading when a pending fetch is cancelled by disabling', async () => {
+    const { result, rerender } = renderHook(
+      ({ enabled }: { enabled: boolean }) =>
+        useHealthQuery('pending', ['Steps'], () => new Promise<number>(() => {}), { enabled }),
+      { initialProps: { enabled: true } }
+    );
+    expect(result.current.isLoading).toBe(true);
+
+    rerender({ enabled: false });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+  });
+
+  it('refetches when the screen gains focus', async () => {
+    const query = jest.fn(async () => 1);
+    let focus = () => {};
+    const unsubscribe = jest.fn();
+    const subscribeToFocus = (listener: () => void) => {
+      focus = listener;
+      return unsubscribe;
+    };
+    const { unmount } = renderHook(() => useHealthQuery('focus', ['Steps'], query, { subscribeToFocus }));
+    await waitFor(() => expect(query).toHaveBeenCalledTimes(1));
+
+    await act(async () => focus());
+
+    expect(query).toHaveBeenCalledTimes(2);
+    unmount();
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+});
+
+describe('useWorkouts', () => {
+  let simulator: SimulatedHealthKit;
+
+  beforeEach(async () => {
+    simulator = installSimulatedHealthKit();
+    await requestAuthorization(['Workout'], []);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('refetches when the temperature unit changes', async () => {
+    const queryWorkouts = jest.spyOn(simulator, 'queryWorkouts');
+    const { result, rerender } = renderHook(
+      ({ temperature }: { temperature: 'degC' | 'degF' }) => useWorkouts({}, { units: { temperature } }),
+      { initialProps: { temperature: 'degC' } }
+    );
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    rerender({ temperature: 'degF' });
+
+    await waitFor(() => expect(queryWorkouts).toHaveBeenCalledTimes(2));
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  importHealthExport,
+  installSimulatedHealthKit,
+  parseHealthExport,
+  requestAuthorization,
+  uninstallSimulatedHealthKit,
+} from '../index';
+import type { HealthExportRecord, SimulatedHealthKit } from '../index';
+
+function record(type: string, unit: string, value: number, minute: number): string {
+  const date = `2024-05-01 07:${String(minute).padStart(2, '0')}:00 +0000`;
+  return `<Record type="HKQuantityTypeIdentifier${type}" unit="${unit}" value="${value}" startDate="${date}" endDate="${date}"/>`;
+}
+
+const EXPORT = `<HealthData>
+${record('DietaryIron', 'mg', 3, 1)}
+${record('DietaryWater', 'mL', 250, 2)}
+${record('BodyMass', 'kg', 70, 3)}
+${record('BodyMass', 'kg', 70, 3)}
+${record('DietaryCalcium', 'mg', -5, 4)}
+${record('StepCount', 'count', 50, 4)}
+</HealthData>`;
+
+describe('importHealthExport', () => {
+  let simulator: SimulatedHealthKit;
+  let saveSamples: jest.SpyInstance;
+
+  beforeEach(async () => {
+    simulator = installSimulatedHealthKit({}, { deniedTypes: ['DietaryWater'] });
+    await requestAuthorization(
+      ['DietaryIron', 'BodyMass', 'DietaryCalcium'],
+      ['DietaryIron', 'DietaryWater', 'BodyMass', 'DietaryCalcium']
+    );
+    saveSamples = jest.spyOn(simulator, 'saveSamples');
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('counts what would be imported without writing in a dry run', async () => {
+    const result = await importHealthExport(EXPORT, { dryRun: true });
+
+    expect(result.imported).toEqual({ DietaryIron: 1, DietaryWater: 1, BodyMass: 1 });
+    expect(result.duplicates).toBe(1);
+    expect(result.skipped).toBe(1);
+    // The -5 mg of calcium fails validation like it would in a real import
+    expect(result.failed.map(({ error }) => error.code)).toEqual(['ERR_HEALTHKIT_INVALID_ARGUMENT']);
+    expect(saveSamples).not.toHaveBeenCalled();
+  });
+
+  it('writes each batch with one saveSamples call and reports failures per record', async () => {
+    const result = await importHealthExport(EXPORT);
+
+    expect(saveSamples).toHaveBeenCalledTimes(1);
+    expect(result.imported).toEqual({ DietaryIron: 1, BodyMass: 1 });
+    expect(
+      result.failed.map(({ record, error }) => [record.kind === 'quantity' && record.dataType, error.code])
+    ).toEqual([
+      ['DietaryWater', 'ERR_HEALTHKIT_AUTHORIZATION_DENIED'],
+      ['DietaryCalcium', 'ERR_HEALTHKIT_INVALID_ARGUMENT'],
+    ]);
+  });
+
+  it('skips records already in HealthKit', async () => {
+    await importHealthExport(EXPORT);
+    const again = await importHealthExport(EXPORT);
+
+    expect(again.imported).toEqual({});
+    expect(again.duplicates).toBe(3);
+  });
+
+  it('splits large imports into batches and finds repeats from earlier batches in HealthKit', async () => {
+    const result = await importHealthExport(EXPORT, { types: ['BodyMass', 'DietaryIron'], batchSize: 1 });
+
+    expect(saveSamples).toHaveBeenCalledTimes(2);
+    expect(result.imported).toEqual({ DietaryIron: 1, BodyMass: 1 });
+    expect(result.duplicates).toBe(1);
+  });
+
+  it('rejects types that cannot be imported', async () => {
+    await expect(importHealthExport(EXPORT, { types: ['Steps'] })).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+    });
+  });
+});
+
+describe('parseHealthExport', () => {
+  // Names inherited from Object.prototype must not match an identifier or value
+  it('skips records with prototype keys as types or values', async () => {
+    const date = '2024-05-01 07:30:00 +0000';
+    const xml = `<HealthData>
+<Record type="constructor" unit="count" value="3" startDate="${date}" endDate="${date}"/>
+<Record type="HKCategoryTypeIdentifierSleepAnalysis" value="toString" startDate="${date}" endDate="${date}"/>
+${record('StepCount', 'count', 3, 30)}
+</HealthData>`;
+    const records: HealthExportRecord[] = [];
+    for await (const parsed of parseHealthExport(xml)) {
+      records.push(parsed);
+    }
+
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({ kind: 'quantity', dataType: 'StepCount' });
+  });
+});
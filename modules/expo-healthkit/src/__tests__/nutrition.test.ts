@@ -0,0 +1,60 @@
+import {
+  getFoodEntries,
+  getWaterIntake,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  saveFoodEntry,
+  uninstallSimulatedHealthKit,
+  validateValue,
+} from '../index';
+import type { NutrientType } from '../index';
+
+describe('food entries', () => {
+  beforeEach(async () => {
+    installSimulatedHealthKit();
+    const types: NutrientType[] = ['DietaryEnergy', 'DietaryWater', 'DietaryIron', 'DietaryCalcium'];
+    await requestAuthorization(types, types);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('saves a food with its nutrients and reads it back', async () => {
+    const date = new Date(Date.now() - 60000);
+    const id = await saveFoodEntry({
+      name: 'Orange juice',
+      mealType: 'breakfast',
+      nutrients: { DietaryEnergy: 110, Water: 220, Calcium: 25 },
+      date,
+    });
+
+    const [entry] = await getFoodEntries();
+    expect(entry).toMatchObject({
+      id,
+      name: 'Orange juice',
+      mealType: 'breakfast',
+      nutrients: { DietaryEnergy: 110, DietaryWater: 220, DietaryCalcium: 25 },
+    });
+    // Its nutrients count towards the daily totals
+    expect(await getWaterIntake(new Date(Date.now() - 3600000), new Date())).toBe(220);
+  });
+
+  it.each([
+    ['without a name', { name: ' ', nutrients: { Water: 100 } }],
+    ['without nutrients', { name: 'Air', nutrients: {} }],
+    ['with a nutrient listed twice', { name: 'Tea', nutrients: { Water: 100, DietaryWater: 100 } }],
+    ['with negative minerals', { name: 'Spinach', nutrients: { Iron: -5, Calcium: -100 } }],
+  ])('rejects a food %s', async (_, entry) => {
+    await expect(saveFoodEntry(entry)).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+  });
+
+  it.each<NutrientType>(['DietaryIron', 'DietaryCalcium', 'DietaryVitaminC', 'DietaryZinc', 'DietarySelenium'])(
+    'bounds %s',
+    (type) => {
+      expect(validateValue(type, -1)).toHaveLength(1);
+      expect(validateValue(type, 1e9)).toHaveLength(1);
+      expect(validateValue(type, 10)).toEqual([]);
+    }
+  );
+});
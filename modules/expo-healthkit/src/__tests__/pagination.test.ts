@@ -0,0 +1,62 @@
+import {
+  installSimulatedHealthKit,
+  iterateWorkouts,
+  queryWorkoutsPage,
+  requestAuthorization,
+  uninstallSimulatedHealthKit,
+} from '../index';
+
+const HOUR = 3600 * 1000;
+
+describe('pagination', () => {
+  beforeEach(async () => {
+    const now = Date.now();
+    installSimulatedHealthKit({
+      workouts: [
+        { id: 'a', startDate: now - 6 * HOUR, endDate: now - 5 * HOUR },
+        { id: 'b', startDate: now - 5 * HOUR, endDate: now - 4 * HOUR },
+        // Two workouts ending together must not be split across pages and lost
+        { id: 'c', startDate: now - 4 * HOUR, endDate: now - 3 * HOUR },
+        { id: 'd', startDate: now - 3.5 * HOUR, endDate: now - 3 * HOUR },
+        { id: 'e', startDate: now - 2 * HOUR, endDate: now - HOUR },
+      ],
+    });
+    await requestAuthorization(['Workout'], []);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('walks every workout once, newest first', async () => {
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const page = await queryWorkoutsPage({ pageSize: 2, cursor });
+      expect(page.items.length).toBeLessThanOrEqual(2);
+      ids.push(...page.items.map((workout) => workout.id));
+      cursor = page.nextCursor;
+      pages += 1;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(ids[0]).toBe('e');
+    expect([...ids].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('iterates every page', async () => {
+    const ids: string[] = [];
+    for await (const page of iterateWorkouts({ pageSize: 2 })) {
+      ids.push(...page.items.map((workout) => workout.id));
+    }
+    expect([...ids].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('rejects malformed cursors and page sizes', async () => {
+    await expect(queryWorkoutsPage({ cursor: 'not a cursor' })).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+    });
+    await expect(queryWorkoutsPage({ pageSize: 0 })).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+  });
+});
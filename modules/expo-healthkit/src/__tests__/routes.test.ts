@@ -0,0 +1,79 @@
+import {
+  getWorkoutRoute,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  routeToGeoJSON,
+  routeToGPX,
+  saveWorkout,
+  uninstallSimulatedHealthKit,
+} from '../index';
+import type { WorkoutRoutePoint } from '../index';
+
+const ROUTE: WorkoutRoutePoint[] = [
+  { latitude: 52.52, longitude: 13.405, altitude: 34, timestamp: 1714546800 },
+  { latitude: 52.521, longitude: 13.407, altitude: 35, timestamp: 1714546810 },
+];
+
+describe('workout routes', () => {
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('saves a route with its workout and reads it back', async () => {
+    installSimulatedHealthKit();
+    await requestAuthorization(['Workout'], ['Workout']);
+
+    const id = await saveWorkout({
+      startDate: new Date(1714546800000),
+      endDate: new Date(1714547400000),
+      duration: 600,
+      distance: 150,
+      calories: 20,
+      route: ROUTE.map((point) => ({ ...point, timestamp: new Date(point.timestamp * 1000) })),
+    });
+
+    expect(await getWorkoutRoute(id)).toEqual([
+      expect.objectContaining({ latitude: 52.52, longitude: 13.405, timestamp: 1714546800 }),
+      expect.objectContaining({ latitude: 52.521, longitude: 13.407, timestamp: 1714546810 }),
+    ]);
+  });
+
+  it('serializes a route as GPX', () => {
+    const gpx = routeToGPX(ROUTE, { name: 'Run & walk' });
+
+    expect(gpx).toContain('<name>Run &amp; walk</name>');
+    expect(gpx).toContain('<trkpt lat="52.52" lon="13.405"><ele>34</ele><time>2024-05-01T07:00:00.000Z</time></trkpt>');
+  });
+
+  it('serializes a route as a GeoJSON line', () => {
+    const feature = routeToGeoJSON(ROUTE, { workoutId: 'w' });
+
+    expect(feature.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [13.405, 52.52, 34],
+        [13.407, 52.521, 35],
+      ],
+    });
+    expect(feature.properties).toEqual({
+      workoutId: 'w',
+      coordTimes: ['2024-05-01T07:00:00.000Z', '2024-05-01T07:00:10.000Z'],
+    });
+  });
+
+  it('leaves altitude out unless every point has one', () => {
+    const [first, second] = ROUTE;
+    const feature = routeToGeoJSON([first, { ...second, altitude: undefined }]);
+
+    expect(feature.geometry.coordinates).toEqual([
+      [13.405, 52.52],
+      [13.407, 52.521],
+    ]);
+  });
+
+  it.each([0, 1])('rejects a GeoJSON route of %i points', (count) => {
+    expect(() => routeToGeoJSON(ROUTE.slice(0, count))).toThrow(
+      expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' })
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  installSimulatedHealthKit,
+  queryQuantitySamples,
+  requestAuthorization,
+  saveSamples,
+  uninstallSimulatedHealthKit,
+} from '../index';
+import type { SampleInput, SimulatedHealthKit } from '../index';
+
+const MINUTE = 60 * 1000;
+
+describe('saveSamples', () => {
+  const now = Date.now();
+  const range = { startDate: now - 60 * MINUTE, endDate: now + MINUTE };
+  let simulator: SimulatedHealthKit;
+  let nativeSave: jest.SpyInstance;
+
+  const bodyMass: SampleInput = { kind: 'quantity', dataType: 'BodyMass', value: 72.5, startDate: now - MINUTE };
+  const water: SampleInput = { kind: 'quantity', dataType: 'DietaryWater', value: 250, startDate: now - MINUTE };
+  const invalid: SampleInput = { kind: 'quantity', dataType: 'BodyMass', value: NaN, startDate: now - MINUTE };
+
+  beforeEach(async () => {
+    simulator = installSimulatedHealthKit({}, { deniedTypes: ['Steps'] });
+    await requestAuthorization(['BodyMass', 'DietaryWater'], ['BodyMass', 'DietaryWater', 'Steps']);
+    nativeSave = jest.spyOn(simulator, 'saveSamples');
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('saves the valid samples and reports the rest per item', async () => {
+    const results = await saveSamples([bodyMass, invalid, water]);
+
+    expect(results).toEqual([
+      { success: true, id: expect.any(String) },
+      { success: false, error: expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' }) },
+      { success: true, id: expect.any(String) },
+    ]);
+    expect(nativeSave).toHaveBeenCalledTimes(1);
+    expect(await queryQuantitySamples('BodyMass', range)).toHaveLength(1);
+    expect(await queryQuantitySamples('DietaryWater', range)).toHaveLength(1);
+  });
+
+  it('never sends an atomic batch with an invalid sample to HealthKit', async () => {
+    const results = await saveSamples([bodyMass, invalid, water], { atomic: true });
+
+    expect(nativeSave).not.toHaveBeenCalled();
+    expect(results[1]).toMatchObject({ success: false, error: { code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' } });
+    for (const result of [results[0], results[2]]) {
+      expect(result).toMatchObject({ success: false, error: { code: 'ERR_HEALTHKIT_SAVE_FAILED' } });
+      expect(result.success === false && result.error.message).toMatch(/samples\[1\] failed/);
+      expect(result.success === false && result.error.cause).toBe(results[1].success === false && results[1].error);
+    }
+    expect(await queryQuantitySamples('BodyMass', range)).toEqual([]);
+  });
+
+  it('deletes the samples already saved when HealthKit refuses one in an atomic batch', async () => {
+    const denied: SampleInput = { kind: 'quantity', dataType: 'Steps', value: 100, startDate: now - MINUTE };
+    const results = await saveSamples([bodyMass, water, denied], { atomic: true });
+
+    expect(nativeSave).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => result.success === false && result.error.code)).toEqual([
+      'ERR_HEALTHKIT_SAVE_FAILED',
+      'ERR_HEALTHKIT_SAVE_FAILED',
+      'ERR_HEALTHKIT_AUTHORIZATION_DENIED',
+    ]);
+    expect(await queryQuantitySamples('BodyMass', range)).toEqual([]);
+    expect(await queryQuantitySamples('DietaryWater', range)).toEqual([]);
+  });
+
+  it('keeps the samples saved before a refusal when not atomic', async () => {
+    const denied: SampleInput = { kind: 'quantity', dataType: 'Steps', value: 100, startDate: now - MINUTE };
+    const results = await saveSamples([bodyMass, denied]);
+
+    expect(results.map((result) => result.success)).toEqual([true, false]);
+    expect(await queryQuantitySamples('BodyMass', range)).toHaveLength(1);
+  });
+});
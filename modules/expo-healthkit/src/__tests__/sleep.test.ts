@@ -0,0 +1,59 @@
+import { analyzeSleep } from '../index';
+import type { SleepSample } from '../index';
+
+let nextId = 0;
+
+// Local times, since nights are split at a local hour
+function sample(value: SleepSample['value'], start: Date, end: Date): SleepSample {
+  const startDate = start.getTime() / 1000;
+  const endDate = end.getTime() / 1000;
+  return { id: String(++nextId), value, startDate, endDate, duration: endDate - startDate };
+}
+
+function at(day: number, hour: number, minute = 0): Date {
+  return new Date(2024, 4, day, hour, minute);
+}
+
+describe('analyzeSleep', () => {
+  const night = [
+    sample('inBed', at(1, 22), at(2, 6)),
+    sample('core', at(1, 22, 30), at(2, 2)),
+    // The phone recording part of the same stretch is not counted twice
+    sample('core', at(1, 23), at(2, 1)),
+    sample('awake', at(2, 2), at(2, 2, 15)),
+    sample('deep', at(2, 2, 15), at(2, 4)),
+    sample('rem', at(2, 4), at(2, 6)),
+  ];
+
+  it('computes the metrics of a night', () => {
+    const [session] = analyzeSleep(night);
+
+    expect(session.night).toBe('2024-05-01');
+    expect(session.timeInBed).toBe(8 * 3600);
+    expect(session.totalAsleep).toBe(7.25 * 3600);
+    expect(session.stages).toEqual({
+      core: 3.5 * 3600,
+      deep: 1.75 * 3600,
+      rem: 2 * 3600,
+      awake: 0.25 * 3600,
+      unspecified: 0,
+    });
+    expect(session.latency).toBe(1800);
+    expect(session.wakeAfterSleepOnset).toBe(900);
+    expect(session.efficiency).toBeCloseTo(7.25 / 8);
+  });
+
+  it('splits nights at the cutoff hour, oldest first', () => {
+    const nap = sample('asleep', at(2, 14), at(2, 15));
+    const sessions = analyzeSleep([sample('asleep', at(2, 23), at(3, 7)), ...night, nap]);
+
+    expect(sessions.map((session) => session.night)).toEqual(['2024-05-01', '2024-05-02']);
+    expect(analyzeSleep([nap], { dayCutoffHour: 12 })[0].night).toBe('2024-05-02');
+  });
+
+  it('rejects an invalid cutoff hour', () => {
+    expect(() => analyzeSleep(night, { dayCutoffHour: 24 })).toThrow(
+      expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' })
+    );
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  getStatisticsCollection,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  uninstallSimulatedHealthKit,
+} from '../index';
+
+// Local times, since buckets follow the local calendar
+function at(day: number, hour: number): Date {
+  return new Date(2024, 4, day, hour);
+}
+
+describe('getStatisticsCollection', () => {
+  beforeEach(async () => {
+    installSimulatedHealthKit({
+      quantities: {
+        Steps: [
+          { value: 100, startDate: at(1, 8) },
+          { value: 200, startDate: at(1, 18) },
+          { value: 50, startDate: at(3, 9) },
+        ],
+        HeartRate: [
+          { value: 60, startDate: at(1, 8) },
+          { value: 90, startDate: at(1, 9) },
+        ],
+        DistanceWalkingRunning: [{ value: 2500, startDate: at(1, 8) }],
+      },
+    });
+    await requestAuthorization(['Steps', 'HeartRate', 'DistanceWalkingRunning'], []);
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+  });
+
+  it('returns every bucket of the range, empty ones included', async () => {
+    const buckets = await getStatisticsCollection('Steps', { startDate: at(1, 0), endDate: at(4, 0), interval: 'day' });
+
+    expect(buckets).toEqual([
+      { startDate: at(1, 0).getTime() / 1000, endDate: at(2, 0).getTime() / 1000, value: 300 },
+      { startDate: at(2, 0).getTime() / 1000, endDate: at(3, 0).getTime() / 1000, value: null },
+      { startDate: at(3, 0).getTime() / 1000, endDate: at(4, 0).getTime() / 1000, value: 50 },
+    ]);
+  });
+
+  it('averages discrete types by default and takes other aggregations', async () => {
+    const range = { startDate: at(1, 0), endDate: at(2, 0), interval: 'day' } as const;
+
+    expect((await getStatisticsCollection('HeartRate', range))[0].value).toBe(75);
+    expect((await getStatisticsCollection('HeartRate', { ...range, aggregation: 'max' }))[0].value).toBe(90);
+  });
+
+  it('converts bucket values to the requested unit', async () => {
+    const [bucket] = await getStatisticsCollection('DistanceWalkingRunning', {
+      startDate: at(1, 0),
+      endDate: at(2, 0),
+      interval: 'day',
+      unit: 'km',
+    });
+
+    expect(bucket.value).toBe(2.5);
+  });
+
+  it('rejects aggregations the type does not support and unknown intervals', async () => {
+    const range = { startDate: at(1, 0), endDate: at(2, 0) };
+
+    await expect(
+      getStatisticsCollection('Steps', { ...range, interval: 'day', aggregation: 'avg' })
+    ).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+    await expect(getStatisticsCollection('Steps', { ...range, interval: 'year' as never })).rejects.toMatchObject({
+      code: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+    });
+  });
+});
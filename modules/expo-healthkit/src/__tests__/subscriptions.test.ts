@@ -0,0 +1,76 @@
+import {
+  installSimulatedHealthKit,
+  requestAuthorization,
+  saveSamples,
+  subscribe,
+  uninstallSimulatedHealthKit,
+} from '../index';
+import type { HealthDataChangeEvent } from '../index';
+
+function saveSteps(value: number) {
+  return saveSamples([{ kind: 'quantity', dataType: 'Steps', value, startDate: new Date() }]);
+}
+
+describe('subscribe', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    installSimulatedHealthKit();
+  });
+
+  afterEach(() => {
+    uninstallSimulatedHealthKit();
+    jest.useRealTimers();
+  });
+
+  it('merges a burst of changes into one callback', async () => {
+    await requestAuthorization(['Steps'], ['Steps']);
+    const events: HealthDataChangeEvent[] = [];
+    const unsubscribe = subscribe('Steps', (event) => events.push(event), { burstWindowMs: 100 });
+    await jest.advanceTimersByTimeAsync(0);
+
+    await saveSteps(10);
+    await saveSteps(20);
+    expect(events).toEqual([]);
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(events).toEqual([{ dataType: 'StepCount', count: 2 }]);
+    unsubscribe();
+  });
+
+  it('stops calling back once unsubscribed', async () => {
+    await requestAuthorization(['Steps'], ['Steps']);
+    const callback = jest.fn();
+    const unsubscribe = subscribe('Steps', callback, { burstWindowMs: 0 });
+    await jest.advanceTimersByTimeAsync(0);
+
+    unsubscribe();
+    await saveSteps(10);
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('starts observing once authorization is granted', async () => {
+    const callback = jest.fn();
+    const onError = jest.fn();
+    const unsubscribe = subscribe('Steps', callback, { burstWindowMs: 0, onError });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'ERR_HEALTHKIT_AUTHORIZATION_NOT_DETERMINED' })
+    );
+
+    await requestAuthorization(['Steps'], ['Steps']);
+    await jest.advanceTimersByTimeAsync(0);
+    await saveSteps(10);
+    await jest.advanceTimersByTimeAsync(10);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    unsubscribe();
+  });
+
+  it('rejects unknown data types', () => {
+    expect(() => subscribe('Nope' as never, jest.fn())).toThrow(
+      expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' })
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import { convert, isUnitCompatible } from '../index';
+
+describe('convert', () => {
+  it('converts between units of the same dimension', () => {
+    expect(convert(1, 'km', 'm')).toBe(1000);
+    expect(convert(70, 'kg', 'lb')).toBeCloseTo(154.32, 2);
+  });
+
+  it('rejects units of different dimensions', () => {
+    expect(() => convert(1, 'km', 'kg')).toThrow(expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' }));
+  });
+
+  // Names inherited from Object.prototype are not units
+  it('rejects prototype keys as units', () => {
+    expect(() => convert(1, 'constructor' as never, 'm')).toThrow(
+      expect.objectContaining({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' })
+    );
+    expect(isUnitCompatible('Steps', 'toString' as never)).toBe(false);
+  });
+});
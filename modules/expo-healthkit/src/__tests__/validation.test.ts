@@ -0,0 +1,43 @@
+import {
+  configureValidation,
+  installSimulatedHealthKit,
+  requestAuthorization,
+  saveWater,
+  saveWeight,
+  uninstallSimulatedHealthKit,
+} from '../index';
+
+describe('validation', () => {
+  beforeEach(async () => {
+    installSimulatedHealthKit();
+    await requestAuthorization([], ['BodyMass', 'DietaryWater']);
+  });
+
+  afterEach(() => {
+    configureValidation({ mode: 'strict' });
+    uninstallSimulatedHealthKit();
+  });
+
+  it('rejects values outside the bounds of their type', async () => {
+    await expect(saveWeight(-70)).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+    await expect(saveWater(Number.NaN)).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+    await expect(saveWeight(70)).resolves.toBeUndefined();
+  });
+
+  it('only warns in lenient mode', async () => {
+    const onWarning = jest.fn();
+    configureValidation({ mode: 'lenient', onWarning });
+
+    await saveWeight(-70);
+
+    expect(onWarning).toHaveBeenCalledWith([expect.objectContaining({ field: 'BodyMass', value: -70 })]);
+  });
+
+  it.each(['lenient', 'off'] as const)('rejects values that are not finite in %s mode', async (mode) => {
+    configureValidation({ mode, onWarning: jest.fn() });
+
+    await expect(saveWeight(Number.NaN)).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+    await expect(saveWater(Number.POSITIVE_INFINITY)).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_ARGUMENT' });
+    await expect(saveWeight(-70)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { installSimulatedHealthKit, requestAuthorization, startWorkout, uninstallSimulatedHealthKit } from '../index';
+import type { WorkoutSession } from '../index';
+
+describe('WorkoutSession', () => {
+  let session: WorkoutSession;
+
+  beforeEach(async () => {
+    installSimulatedHealthKit();
+    await requestAuthorization(['Workout'], ['Workout']);
+    session = startWorkout('running', { tickIntervalMs: 60000, onError: jest.fn() });
+  });
+
+  afterEach(async () => {
+    if (session.state === 'running' || session.state === 'paused') {
+      await session.discard();
+    }
+    uninstallSimulatedHealthKit();
+  });
+
+  it('saves the workout with its pauses when it ends', async () => {
+    const changes: string[] = [];
+    session.onStateChange(({ from, to }) => changes.push(`${from}->${to}`));
+
+    await session.pause();
+    await session.resume();
+    const workout = await session.end();
+
+    expect(changes).toEqual(['running->paused', 'paused->running', 'running->ending', 'ending->ended']);
+    expect(workout.activityType).toBe('running');
+    expect(workout.events.map((event) => event.type)).toEqual(['pause', 'resume']);
+  });
+
+  it.each(['pause', 'resume', 'discard', 'end'] as const)('rejects %s while ending', async (action) => {
+    const [ending, attempt] = await Promise.allSettled([session.end(), session[action]()]);
+
+    expect(attempt).toMatchObject({ status: 'rejected', reason: { code: 'ERR_HEALTHKIT_INVALID_STATE' } });
+    expect(ending.status).toBe('fulfilled');
+    expect(session.state).toBe('ended');
+  });
+
+  it('rejects moves the state does not allow', async () => {
+    await expect(session.resume()).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_STATE' });
+    await session.discard();
+    await expect(session.end()).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_INVALID_STATE' });
+  });
+
+  it('goes back to where it was if the workout cannot be saved', async () => {
+    uninstallSimulatedHealthKit();
+    installSimulatedHealthKit({}, { deniedTypes: ['Workout'] });
+    await requestAuthorization([], ['Workout']);
+
+    await session.pause();
+    await expect(session.end()).rejects.toMatchObject({ code: 'ERR_HEALTHKIT_AUTHORIZATION_DENIED' });
+    expect(session.state).toBe('paused');
+  });
+});
@@ -0,0 +1,167 @@
+import type { ActivityType } from './types';
+
+/**
+ * How workouts are grouped, e.g. in an activity picker
+ */
+export type ActivityCategory = 'cardio' | 'strength' | 'mindBody' | 'sports' | 'other';
+
+export interface ActivityTypeInfo {
+  type: ActivityType;
+  /** The English name, or its translation from `configureActivityDisplayNames` */
+  displayName: string;
+  category: ActivityCategory;
+  /**
+   * Typical metabolic equivalent at moderate effort, after the Compendium of
+   * Physical Activities. kcal ≈ METs × body mass in kg × hours.
+   */
+  mets: number;
+}
+
+/**
+ * Every workout activity type HealthKit has, with its English display name,
+ * category and default MET value. `dance`, `danceInspiredTraining` and
+ * `mixedMetabolicCardioTraining` are deprecated by Apple but still appear on
+ * older workouts.
+ */
+export const ACTIVITY_TYPE_CATALOG: Readonly<Record<ActivityType, Omit<ActivityTypeInfo, 'type'>>> = {
+  // Cardio
+  cardioDance: { displayName: 'Cardio Dance', category: 'cardio', mets: 7.3 },
+  crossCountrySkiing: { displayName: 'Cross Country Skiing', category: 'cardio', mets: 9 },
+  cycling: { displayName: 'Cycling', category: 'cardio', mets: 7.5 },
+  dance: { displayName: 'Dance', category: 'cardio', mets: 5 },
+  danceInspiredTraining: { displayName: 'Dance Inspired Training', category: 'cardio', mets: 5 },
+  elliptical: { displayName: 'Elliptical', category: 'cardio', mets: 5 },
+  fitnessGaming: { displayName: 'Fitness Gaming', category: 'cardio', mets: 4 },
+  handCycling: { displayName: 'Hand Cycling', category: 'cardio', mets: 6 },
+  highIntensityIntervalTraining: { displayName: 'High Intensity Interval Training', category: 'cardio', mets: 8 },
+  hiking: { displayName: 'Hiking', category: 'cardio', mets: 6 },
+  jumpRope: { displayName: 'Jump Rope', category: 'cardio', mets: 11.8 },
+  mixedCardio: { displayName: 'Mixed Cardio', category: 'cardio', mets: 7 },
+  mixedMetabolicCardioTraining: { displayName: 'Mixed Metabolic Cardio Training', category: 'cardio', mets: 7 },
+  rowing: { displayName: 'Rowing', category: 'cardio', mets: 7 },
+  running: { displayName: 'Running', category: 'cardio', mets: 9.8 },
+  socialDance: { displayName: 'Social Dance', category: 'cardio', mets: 4.5 },
+  stairClimbing: { displayName: 'Stair Climbing', category: 'cardio', mets: 9 },
+  stairs: { displayName: 'Stairs', category: 'cardio', mets: 8 },
+  stepTraining: { displayName: 'Step Training', category: 'cardio', mets: 7 },
+  swimBikeRun: { displayName: 'Swim Bike Run', category: 'cardio', mets: 9 },
+  swimming: { displayName: 'Swimming', category: 'cardio', mets: 7 },
+  walking: { displayName: 'Walking', category: 'cardio', mets: 3.5 },
+  waterFitness: { displayName: 'Water Fitness', category: 'cardio', mets: 5.5 },
+  wheelchairRunPace: { displayName: 'Wheelchair Run Pace', category: 'cardio', mets: 6 },
+  wheelchairWalkPace: { displayName: 'Wheelchair Walk Pace', category: 'cardio', mets: 3 },
+
+  // Strength
+  coreTraining: { displayName: 'Core Training', category: 'strength', mets: 3.8 },
+  crossTraining: { displayName: 'Cross Training', category: 'strength', mets: 6 },
+  functionalStrengthTraining: { displayName: 'Functional Strength Training', category: 'strength', mets: 5 },
+  traditionalStrengthTraining: { displayName: 'Traditional Strength Training', category: 'strength', mets: 3.5 },
+
+  // Mind & Body
+  barre: { displayName: 'Barre', category: 'mindBody', mets: 3.5 },
+  cooldown: { displayName: 'Cooldown', category: 'mindBody', mets: 2.5 },
+  flexibility: { displayName: 'Flexibility', category: 'mindBody', mets: 2.3 },
+  mindAndBody: { displayName: 'Mind and Body', category: 'mindBody', mets: 2.5 },
+  pilates: { displayName: 'Pilates', category: 'mindBody', mets: 3 },
+  preparationAndRecovery: { displayName: 'Preparation and Recovery', category: 'mindBody', mets: 2.3 },
+  taiChi: { displayName: 'Tai Chi', category: 'mindBody', mets: 3 },
+  yoga: { displayName: 'Yoga', category: 'mindBody', mets: 2.5 },
+
+  // Sports
+  americanFootball: { displayName: 'American Football', category: 'sports', mets: 8 },
+  archery: { displayName: 'Archery', category: 'sports', mets: 4.3 },
+  australianFootball: { displayName: 'Australian Football', category: 'sports', mets: 8 },
+  badminton: { displayName: 'Badminton', category: 'sports', mets: 5.5 },
+  baseball: { displayName: 'Baseball', category: 'sports', mets: 5 },
+  basketball: { displayName: 'Basketball', category: 'sports', mets: 6.5 },
+  bowling: { displayName: 'Bowling', category: 'sports', mets: 3 },
+  boxing: { displayName: 'Boxing', category: 'sports', mets: 7.8 },
+  climbing: { displayName: 'Climbing', category: 'sports', mets: 8 },
+  cricket: { displayName: 'Cricket', category: 'sports', mets: 4.8 },
+  curling: { displayName: 'Curling', category: 'sports', mets: 4 },
+  discSports: { displayName: 'Disc Sports', category: 'sports', mets: 3.5 },
+  downhillSkiing: { displayName: 'Downhill Skiing', category: 'sports', mets: 5.3 },
+  equestrianSports: { displayName: 'Equestrian Sports', category: 'sports', mets: 5.5 },
+  fencing: { displayName: 'Fencing', category: 'sports', mets: 6 },
+  fishing: { displayName: 'Fishing', category: 'sports', mets: 3.5 },
+  golf: { displayName: 'Golf', category: 'sports', mets: 4.8 },
+  gymnastics: { displayName: 'Gymnastics', category: 'sports', mets: 3.8 },
+  handball: { displayName: 'Handball', category: 'sports', mets: 12 },
+  hockey: { displayName: 'Hockey', category: 'sports', mets: 8 },
+  hunting: { displayName: 'Hunting', category: 'sports', mets: 5 },
+  kickboxing: { displayName: 'Kickboxing', category: 'sports', mets: 7.3 },
+  lacrosse: { displayName: 'Lacrosse', category: 'sports', mets: 8 },
+  martialArts: { displayName: 'Martial Arts', category: 'sports', mets: 10.3 },
+  paddleSports: { displayName: 'Paddle Sports', category: 'sports', mets: 5.8 },
+  pickleball: { displayName: 'Pickleball', category: 'sports', mets: 4.5 },
+  play: { displayName: 'Play', category: 'sports', mets: 4 },
+  racquetball: { displayName: 'Racquetball', category: 'sports', mets: 7 },
+  rugby: { displayName: 'Rugby', category: 'sports', mets: 8.3 },
+  sailing: { displayName: 'Sailing', category: 'sports', mets: 3 },
+  skatingSports: { displayName: 'Skating', category: 'sports', mets: 7 },
+  snowboarding: { displayName: 'Snowboarding', category: 'sports', mets: 5.3 },
+  snowSports: { displayName: 'Snow Sports', category: 'sports', mets: 7 },
+  soccer: { displayName: 'Soccer', category: 'sports', mets: 7 },
+  softball: { displayName: 'Softball', category: 'sports', mets: 5 },
+  squash: { displayName: 'Squash', category: 'sports', mets: 12 },
+  surfingSports: { displayName: 'Surfing', category: 'sports', mets: 3 },
+  tableTennis: { displayName: 'Table Tennis', category: 'sports', mets: 4 },
+  tennis: { displayName: 'Tennis', category: 'sports', mets: 7.3 },
+  trackAndField: { displayName: 'Track and Field', category: 'sports', mets: 9 },
+  underwaterDiving: { displayName: 'Underwater Diving', category: 'sports', mets: 7 },
+  volleyball: { displayName: 'Volleyball', category: 'sports', mets: 4 },
+  waterPolo: { displayName: 'Water Polo', category: 'sports', mets: 10 },
+  waterSports: { displayName: 'Water Sports', category: 'sports', mets: 4 },
+  wrestling: { displayName: 'Wrestling', category: 'sports', mets: 6 },
+
+  // Other
+  transition: { displayName: 'Transition', category: 'other', mets: 2 },
+  other: { displayName: 'Other', category: 'other', mets: 4 },
+};
+
+export const ACTIVITY_TYPES = Object.keys(ACTIVITY_TYPE_CATALOG) as ActivityType[];
+
+const LOWERCASE_TYPES = new Map<string, ActivityType>(ACTIVITY_TYPES.map((type) => [type.toLowerCase(), type]));
+
+let displayNames: Partial<Record<ActivityType, string>> = {};
+
+/**
+ * Translate the display names for the whole app. Types without a
+ * translation keep their English name; call with `{}` to go back to English.
+ * @param names - Display names keyed by activity type
+ */
+export function configureActivityDisplayNames(names: Partial<Record<ActivityType, string>>): void {
+  displayNames = { ...names };
+}
+
+/**
+ * Resolve an activity type name, like the native module: matching is
+ * case-insensitive and HealthKit's `HKWorkoutActivityType` prefix is
+ * accepted, e.g. `HKWorkoutActivityTypePickleball`
+ * @param name - An activity type name
+ * @returns The activity type, or `other` if the name is not known
+ */
+export function parseActivityType(name: string): ActivityType {
+  return LOWERCASE_TYPES.get(name.replace(/^HKWorkoutActivityType/, '').toLowerCase()) ?? 'other';
+}
+
+/**
+ * Get the display name, category and default MET value of an activity type
+ * @param type - An activity type, e.g. from a workout
+ */
+export function getActivityTypeInfo(type: ActivityType): ActivityTypeInfo {
+  // Unknown types, including Object.prototype names, are shown as 'other'
+  const key = LOWERCASE_TYPES.get(type.toLowerCase()) === type ? type : 'other';
+  const info = ACTIVITY_TYPE_CATALOG[key];
+  return { type, ...info, displayName: displayNames[key] ?? info.displayName };
+}
+
+/**
+ * List activity types sorted by display name, e.g. for a picker
+ * @param category - Only list the types in this category
+ */
+export function getActivityTypes(category?: ActivityCategory): ActivityTypeInfo[] {
+  return ACTIVITY_TYPES.map(getActivityTypeInfo)
+    .filter((info) => category === undefined || info.category === category)
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
@@ -0,0 +1,117 @@
+import { getChanges } from './ExpoHealthKit';
+import { resolveDataType } from './dataTypes';
+import { HealthKitError } from './errors';
+import type { DataType, Changes, ChangesOptions } from './types';
+
+/**
+ * Where an `AnchorStore` keeps its anchors. The shape matches
+ * `@react-native-async-storage/async-storage`, so it can be passed as is;
+ * synchronous implementations work too.
+ */
+export interface AnchorStorage {
+  getItem(key: string): Promise<string | null> | string | null;
+  setItem(key: string, value: string): Promise<void> | void;
+  removeItem(key: string): Promise<void> | void;
+}
+
+/**
+ * Create a storage that only lives as long as the app process
+ */
+export function createMemoryAnchorStorage(): AnchorStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+/**
+ * Keeps one anchor per data type so a sync job resumes where it stopped:
+ *
+ * ```ts
+ * const anchors = new AnchorStore(AsyncStorage);
+ * await anchors.sync('Workout', async ({ added, deleted }) => {
+ *   await backend.upsert(added);
+ *   await backend.remove(deleted);
+ * });
+ * ```
+ *
+ * Aliases share an anchor, so `Steps` and `StepCount` resume from the same point.
+ */
+export class AnchorStore {
+  private storage: AnchorStorage;
+  private prefix: string;
+
+  /**
+   * @param storage - Where to persist anchors (default: in memory)
+   * @param prefix - Prefix of the storage keys
+   */
+  constructor(storage: AnchorStorage = createMemoryAnchorStorage(), prefix = 'expo-healthkit:anchor:') {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  /**
+   * Get the stored anchor of a data type
+   * @returns The anchor, or null if the type was never synced
+   */
+  async getAnchor(dataType: DataType): Promise<string | null> {
+    return await this.storage.getItem(this.key(dataType));
+  }
+
+  /**
+   * Store the anchor of a data type
+   */
+  async setAnchor(dataType: DataType, anchor: string): Promise<void> {
+    await this.storage.setItem(this.key(dataType), anchor);
+  }
+
+  /**
+   * Forget the anchor of a data type, so the next sync starts from scratch
+   */
+  async resetAnchor(dataType: DataType): Promise<void> {
+    await this.storage.removeItem(this.key(dataType));
+  }
+
+  /**
+   * Fetch the changes since the stored anchor and hand them to `onChanges`.
+   * The new anchor is only stored once `onChanges` resolves, so a failed
+   * sync is retried from the same point. With `options.limit`, changes are
+   * fetched and stored batch by batch until none are left.
+   * @param dataType - Any data type, including workouts and sleep
+   * @param onChanges - Processes one batch of changes
+   * @param options - Optional limit per batch and unit for quantity samples
+   * @returns The number of added and deleted samples processed
+   */
+  async sync<T extends DataType>(
+    dataType: T,
+    onChanges: (changes: Changes<T>) => Promise<void> | void,
+    options: ChangesOptions<T> = {}
+  ): Promise<{ added: number; deleted: number }> {
+    const totals = { added: 0, deleted: 0 };
+    let changes: Changes<T>;
+    do {
+      changes = await getChanges(dataType, await this.getAnchor(dataType), options);
+      if (changes.added.length > 0 || changes.deleted.length > 0) {
+        await onChanges(changes);
+      }
+      await this.setAnchor(dataType, changes.anchor);
+      totals.added += changes.added.length;
+      totals.deleted += changes.deleted.length;
+    } while (options.limit !== undefined && changes.added.length + changes.deleted.length >= options.limit);
+    return totals;
+  }
+
+  private key(dataType: DataType): string {
+    const canonical = resolveDataType(dataType);
+    if (!canonical) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unsupported data type: ${dataType}`);
+    }
+    return this.prefix + canonical;
+  }
+}
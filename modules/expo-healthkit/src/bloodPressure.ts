@@ -0,0 +1,50 @@
+import type { BloodPressure } from './types';
+
+/**
+ * The American Heart Association's blood pressure categories (2017
+ * ACC/AHA guideline), from lowest to highest
+ */
+export type BloodPressureCategory =
+  | 'normal'
+  | 'elevated'
+  | 'hypertensionStage1'
+  | 'hypertensionStage2'
+  | 'hypertensiveCrisis';
+
+export const BLOOD_PRESSURE_CATEGORIES: readonly BloodPressureCategory[] = [
+  'normal',
+  'elevated',
+  'hypertensionStage1',
+  'hypertensionStage2',
+  'hypertensiveCrisis',
+];
+
+/**
+ * Classify a reading into its AHA category. When systolic and diastolic
+ * fall into different categories the higher one applies:
+ *
+ * | Category             | Systolic (mmHg) |        | Diastolic (mmHg) |
+ * | -------------------- | --------------- | ------ | ---------------- |
+ * | `normal`             | < 120           | and    | < 80             |
+ * | `elevated`           | 120-129         | and    | < 80             |
+ * | `hypertensionStage1` | 130-139         | or     | 80-89            |
+ * | `hypertensionStage2` | ≥ 140           | or     | ≥ 90             |
+ * | `hypertensiveCrisis` | > 180           | and/or | > 120            |
+ *
+ * A single reading is not a diagnosis; the AHA bases one on the average of
+ * readings taken on separate occasions.
+ * @param reading - Systolic and diastolic pressure in mmHg
+ */
+export function classifyBloodPressure(reading: Pick<BloodPressure, 'systolic' | 'diastolic'>): BloodPressureCategory {
+  const { systolic, diastolic } = reading;
+  if (systolic > 180 || diastolic > 120) {
+    return 'hypertensiveCrisis';
+  }
+  if (systolic >= 140 || diastolic >= 90) {
+    return 'hypertensionStage2';
+  }
+  if (systolic >= 130 || diastolic >= 80) {
+    return 'hypertensionStage1';
+  }
+  return systolic >= 120 ? 'elevated' : 'normal';
+}
@@ -0,0 +1,157 @@
+import { callNativeModule } from './ExpoHealthKitModule';
+import type { ExpoHealthKitNativeModule } from './ExpoHealthKitModule';
+import { resolveDataType } from './dataTypes';
+import type { CanonicalDataType } from './dataTypes';
+import type { DataType } from './types';
+import { addWriteListener } from './writes';
+
+export interface CacheConfig {
+  enabled: boolean;
+  /** How long results stay fresh, in milliseconds */
+  ttlMs: number;
+  /** Per-type overrides of `ttlMs`; 0 disables caching for a type */
+  ttlMsByType: Partial<Record<CanonicalDataType, number>>;
+  /** Oldest entries are dropped beyond this many */
+  maxEntries: number;
+}
+
+interface CacheEntry {
+  module: ExpoHealthKitNativeModule;
+  types: CanonicalDataType[];
+  result: Promise<unknown>;
+  expiresAt: number;
+}
+
+const config: CacheConfig = {
+  enabled: false,
+  ttlMs: 60000,
+  ttlMsByType: {},
+  maxEntries: 200,
+};
+
+const entries = new Map<string, CacheEntry>();
+
+// Writes through this module make cached reads of the same type stale
+addWriteListener((types) => {
+  for (const [key, entry] of entries) {
+    if (entry.types.some((type) => types.includes(type))) {
+      entries.delete(key);
+    }
+  }
+});
+
+/**
+ * Configure the read cache for the whole app. Caching is off by default.
+ * @param options - Whether to cache, default TTL, per-type TTLs keyed by any
+ * data type alias, and the maximum number of entries
+ */
+export function configureCache(
+  options: {
+    enabled?: boolean;
+    ttlMs?: number;
+    ttlMsByType?: Partial<Record<DataType, number>>;
+    maxEntries?: number;
+  } = {}
+): void {
+  if (options.enabled !== undefined) {
+    config.enabled = options.enabled;
+  }
+  if (options.ttlMs !== undefined) {
+    config.ttlMs = options.ttlMs;
+  }
+  if (options.maxEntries !== undefined) {
+    config.maxEntries = options.maxEntries;
+  }
+  for (const [type, ttlMs] of Object.entries(options.ttlMsByType ?? {})) {
+    const canonical = resolveDataType(type);
+    if (canonical && ttlMs !== undefined) {
+      config.ttlMsByType[canonical] = ttlMs;
+    }
+  }
+  if (!config.enabled) {
+    entries.clear();
+  }
+}
+
+/**
+ * Drop cached results
+ * @param dataType - Only drop results that read this type (default: everything)
+ */
+export function clearCache(dataType?: DataType): void {
+  if (dataType === undefined) {
+    entries.clear();
+    return;
+  }
+  const canonical = resolveDataType(dataType);
+  for (const [key, entry] of entries) {
+    if (canonical && entry.types.includes(canonical)) {
+      entries.delete(key);
+    }
+  }
+}
+
+function ttlFor(types: CanonicalDataType[]): number {
+  return Math.min(...types.map((type) => config.ttlMsByType[type] ?? config.ttlMs));
+}
+
+// Results are plain bridge data (arrays, objects and primitives). They are
+// copied all the way down so a caller changing a sample, or a workout's
+// metadata, cannot change what the next caller gets. structuredClone is not
+// available in every React Native runtime.
+function deepCopy<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(deepCopy) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, deepCopy(item)])) as T;
+  }
+  return value;
+}
+
+function copyResult<T>(result: Promise<T>): Promise<T> {
+  return result.then(deepCopy);
+}
+
+/**
+ * Like `callNativeModule`, but shares results of identical reads while the
+ * cache is enabled. Concurrent identical reads share one native call.
+ * @param name - The native function, part of the cache key
+ * @param types - The data types the call reads, for TTLs and invalidation
+ * @param args - The bridge arguments, part of the cache key
+ * @param call - The call to make on a miss
+ */
+export function cachedNativeCall<T>(
+  name: string,
+  types: CanonicalDataType[],
+  args: unknown[],
+  call: (module: ExpoHealthKitNativeModule) => Promise<T>
+): Promise<T> {
+  return callNativeModule((module) => {
+    const ttlMs = ttlFor(types);
+    if (!config.enabled || ttlMs <= 0) {
+      return call(module);
+    }
+
+    const key = `${name}:${JSON.stringify(args)}`;
+    const now = Date.now();
+    const cached = entries.get(key);
+    if (cached && cached.module === module && cached.expiresAt > now) {
+      return copyResult(cached.result as Promise<T>);
+    }
+
+    const result = call(module);
+    const entry: CacheEntry = { module, types, result, expiresAt: now + ttlMs };
+    entries.delete(key);
+    entries.set(key, entry);
+    if (entries.size > config.maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+    // Failures are not cached
+    result.catch(() => {
+      if (entries.get(key) === entry) {
+        entries.delete(key);
+      }
+    });
+    return copyResult(result);
+  });
+}
@@ -0,0 +1,331 @@
+import type { DataType } from './types';
+
+/**
+ * The canonical name of every HealthKit type this module supports.
+ * Each `DataType` alias resolves to exactly one of these.
+ */
+export type CanonicalDataType =
+  | 'Workout'
+  | 'StepCount'
+  | 'DistanceWalkingRunning'
+  | 'DistanceCycling'
+  | 'DistanceSwimming'
+  | 'FlightsClimbed'
+  | 'ActiveEnergyBurned'
+  | 'BasalEnergyBurned'
+  | 'Height'
+  | 'BodyMass'
+  | 'BodyMassIndex'
+  | 'BodyFatPercentage'
+  | 'LeanBodyMass'
+  | 'HeartRate'
+  | 'RestingHeartRate'
+  | 'HeartRateVariability'
+  | 'BloodPressureSystolic'
+  | 'BloodPressureDiastolic'
+  | 'RespiratoryRate'
+  | 'OxygenSaturation'
+  | 'BodyTemperature'
+  | 'DietaryEnergy'
+  | 'DietaryProtein'
+  | 'DietaryCarbohydrates'
+  | 'DietaryFatTotal'
+  | 'DietaryFiber'
+  | 'DietaryWater'
+  | 'DietaryCaffeine'
+  | 'DietarySugar'
+  | 'DietaryFatSaturated'
+  | 'DietaryFatMonounsaturated'
+  | 'DietaryFatPolyunsaturated'
+  | 'DietaryCholesterol'
+  | 'DietarySodium'
+  | 'DietaryVitaminA'
+  | 'DietaryThiamin'
+  | 'DietaryRiboflavin'
+  | 'DietaryNiacin'
+  | 'DietaryPantothenicAcid'
+  | 'DietaryVitaminB6'
+  | 'DietaryBiotin'
+  | 'DietaryFolate'
+  | 'DietaryVitaminB12'
+  | 'DietaryVitaminC'
+  | 'DietaryVitaminD'
+  | 'DietaryVitaminE'
+  | 'DietaryVitaminK'
+  | 'DietaryCalcium'
+  | 'DietaryChloride'
+  | 'DietaryIron'
+  | 'DietaryMagnesium'
+  | 'DietaryPhosphorus'
+  | 'DietaryPotassium'
+  | 'DietaryZinc'
+  | 'DietaryChromium'
+  | 'DietaryCopper'
+  | 'DietaryIodine'
+  | 'DietaryManganese'
+  | 'DietaryMolybdenum'
+  | 'DietarySelenium'
+  | 'SleepAnalysis'
+  | 'MindfulMinutes';
+
+/**
+ * How HealthKit stores a type:
+ * - `cumulative`: quantity samples that are summed (steps, energy, water)
+ * - `discrete`: quantity samples that are averaged (heart rate, weight)
+ * - `category`: category samples (sleep, mindfulness)
+ * - `workout`: workouts
+ */
+export type DataTypeKind = 'cumulative' | 'discrete' | 'category' | 'workout';
+
+const DATA_TYPE_ALIASES = {
+  // Workouts
+  Workout: 'Workout',
+
+  // Activity & Fitness
+  Steps: 'StepCount',
+  StepCount: 'StepCount',
+  Distance: 'DistanceWalkingRunning',
+  DistanceWalkingRunning: 'DistanceWalkingRunning',
+  DistanceCycling: 'DistanceCycling',
+  DistanceSwimming: 'DistanceSwimming',
+  FlightsClimbed: 'FlightsClimbed',
+  ActiveEnergy: 'ActiveEnergyBurned',
+  Calories: 'ActiveEnergyBurned',
+  ActiveEnergyBurned: 'ActiveEnergyBurned',
+  BasalEnergy: 'BasalEnergyBurned',
+  BasalEnergyBurned: 'BasalEnergyBurned',
+
+  // Body Measurements
+  Height: 'Height',
+  BodyHeight: 'Height',
+  Weight: 'BodyMass',
+  BodyMass: 'BodyMass',
+  BodyWeight: 'BodyMass',
+  BodyMassIndex: 'BodyMassIndex',
+  BMI: 'BodyMassIndex',
+  BodyFat: 'BodyFatPercentage',
+  BodyFatPercentage: 'BodyFatPercentage',
+  LeanMass: 'LeanBodyMass',
+  LeanBodyMass: 'LeanBodyMass',
+
+  // Vitals
+  HeartRate: 'HeartRate',
+  RestingHeartRate: 'RestingHeartRate',
+  HeartRateVariability: 'HeartRateVariability',
+  HRV: 'HeartRateVariability',
+  BloodPressureSystolic: 'BloodPressureSystolic',
+  BloodPressureDiastolic: 'BloodPressureDiastolic',
+  RespiratoryRate: 'RespiratoryRate',
+  OxygenSat: 'OxygenSaturation',
+  OxygenSaturation: 'OxygenSaturation',
+  SpO2: 'OxygenSaturation',
+  BodyTemperature: 'BodyTemperature',
+
+  // Nutrition
+  DietaryEnergy: 'DietaryEnergy',
+  DietaryCalories: 'DietaryEnergy',
+  Protein: 'DietaryProtein',
+  DietaryProtein: 'DietaryProtein',
+  Carbs: 'DietaryCarbohydrates',
+  Carbohydrates: 'DietaryCarbohydrates',
+  DietaryCarbohydrates: 'DietaryCarbohydrates',
+  Fat: 'DietaryFatTotal',
+  DietaryFat: 'DietaryFatTotal',
+  DietaryFatTotal: 'DietaryFatTotal',
+  Fiber: 'DietaryFiber',
+  DietaryFiber: 'DietaryFiber',
+  Water: 'DietaryWater',
+  DietaryWater: 'DietaryWater',
+  Caffeine: 'DietaryCaffeine',
+  DietaryCaffeine: 'DietaryCaffeine',
+  Sugar: 'DietarySugar',
+  DietarySugar: 'DietarySugar',
+  SaturatedFat: 'DietaryFatSaturated',
+  DietaryFatSaturated: 'DietaryFatSaturated',
+  MonounsaturatedFat: 'DietaryFatMonounsaturated',
+  DietaryFatMonounsaturated: 'DietaryFatMonounsaturated',
+  PolyunsaturatedFat: 'DietaryFatPolyunsaturated',
+  DietaryFatPolyunsaturated: 'DietaryFatPolyunsaturated',
+  Cholesterol: 'DietaryCholesterol',
+  DietaryCholesterol: 'DietaryCholesterol',
+  Sodium: 'DietarySodium',
+  DietarySodium: 'DietarySodium',
+  VitaminA: 'DietaryVitaminA',
+  DietaryVitaminA: 'DietaryVitaminA',
+  Thiamin: 'DietaryThiamin',
+  VitaminB1: 'DietaryThiamin',
+  DietaryThiamin: 'DietaryThiamin',
+  Riboflavin: 'DietaryRiboflavin',
+  VitaminB2: 'DietaryRiboflavin',
+  DietaryRiboflavin: 'DietaryRiboflavin',
+  Niacin: 'DietaryNiacin',
+  VitaminB3: 'DietaryNiacin',
+  DietaryNiacin: 'DietaryNiacin',
+  PantothenicAcid: 'DietaryPantothenicAcid',
+  VitaminB5: 'DietaryPantothenicAcid',
+  DietaryPantothenicAcid: 'DietaryPantothenicAcid',
+  VitaminB6: 'DietaryVitaminB6',
+  DietaryVitaminB6: 'DietaryVitaminB6',
+  Biotin: 'DietaryBiotin',
+  VitaminB7: 'DietaryBiotin',
+  DietaryBiotin: 'DietaryBiotin',
+  Folate: 'DietaryFolate',
+  VitaminB9: 'DietaryFolate',
+  DietaryFolate: 'DietaryFolate',
+  VitaminB12: 'DietaryVitaminB12',
+  DietaryVitaminB12: 'DietaryVitaminB12',
+  VitaminC: 'DietaryVitaminC',
+  DietaryVitaminC: 'DietaryVitaminC',
+  VitaminD: 'DietaryVitaminD',
+  DietaryVitaminD: 'DietaryVitaminD',
+  VitaminE: 'DietaryVitaminE',
+  DietaryVitaminE: 'DietaryVitaminE',
+  VitaminK: 'DietaryVitaminK',
+  DietaryVitaminK: 'DietaryVitaminK',
+  Calcium: 'DietaryCalcium',
+  DietaryCalcium: 'DietaryCalcium',
+  Chloride: 'DietaryChloride',
+  DietaryChloride: 'DietaryChloride',
+  Iron: 'DietaryIron',
+  DietaryIron: 'DietaryIron',
+  Magnesium: 'DietaryMagnesium',
+  DietaryMagnesium: 'DietaryMagnesium',
+  Phosphorus: 'DietaryPhosphorus',
+  DietaryPhosphorus: 'DietaryPhosphorus',
+  Potassium: 'DietaryPotassium',
+  DietaryPotassium: 'DietaryPotassium',
+  Zinc: 'DietaryZinc',
+  DietaryZinc: 'DietaryZinc',
+  Chromium: 'DietaryChromium',
+  DietaryChromium: 'DietaryChromium',
+  Copper: 'DietaryCopper',
+  DietaryCopper: 'DietaryCopper',
+  Iodine: 'DietaryIodine',
+  DietaryIodine: 'DietaryIodine',
+  Manganese: 'DietaryManganese',
+  DietaryManganese: 'DietaryManganese',
+  Molybdenum: 'DietaryMolybdenum',
+  DietaryMolybdenum: 'DietaryMolybdenum',
+  Selenium: 'DietarySelenium',
+  DietarySelenium: 'DietarySelenium',
+
+  // Sleep
+  Sleep: 'SleepAnalysis',
+  SleepAnalysis: 'SleepAnalysis',
+
+  // Mindfulness
+  Mindfulness: 'MindfulMinutes',
+  MindfulMinutes: 'MindfulMinutes',
+} as const satisfies Record<DataType, CanonicalDataType>;
+
+/**
+ * The canonical data type a `DataType` alias resolves to, at the type level
+ */
+export type CanonicalOf<T extends DataType> = (typeof DATA_TYPE_ALIASES)[T];
+
+const DATA_TYPE_KINDS: Record<CanonicalDataType, DataTypeKind> = {
+  Workout: 'workout',
+  StepCount: 'cumulative',
+  DistanceWalkingRunning: 'cumulative',
+  DistanceCycling: 'cumulative',
+  DistanceSwimming: 'cumulative',
+  FlightsClimbed: 'cumulative',
+  ActiveEnergyBurned: 'cumulative',
+  BasalEnergyBurned: 'cumulative',
+  Height: 'discrete',
+  BodyMass: 'discrete',
+  BodyMassIndex: 'discrete',
+  BodyFatPercentage: 'discrete',
+  LeanBodyMass: 'discrete',
+  HeartRate: 'discrete',
+  RestingHeartRate: 'discrete',
+  HeartRateVariability: 'discrete',
+  BloodPressureSystolic: 'discrete',
+  BloodPressureDiastolic: 'discrete',
+  RespiratoryRate: 'discrete',
+  OxygenSaturation: 'discrete',
+  BodyTemperature: 'discrete',
+  DietaryEnergy: 'cumulative',
+  DietaryProtein: 'cumulative',
+  DietaryCarbohydrates: 'cumulative',
+  DietaryFatTotal: 'cumulative',
+  DietaryFiber: 'cumulative',
+  DietaryWater: 'cumulative',
+  DietaryCaffeine: 'cumulative',
+  DietarySugar: 'cumulative',
+  DietaryFatSaturated: 'cumulative',
+  DietaryFatMonounsaturated: 'cumulative',
+  DietaryFatPolyunsaturated: 'cumulative',
+  DietaryCholesterol: 'cumulative',
+  DietarySodium: 'cumulative',
+  DietaryVitaminA: 'cumulative',
+  DietaryThiamin: 'cumulative',
+  DietaryRiboflavin: 'cumulative',
+  DietaryNiacin: 'cumulative',
+  DietaryPantothenicAcid: 'cumulative',
+  DietaryVitaminB6: 'cumulative',
+  DietaryBiotin: 'cumulative',
+  DietaryFolate: 'cumulative',
+  DietaryVitaminB12: 'cumulative',
+  DietaryVitaminC: 'cumulative',
+  DietaryVitaminD: 'cumulative',
+  DietaryVitaminE: 'cumulative',
+  DietaryVitaminK: 'cumulative',
+  DietaryCalcium: 'cumulative',
+  DietaryChloride: 'cumulative',
+  DietaryIron: 'cumulative',
+  DietaryMagnesium: 'cumulative',
+  DietaryPhosphorus: 'cumulative',
+  DietaryPotassium: 'cumulative',
+  DietaryZinc: 'cumulative',
+  DietaryChromium: 'cumulative',
+  DietaryCopper: 'cumulative',
+  DietaryIodine: 'cumulative',
+  DietaryManganese: 'cumulative',
+  DietaryMolybdenum: 'cumulative',
+  DietarySelenium: 'cumulative',
+  SleepAnalysis: 'category',
+  MindfulMinutes: 'category',
+};
+
+// A Map, so names like 'constructor' do not find Object.prototype members
+const LOWERCASE_ALIASES = new Map<string, CanonicalDataType>(
+  Object.entries(DATA_TYPE_ALIASES).map(([alias, canonical]) => [alias.toLowerCase(), canonical])
+);
+
+/**
+ * Resolve a data type alias to its canonical name.
+ * Matching is case-insensitive, like the native module.
+ * @param type - Any supported data type alias
+ * @returns The canonical data type, or null if the type is not supported
+ */
+export function resolveDataType(type: DataType | string): CanonicalDataType | null {
+  return LOWERCASE_ALIASES.get(type.toLowerCase()) ?? null;
+}
+
+/**
+ * Get how HealthKit stores a data type
+ * @param type - Any supported data type alias
+ * @returns The kind of the data type, or null if the type is not supported
+ */
+export function getDataTypeKind(type: DataType | string): DataTypeKind | null {
+  const canonical = resolveDataType(type);
+  return canonical ? DATA_TYPE_KINDS[canonical] : null;
+}
+
+/**
+ * Check whether a data type is stored as quantity samples
+ * @param type - Any supported data type alias
+ */
+export function isQuantityType(type: DataType | string): boolean {
+  const kind = getDataTypeKind(type);
+  return kind === 'cumulative' || kind === 'discrete';
+}
+
+/**
+ * Check whether a data type is a nutrient, which food entries are made of
+ * @param type - Any supported data type alias
+ */
+export function isNutrientType(type: DataType | string): boolean {
+  return resolveDataType(type)?.startsWith('Dietary') ?? false;
+}
@@ -0,0 +1,164 @@
+import { HealthKitError } from './errors';
+
+/**
+ * A timestamp in seconds since epoch. Plain numbers are always read as
+ * milliseconds, so seconds must be wrapped with `epochSeconds()`.
+ */
+export interface EpochSeconds {
+  readonly epochSeconds: number;
+}
+
+/**
+ * Any date accepted by this module:
+ * - a `Date`
+ * - a number of milliseconds since epoch (like `Date.now()`)
+ * - seconds since epoch wrapped with `epochSeconds()`
+ * - an ISO-8601 string such as `2024-05-01` or `2024-05-01T07:30:00Z`
+ */
+export type DateInput = Date | number | string | EpochSeconds;
+
+/**
+ * A validated date range in seconds since epoch, ready for the bridge
+ */
+export interface NativeDateRange {
+  start: number;
+  end: number;
+}
+
+const ISO_8601_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Mark a number as seconds since epoch
+ * @param seconds - Seconds since epoch, e.g. `workout.startDate`
+ */
+export function epochSeconds(seconds: number): EpochSeconds {
+  return { epochSeconds: seconds };
+}
+
+function isEpochSeconds(input: unknown): input is EpochSeconds {
+  return typeof input === 'object' && input !== null && 'epochSeconds' in input;
+}
+
+function invalidDate(name: string, input: unknown): HealthKitError {
+  return new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Invalid ${name}: ${String(input)}`);
+}
+
+/**
+ * Convert any supported date input to a `Date`
+ * @param input - The date to convert
+ * @param name - Argument name used in the error message
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if the input is not a valid date
+ */
+export function toDate(input: DateInput, name = 'date'): Date {
+  let date: Date;
+
+  if (input instanceof Date) {
+    date = new Date(input.getTime());
+  } else if (typeof input === 'number') {
+    date = new Date(input);
+  } else if (typeof input === 'string') {
+    if (!ISO_8601_PATTERN.test(input.trim())) {
+      throw invalidDate(name, input);
+    }
+    date = new Date(input.trim());
+  } else if (isEpochSeconds(input) && typeof input.epochSeconds === 'number') {
+    date = new Date(input.epochSeconds * 1000);
+  } else {
+    throw invalidDate(name, input);
+  }
+
+  if (!Number.isFinite(date.getTime())) {
+    throw invalidDate(name, input);
+  }
+  return date;
+}
+
+/**
+ * Convert any supported date input to seconds since epoch, the format
+ * the native module expects
+ * @param input - The date to convert
+ * @param name - Argument name used in the error message
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if the input is not a valid date
+ */
+export function toEpochSeconds(input: DateInput, name = 'date'): number {
+  return toDate(input, name).getTime() / 1000;
+}
+
+/**
+ * Convert an optional date input, leaving `undefined` untouched
+ */
+export function toOptionalEpochSeconds(input: DateInput | undefined, name = 'date'): number | undefined {
+  return input === undefined ? undefined : toEpochSeconds(input, name);
+}
+
+/**
+ * Convert and validate a date range
+ * @param startDate - Start of the range
+ * @param endDate - End of the range
+ * @returns The range in seconds since epoch
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if either date is invalid
+ * or `endDate` is before `startDate`
+ */
+export function toDateRange(startDate: DateInput, endDate: DateInput): NativeDateRange {
+  const start = toEpochSeconds(startDate, 'startDate');
+  const end = toEpochSeconds(endDate, 'endDate');
+  assertOrderedRange(start, end);
+  return { start, end };
+}
+
+/**
+ * Reject a range whose end is before its start. Either bound may be
+ * missing, as in open-ended queries.
+ */
+export function assertOrderedRange(start: number | undefined, end: number | undefined): void {
+  if (start !== undefined && end !== undefined && end < start) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'endDate must not be before startDate');
+  }
+}
+
+/**
+ * A calendar interval used to bucket data
+ */
+export type CalendarInterval = 'hour' | 'day' | 'week' | 'month';
+
+/**
+ * Get the start of the calendar interval containing a date, in local time.
+ * Weeks start on Sunday.
+ */
+export function startOfInterval(date: Date, interval: CalendarInterval): Date {
+  const start = new Date(date.getTime());
+  if (interval === 'hour') {
+    start.setMinutes(0, 0, 0);
+    return start;
+  }
+  start.setHours(0, 0, 0, 0);
+  if (interval === 'week') {
+    start.setDate(start.getDate() - start.getDay());
+  } else if (interval === 'month') {
+    start.setDate(1);
+  }
+  return start;
+}
+
+/**
+ * Move a date forward by one calendar interval, in local time
+ */
+export function addInterval(date: Date, interval: CalendarInterval): Date {
+  const next = new Date(date.getTime());
+  switch (interval) {
+    case 'hour':
+      next.setHours(next.getHours() + 1);
+      break;
+    case 'day':
+      next.setDate(next.getDate() + 1);
+      break;
+    case 'week':
+      next.setDate(next.getDate() + 7);
+      break;
+    case 'month':
+      next.setMonth(next.getMonth() + 1);
+      break;
+  }
+  return next;
+}
@@ -0,0 +1,132 @@
+import { CodedError } from 'expo-modules-core';
+
+/**
+ * Every error code a HealthKit call can reject with:
+ * - `ERR_HEALTHKIT_UNAVAILABLE`: HealthKit is not available on this device or platform
+ * - `ERR_HEALTHKIT_AUTHORIZATION_DENIED`: the user declined access to the data type
+ * - `ERR_HEALTHKIT_AUTHORIZATION_NOT_DETERMINED`: access was never requested for the data type
+ * - `ERR_HEALTHKIT_AUTHORIZATION_FAILED`: the authorization request itself failed
+ * - `ERR_HEALTHKIT_NOT_FOUND`: the requested sample does not exist
+ * - `ERR_HEALTHKIT_INVALID_ARGUMENT`: an argument was missing, malformed or out of range
+ * - `ERR_HEALTHKIT_INVALID_STATE`: the call is not allowed in the current state, e.g. resuming an ended workout session
+ * - `ERR_HEALTHKIT_DATABASE_LOCKED`: the health database is protected while the device is locked
+ * - `ERR_HEALTHKIT_SAVE_FAILED`: HealthKit refused to save or delete data
+ * - `ERR_HEALTHKIT_QUERY_FAILED`: HealthKit failed to run a query
+ * - `ERR_HEALTHKIT_UNKNOWN`: anything else
+ */
+export type HealthKitErrorCode =
+  | 'ERR_HEALTHKIT_UNAVAILABLE'
+  | 'ERR_HEALTHKIT_AUTHORIZATION_DENIED'
+  | 'ERR_HEALTHKIT_AUTHORIZATION_NOT_DETERMINED'
+  | 'ERR_HEALTHKIT_AUTHORIZATION_FAILED'
+  | 'ERR_HEALTHKIT_NOT_FOUND'
+  | 'ERR_HEALTHKIT_INVALID_ARGUMENT'
+  | 'ERR_HEALTHKIT_INVALID_STATE'
+  | 'ERR_HEALTHKIT_DATABASE_LOCKED'
+  | 'ERR_HEALTHKIT_SAVE_FAILED'
+  | 'ERR_HEALTHKIT_QUERY_FAILED'
+  | 'ERR_HEALTHKIT_UNKNOWN';
+
+const HEALTHKIT_ERROR_CODES: HealthKitErrorCode[] = [
+  'ERR_HEALTHKIT_UNAVAILABLE',
+  'ERR_HEALTHKIT_AUTHORIZATION_DENIED',
+  'ERR_HEALTHKIT_AUTHORIZATION_NOT_DETERMINED',
+  'ERR_HEALTHKIT_AUTHORIZATION_FAILED',
+  'ERR_HEALTHKIT_NOT_FOUND',
+  'ERR_HEALTHKIT_INVALID_ARGUMENT',
+  'ERR_HEALTHKIT_INVALID_STATE',
+  'ERR_HEALTHKIT_DATABASE_LOCKED',
+  'ERR_HEALTHKIT_SAVE_FAILED',
+  'ERR_HEALTHKIT_QUERY_FAILED',
+  'ERR_HEALTHKIT_UNKNOWN',
+];
+
+// Codes raised by the Expo modules runtime itself rather than by HealthKit
+const EXPO_ERROR_CODES = new Map<string, HealthKitErrorCode>(Object.entries({
+  ERR_MODULE_NOT_FOUND: 'ERR_HEALTHKIT_UNAVAILABLE',
+  ERR_UNAVAILABLE: 'ERR_HEALTHKIT_UNAVAILABLE',
+  ERR_ARGUMENT_CAST: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+  ERR_INVALID_ARGS_NUMBER: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+  ERR_MISSING_ARGUMENT: 'ERR_HEALTHKIT_INVALID_ARGUMENT',
+}));
+
+// Fallback for errors that carry no usable code, matched against the message
+const MESSAGE_PATTERNS: [RegExp, HealthKitErrorCode][] = [
+  [/cannot find native module|not available on this device|health data is unavailable/i, 'ERR_HEALTHKIT_UNAVAILABLE'],
+  [/not determined/i, 'ERR_HEALTHKIT_AUTHORIZATION_NOT_DETERMINED'],
+  [/not authorized|authorization (was )?denied/i, 'ERR_HEALTHKIT_AUTHORIZATION_DENIED'],
+  [/protected health data is inaccessible|database is locked|device is locked/i, 'ERR_HEALTHKIT_DATABASE_LOCKED'],
+  [/not found/i, 'ERR_HEALTHKIT_NOT_FOUND'],
+  [/invalid|missing required/i, 'ERR_HEALTHKIT_INVALID_ARGUMENT'],
+];
+
+/**
+ * The error every HealthKit call rejects with.
+ * Switch on `code` to decide how to recover:
+ *
+ * ```ts
+ * try {
+ *   await deleteWorkout(id);
+ * } catch (error) {
+ *   if (isHealthKitError(error, 'ERR_HEALTHKIT_NOT_FOUND')) {
+ *     // Already gone
+ *   }
+ * }
+ * ```
+ */
+export class HealthKitError extends CodedError {
+  /** The original error this one was normalized from, if any */
+  cause?: unknown;
+
+  constructor(code: HealthKitErrorCode, message: string, cause?: unknown) {
+    super(code, message);
+    this.name = 'HealthKitError';
+    this.cause = cause;
+  }
+}
+
+// Narrows the `code` set by CodedError. A `declare` field would say the
+// same, but Babel's Flow plugin, which Metro runs on every file, rejects it.
+export interface HealthKitError {
+  code: HealthKitErrorCode;
+}
+
+/**
+ * Check whether a value is a `HealthKitError`, optionally with a given code
+ * @param error - The value to check
+ * @param code - Optional code the error must have
+ */
+export function isHealthKitError(error: unknown, code?: HealthKitErrorCode): error is HealthKitError {
+  return error instanceof HealthKitError && (code === undefined || error.code === code);
+}
+
+function isHealthKitErrorCode(code: unknown): code is HealthKitErrorCode {
+  return typeof code === 'string' && (HEALTHKIT_ERROR_CODES as string[]).includes(code);
+}
+
+/**
+ * Map any error thrown by the native module (or the runtime around it)
+ * onto a `HealthKitError`
+ * @param error - The raw error
+ * @returns A `HealthKitError` with the best matching code
+ */
+export function normalizeError(error: unknown): HealthKitError {
+  if (error instanceof HealthKitError) {
+    return error;
+  }
+
+  const message =
+    error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown HealthKit error';
+  const rawCode = (error as { code?: unknown } | null)?.code;
+
+  if (isHealthKitErrorCode(rawCode)) {
+    return new HealthKitError(rawCode, message, error);
+  }
+  const expoCode = typeof rawCode === 'string' ? EXPO_ERROR_CODES.get(rawCode) : undefined;
+  if (expoCode) {
+    return new HealthKitError(expoCode, message, error);
+  }
+
+  const match = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(message));
+  return new HealthKitError(match ? match[1] : 'ERR_HEALTHKIT_UNKNOWN', message, error);
+}
@@ -0,0 +1,295 @@
+import { getSleepSamples, iterateQuantitySamples, iterateWorkouts } from './ExpoHealthKit';
+import { getDataTypeKind, resolveDataType } from './dataTypes';
+import type { CanonicalDataType } from './dataTypes';
+import { toDateRange, epochSeconds } from './dates';
+import type { DateInput } from './dates';
+import { HealthKitError } from './errors';
+import { getCanonicalUnit } from './units';
+import type { DataType } from './types';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'json';
+
+/**
+ * One exported file, as described to `openFile`
+ */
+export interface ExportFileInfo {
+  dataType: CanonicalDataType;
+  /** `<DataType>.<format>`, e.g. `HeartRate.csv` */
+  fileName: string;
+  mimeType: string;
+  /** Column names, in the order they are written */
+  columns: string[];
+}
+
+/**
+ * Receives the contents of one file in chunks, e.g. an append-mode file
+ * handle from expo-file-system
+ */
+export interface ExportFileWriter {
+  write(chunk: string): void | Promise<void>;
+  close?(): void | Promise<void>;
+}
+
+export interface ExportProgress {
+  /** The type being exported */
+  dataType: CanonicalDataType;
+  /** Rows written for this type so far */
+  rows: number;
+  /** Types finished so far */
+  completedTypes: number;
+  totalTypes: number;
+  /**
+   * Estimated overall progress (0-1). Within a type it follows how much of
+   * the date range has been read, since records are read newest first.
+   */
+  fraction: number;
+}
+
+export interface ExportOptions {
+  types: DataType[];
+  startDate: DateInput;
+  endDate: DateInput;
+  format: ExportFormat;
+  /**
+   * Called before each file is written. Return a writer to stream the file
+   * somewhere; leave out to collect every file in memory as `content`.
+   */
+  openFile?: (file: ExportFileInfo) => ExportFileWriter | Promise<ExportFileWriter>;
+  /** Called after every page of records */
+  onProgress?: (progress: ExportProgress) => void;
+  /** Records read per query (default 100) */
+  pageSize?: number;
+}
+
+export interface ExportedFile extends ExportFileInfo {
+  rows: number;
+  /** The file contents, when no `openFile` was given */
+  content?: string;
+}
+
+type Row = Record<string, string | number>;
+
+interface Batch {
+  rows: Row[];
+  /** Start of the oldest record in the batch, in seconds */
+  oldest: number;
+}
+
+// Column schemas are fixed per kind of type, so files exported at different
+// times can be concatenated and parsed the same way. Dates are ISO 8601.
+const QUANTITY_COLUMNS = ['id', 'startDate', 'endDate', 'value', 'unit'];
+const SLEEP_COLUMNS = ['id', 'startDate', 'endDate', 'value', 'duration'];
+const WORKOUT_COLUMNS = ['id', 'activityType', 'startDate', 'endDate', 'duration', 'distance', 'calories'];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  json: 'application/json',
+};
+
+function isoDate(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function columnsFor(type: CanonicalDataType): string[] {
+  if (type === 'Workout') {
+    return WORKOUT_COLUMNS;
+  }
+  return type === 'SleepAnalysis' ? SLEEP_COLUMNS : QUANTITY_COLUMNS;
+}
+
+async function* readBatches(
+  type: CanonicalDataType,
+  start: number,
+  end: number,
+  pageSize: number | undefined
+): AsyncGenerator<Batch, void, undefined> {
+  const range = { startDate: epochSeconds(start), endDate: epochSeconds(end), pageSize };
+
+  if (type === 'Workout') {
+    for await (const page of iterateWorkouts(range)) {
+      yield {
+        rows: page.items.map((workout) => ({
+          id: workout.id,
+          activityType: workout.activityType,
+          startDate: isoDate(workout.startDate),
+          endDate: isoDate(workout.endDate),
+          duration: workout.duration,
+          distance: workout.distance,
+          calories: workout.calories,
+        })),
+        oldest: Math.min(...page.items.map((workout) => workout.startDate)),
+      };
+    }
+    return;
+  }
+
+  // Sleep samples are few enough to be read in one query
+  if (type === 'SleepAnalysis') {
+    const samples = await getSleepSamples(epochSeconds(start), epochSeconds(end));
+    yield {
+      rows: samples.map((sample) => ({
+        id: sample.id,
+        startDate: isoDate(sample.startDate),
+        endDate: isoDate(sample.endDate),
+        value: sample.value,
+        duration: sample.duration,
+      })),
+      oldest: start,
+    };
+    return;
+  }
+
+  const unit = getCanonicalUnit(type) ?? '';
+  for await (const page of iterateQuantitySamples(type, range)) {
+    yield {
+      rows: page.items.map((sample) => ({
+        id: sample.id,
+        startDate: isoDate(sample.startDate),
+        endDate: isoDate(sample.endDate),
+        value: sample.value,
+        unit,
+      })),
+      oldest: Math.min(...page.items.map((sample) => sample.startDate)),
+    };
+  }
+}
+
+// Serializes rows in one format; `json` writes a single array across chunks
+function createEncoder(format: ExportFormat, columns: string[]) {
+  let first = true;
+  const ordered = (row: Row) => Object.fromEntries(columns.map((column) => [column, row[column]]));
+
+  return {
+    header(): string {
+      if (format === 'csv') {
+        return `${columns.join(',')}\n`;
+      }
+      return format === 'json' ? '[' : '';
+    },
+    rows(rows: Row[]): string {
+      return rows
+        .map((row) => {
+          if (format === 'csv') {
+            return `${columns.map((column) => csvField(row[column])).join(',')}\n`;
+          }
+          if (format === 'ndjson') {
+            return `${JSON.stringify(ordered(row))}\n`;
+          }
+          const separator = first ? '\n' : ',\n';
+          first = false;
+          return `${separator}${JSON.stringify(ordered(row))}`;
+        })
+        .join('');
+    },
+    footer(): string {
+      if (format !== 'json') {
+        return '';
+      }
+      return first ? ']\n' : '\n]\n';
+    },
+  };
+}
+
+function memoryWriter(): ExportFileWriter & { content: string } {
+  return {
+    content: '',
+    write(chunk: string) {
+      this.content += chunk;
+    },
+  };
+}
+
+/**
+ * Export every record of the given types in a date range, one file per
+ * type. Records are read page by page and written as they arrive, so large
+ * histories never have to fit in memory when `openFile` streams to disk:
+ *
+ * ```ts
+ * await exportHealthData({
+ *   types: ['Steps', 'HeartRate', 'Workout'],
+ *   startDate: yearAgo,
+ *   endDate: new Date(),
+ *   format: 'csv',
+ *   openFile: (file) => openAppendStream(`${exportDir}/${file.fileName}`),
+ *   onProgress: ({ fraction }) => setProgress(fraction),
+ * });
+ * ```
+ *
+ * Quantity values are in each type's canonical unit, named in the `unit`
+ * column. Workouts are in meters and kilocalories.
+ * @param options - Types, date range, format, destination and progress callback
+ * @returns The files written, with their row counts
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if a type
+ * cannot be exported; nothing is written in that case
+ */
+export async function exportHealthData(options: ExportOptions): Promise<ExportedFile[]> {
+  const { start, end } = toDateRange(options.startDate, options.endDate);
+  if (!MIME_TYPES[options.format]) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unsupported export format: ${options.format}`);
+  }
+
+  const types: CanonicalDataType[] = [];
+  for (const type of options.types) {
+    const canonical = resolveDataType(type);
+    const kind = getDataTypeKind(type);
+    if (!canonical || (kind === 'category' && canonical !== 'SleepAnalysis')) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${type} cannot be exported`);
+    }
+    if (!types.includes(canonical)) {
+      types.push(canonical);
+    }
+  }
+
+  const files: ExportedFile[] = [];
+  const span = Math.max(end - start, 1);
+
+  for (const [index, type] of types.entries()) {
+    const info: ExportFileInfo = {
+      dataType: type,
+      fileName: `${type}.${options.format}`,
+      mimeType: MIME_TYPES[options.format],
+      columns: columnsFor(type),
+    };
+    const collected = options.openFile ? null : memoryWriter();
+    const writer = collected ?? (await options.openFile!(info));
+    const encoder = createEncoder(options.format, info.columns);
+    let rows = 0;
+
+    try {
+      await writer.write(encoder.header());
+      for await (const batch of readBatches(type, start, end, options.pageSize)) {
+        if (batch.rows.length > 0) {
+          await writer.write(encoder.rows(batch.rows));
+        }
+        rows += batch.rows.length;
+        const covered = Math.min(Math.max((end - batch.oldest) / span, 0), 1);
+        options.onProgress?.({
+          dataType: type,
+          rows,
+          completedTypes: index,
+          totalTypes: types.length,
+          fraction: (index + covered) / types.length,
+        });
+      }
+      await writer.write(encoder.footer());
+    } finally {
+      await writer.close?.();
+    }
+
+    files.push({ ...info, rows, ...(collected ? { content: collected.content } : {}) });
+    options.onProgress?.({
+      dataType: type,
+      rows,
+      completedTypes: index + 1,
+      totalTypes: types.length,
+      fraction: (index + 1) / types.length,
+    });
+  }
+  return files;
+}
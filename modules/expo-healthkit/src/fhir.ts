@@ -0,0 +1,569 @@
+import { resolveDataType } from './dataTypes';
+import type { CanonicalDataType } from './dataTypes';
+import { toEpochSeconds } from './dates';
+import type { DateInput } from './dates';
+import { HealthKitError } from './errors';
+import type { BloodPressure, DataType, QuantitySample, SleepSample, Workout } from './types';
+import { createUUID } from './uuid';
+
+// ======================
+// Resource types
+// ======================
+
+export interface FHIRCoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+export interface FHIRCodeableConcept {
+  coding?: FHIRCoding[];
+  text?: string;
+}
+
+/**
+ * A quantity with a UCUM unit
+ */
+export interface FHIRQuantity {
+  value: number;
+  /** Human-readable unit */
+  unit: string;
+  system: 'http://unitsofmeasure.org';
+  /** UCUM code of the unit */
+  code: string;
+}
+
+export interface FHIRReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FHIRPeriod {
+  start: string;
+  end: string;
+}
+
+export interface FHIRObservationComponent {
+  code: FHIRCodeableConcept;
+  valueQuantity?: FHIRQuantity;
+  valueString?: string;
+}
+
+export interface FHIRObservation {
+  resourceType: 'Observation';
+  id: string;
+  status: 'registered' | 'preliminary' | 'final' | 'amended';
+  category?: FHIRCodeableConcept[];
+  code: FHIRCodeableConcept;
+  subject?: FHIRReference;
+  effectiveDateTime?: string;
+  effectivePeriod?: FHIRPeriod;
+  valueQuantity?: FHIRQuantity;
+  valueCodeableConcept?: FHIRCodeableConcept;
+  component?: FHIRObservationComponent[];
+}
+
+export interface FHIRComposition {
+  resourceType: 'Composition';
+  id: string;
+  status: 'preliminary' | 'final' | 'amended';
+  type: FHIRCodeableConcept;
+  subject?: FHIRReference;
+  date: string;
+  author: FHIRReference[];
+  title: string;
+  section?: { title?: string; entry: FHIRReference[] }[];
+}
+
+export interface FHIRBundleEntry {
+  fullUrl: string;
+  resource: FHIRObservation | FHIRComposition;
+}
+
+export interface FHIRBundle {
+  resourceType: 'Bundle';
+  id: string;
+  identifier?: { system: string; value: string };
+  type: 'document' | 'collection';
+  timestamp: string;
+  entry: FHIRBundleEntry[];
+}
+
+// ======================
+// Options & validation
+// ======================
+
+export interface FHIRObservationOptions {
+  /** The patient the data belongs to, e.g. `{ reference: 'Patient/123' }` */
+  subject?: FHIRReference;
+}
+
+export interface FHIRBundleOptions {
+  /**
+   * `document` (default) starts the bundle with a Composition listing every
+   * observation; `collection` holds the observations only
+   */
+  type?: 'document' | 'collection';
+  subject?: FHIRReference;
+  /** Author of the document (default `{ display: 'Apple Health' }`) */
+  author?: FHIRReference;
+  /** Title of the document (default 'Health data') */
+  title?: string;
+  /** When the bundle was assembled (default now) */
+  timestamp?: DateInput;
+}
+
+export interface FHIRValidationIssue {
+  /** Location of the problem, e.g. `entry[2].resource.code` */
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a resource built for a bundle is missing required fields.
+ * It is a `HealthKitError` with code `ERR_HEALTHKIT_INVALID_ARGUMENT`.
+ */
+export class FHIRValidationError extends HealthKitError {
+  issues: FHIRValidationIssue[];
+
+  constructor(issues: FHIRValidationIssue[]) {
+    super('ERR_HEALTHKIT_INVALID_ARGUMENT', issues.map((issue) => `${issue.path}: ${issue.message}`).join('; '));
+    this.name = 'FHIRValidationError';
+    this.issues = issues;
+  }
+}
+
+// ======================
+// Codes
+// ======================
+
+const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org' as const;
+const CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+
+type ObservationCategory = 'vital-signs' | 'activity' | 'exam';
+
+interface QuantityCode {
+  loinc: string;
+  display: string;
+  category: ObservationCategory;
+  unit: string;
+  ucum: string;
+  /** Multiplier from the canonical unit to the UCUM unit */
+  factor?: number;
+}
+
+// Canonical data types with an established LOINC code, keyed to their
+// canonical unit (see `CANONICAL_UNITS`)
+const QUANTITY_CODES: Partial<Record<CanonicalDataType, QuantityCode>> = {
+  StepCount: { loinc: '55423-8', display: 'Number of steps', category: 'activity', unit: 'steps', ucum: '{steps}' },
+  ActiveEnergyBurned: {
+    loinc: '41981-2',
+    display: 'Calories burned',
+    category: 'activity',
+    unit: 'kcal',
+    ucum: 'kcal',
+  },
+  Height: { loinc: '8302-2', display: 'Body height', category: 'vital-signs', unit: 'cm', ucum: 'cm' },
+  BodyMass: { loinc: '29463-7', display: 'Body weight', category: 'vital-signs', unit: 'kg', ucum: 'kg' },
+  BodyMassIndex: {
+    loinc: '39156-5',
+    display: 'Body mass index (BMI) [Ratio]',
+    category: 'vital-signs',
+    unit: 'kg/m2',
+    ucum: 'kg/m2',
+  },
+  BodyFatPercentage: { loinc: '41982-0', display: 'Percentage of body fat', category: 'exam', unit: '%', ucum: '%' },
+  HeartRate: { loinc: '8867-4', display: 'Heart rate', category: 'vital-signs', unit: 'beats/minute', ucum: '/min' },
+  RestingHeartRate: {
+    loinc: '40443-4',
+    display: 'Heart rate --resting',
+    category: 'vital-signs',
+    unit: 'beats/minute',
+    ucum: '/min',
+  },
+  HeartRateVariability: {
+    loinc: '80404-7',
+    display: 'R-R interval.standard deviation (Heart rate variability)',
+    category: 'vital-signs',
+    unit: 'ms',
+    ucum: 'ms',
+  },
+  BloodPressureSystolic: {
+    loinc: '8480-6',
+    display: 'Systolic blood pressure',
+    category: 'vital-signs',
+    unit: 'mmHg',
+    ucum: 'mm[Hg]',
+  },
+  BloodPressureDiastolic: {
+    loinc: '8462-4',
+    display: 'Diastolic blood pressure',
+    category: 'vital-signs',
+    unit: 'mmHg',
+    ucum: 'mm[Hg]',
+  },
+  RespiratoryRate: {
+    loinc: '9279-1',
+    display: 'Respiratory rate',
+    category: 'vital-signs',
+    unit: 'breaths/minute',
+    ucum: '/min',
+  },
+  OxygenSaturation: {
+    loinc: '59408-5',
+    display: 'Oxygen saturation in Arterial blood by Pulse oximetry',
+    category: 'vital-signs',
+    unit: '%',
+    ucum: '%',
+    factor: 100,
+  },
+  BodyTemperature: { loinc: '8310-5', display: 'Body temperature', category: 'vital-signs', unit: 'C', ucum: 'Cel' },
+};
+
+const BLOOD_PRESSURE_PANEL = { loinc: '85354-9', display: 'Blood pressure panel with all children optional' };
+const SLEEP_DURATION = { loinc: '93832-4', display: 'Sleep duration' };
+const EXERCISE_ACTIVITY = { loinc: '73985-4', display: 'Exercise activity' };
+const EXERCISE_DURATION = { loinc: '55411-3', display: 'Exercise duration' };
+
+const SLEEP_STAGE_NAMES: Record<SleepSample['value'], string> = {
+  asleep: 'Asleep',
+  core: 'Core sleep',
+  deep: 'Deep sleep',
+  rem: 'REM sleep',
+  awake: 'Awake',
+  inBed: 'In bed',
+  unknown: 'Unknown',
+};
+
+// ======================
+// Helpers
+// ======================
+
+function loinc(code: { loinc: string; display: string }): FHIRCodeableConcept {
+  return { coding: [{ system: LOINC_SYSTEM, code: code.loinc, display: code.display }], text: code.display };
+}
+
+function category(code: ObservationCategory): FHIRCodeableConcept[] {
+  const display = { 'vital-signs': 'Vital Signs', activity: 'Activity', exam: 'Exam' }[code];
+  return [{ coding: [{ system: CATEGORY_SYSTEM, code, display }] }];
+}
+
+function quantity(value: number, unit: string, ucum: string): FHIRQuantity {
+  return { value, unit, system: UCUM_SYSTEM, code: ucum };
+}
+
+function instant(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+// Samples that cover a span get a period, point samples a single time
+function effective(startDate: number, endDate: number): Pick<FHIRObservation, 'effectiveDateTime' | 'effectivePeriod'> {
+  return endDate > startDate
+    ? { effectivePeriod: { start: instant(startDate), end: instant(endDate) } }
+    : { effectiveDateTime: instant(startDate) };
+}
+
+// HealthKit UUIDs become the resource IDs, so the same sample exported twice
+// keeps its identity
+function resourceId(id: string | undefined): string {
+  return (id || createUUID()).toLowerCase();
+}
+
+function withSubject(observation: FHIRObservation, options: FHIRObservationOptions): FHIRObservation {
+  return options.subject ? { ...observation, subject: options.subject } : observation;
+}
+
+// ======================
+// Observations
+// ======================
+
+/**
+ * Convert a quantity sample to an Observation
+ * @param dataType - The type the sample was read as
+ * @param sample - A sample with its value in the type's canonical unit, as
+ * returned when no `unit` is passed
+ * @param options - The patient the data belongs to
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if the type
+ * has no LOINC code
+ */
+export function quantitySampleToFHIR(
+  dataType: DataType,
+  sample: QuantitySample,
+  options: FHIRObservationOptions = {}
+): FHIRObservation {
+  const canonical = resolveDataType(dataType);
+  const code = canonical ? QUANTITY_CODES[canonical] : undefined;
+  if (!code) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${dataType} has no FHIR mapping`);
+  }
+  return withSubject(
+    {
+      resourceType: 'Observation',
+      id: resourceId(sample.id),
+      status: 'final',
+      category: category(code.category),
+      code: loinc(code),
+      ...effective(sample.startDate, sample.endDate),
+      valueQuantity: quantity(sample.value * (code.factor ?? 1), code.unit, code.ucum),
+    },
+    options
+  );
+}
+
+/**
+ * Convert a blood pressure reading to a panel Observation with systolic and
+ * diastolic components
+ * @param reading - A reading in mmHg; `timestamp` is required
+ * @param options - The patient the data belongs to
+ */
+export function bloodPressureToFHIR(
+  reading: BloodPressure & { id?: string },
+  options: FHIRObservationOptions = {}
+): FHIRObservation {
+  const systolic = QUANTITY_CODES.BloodPressureSystolic!;
+  const diastolic = QUANTITY_CODES.BloodPressureDiastolic!;
+  return withSubject(
+    {
+      resourceType: 'Observation',
+      id: resourceId(reading.id),
+      status: 'final',
+      category: category('vital-signs'),
+      code: loinc(BLOOD_PRESSURE_PANEL),
+      ...(reading.timestamp !== undefined ? { effectiveDateTime: instant(reading.timestamp) } : {}),
+      component: [
+        { code: loinc(systolic), valueQuantity: quantity(reading.systolic, systolic.unit, systolic.ucum) },
+        { code: loinc(diastolic), valueQuantity: quantity(reading.diastolic, diastolic.unit, diastolic.ucum) },
+      ],
+    },
+    options
+  );
+}
+
+/**
+ * Convert a sleep sample to an Observation. Asleep stages are coded as
+ * sleep duration; time in bed and awake time carry only a text code. The
+ * stage is kept in a component either way.
+ * @param sample - A sample from `getSleepSamples`
+ * @param options - The patient the data belongs to
+ */
+export function sleepSampleToFHIR(sample: SleepSample, options: FHIRObservationOptions = {}): FHIRObservation {
+  const asleep = ['asleep', 'core', 'deep', 'rem'].includes(sample.value);
+  return withSubject(
+    {
+      resourceType: 'Observation',
+      id: resourceId(sample.id),
+      status: 'final',
+      category: category('activity'),
+      code: asleep ? loinc(SLEEP_DURATION) : { text: SLEEP_STAGE_NAMES[sample.value] },
+      ...effective(sample.startDate, sample.endDate),
+      valueQuantity: quantity((sample.endDate - sample.startDate) / 60, 'min', 'min'),
+      component: [{ code: { text: 'Sleep stage' }, valueString: SLEEP_STAGE_NAMES[sample.value] }],
+    },
+    options
+  );
+}
+
+/**
+ * Convert a workout to an exercise activity Observation with duration,
+ * calories and distance components
+ * @param workout - A workout in meters and kilocalories, as returned when no
+ * units are passed to `queryWorkouts`
+ * @param options - The patient the data belongs to
+ */
+export function workoutToFHIR(workout: Workout, options: FHIRObservationOptions = {}): FHIRObservation {
+  const calories = QUANTITY_CODES.ActiveEnergyBurned!;
+  return withSubject(
+    {
+      resourceType: 'Observation',
+      id: resourceId(workout.id),
+      status: 'final',
+      category: category('activity'),
+      code: loinc(EXERCISE_ACTIVITY),
+      ...effective(workout.startDate, workout.endDate),
+      valueCodeableConcept: { text: workout.activityType },
+      component: [
+        { code: loinc(EXERCISE_DURATION), valueQuantity: quantity(workout.duration / 60, 'min', 'min') },
+        { code: loinc(calories), valueQuantity: quantity(workout.calories, calories.unit, calories.ucum) },
+        { code: { text: 'Distance' }, valueQuantity: quantity(workout.distance, 'm', 'm') },
+      ],
+    },
+    options
+  );
+}
+
+// ======================
+// Validation
+// ======================
+
+function validateConcept(concept: FHIRCodeableConcept | undefined, path: string): FHIRValidationIssue[] {
+  if (!concept || (!concept.text && !(concept.coding && concept.coding.length > 0))) {
+    return [{ path, message: 'needs a coding or text' }];
+  }
+  return (concept.coding ?? [])
+    .filter((coding) => !coding.system || !coding.code)
+    .map(() => ({ path: `${path}.coding`, message: 'every coding needs a system and a code' }));
+}
+
+function validateQuantity(value: FHIRQuantity, path: string): FHIRValidationIssue[] {
+  const issues: FHIRValidationIssue[] = [];
+  if (typeof value.value !== 'number' || !Number.isFinite(value.value)) {
+    issues.push({ path: `${path}.value`, message: `must be a finite number, got ${value.value}` });
+  }
+  if (value.system !== UCUM_SYSTEM || !value.code) {
+    issues.push({ path, message: 'needs a UCUM code' });
+  }
+  return issues;
+}
+
+function validateInstant(value: string | undefined, path: string): FHIRValidationIssue[] {
+  return value === undefined || Number.isNaN(Date.parse(value))
+    ? [{ path, message: `must be a date-time, got ${value}` }]
+    : [];
+}
+
+/**
+ * Check an Observation for the fields a receiving system needs: status,
+ * code, when it was observed, and a value or components
+ * @returns The problems found, or an empty array
+ */
+export function validateFHIRObservation(observation: FHIRObservation, path = 'Observation'): FHIRValidationIssue[] {
+  const issues: FHIRValidationIssue[] = [];
+  if (observation.resourceType !== 'Observation') {
+    issues.push({ path: `${path}.resourceType`, message: 'must be Observation' });
+  }
+  if (!observation.id) {
+    issues.push({ path: `${path}.id`, message: 'is required' });
+  }
+  if (!['registered', 'preliminary', 'final', 'amended'].includes(observation.status)) {
+    issues.push({ path: `${path}.status`, message: `is not a valid status: ${observation.status}` });
+  }
+  issues.push(...validateConcept(observation.code, `${path}.code`));
+
+  if (observation.effectivePeriod) {
+    issues.push(
+      ...validateInstant(observation.effectivePeriod.start, `${path}.effectivePeriod.start`),
+      ...validateInstant(observation.effectivePeriod.end, `${path}.effectivePeriod.end`)
+    );
+  } else {
+    issues.push(...validateInstant(observation.effectiveDateTime, `${path}.effectiveDateTime`));
+  }
+
+  const components = observation.component ?? [];
+  if (!observation.valueQuantity && !observation.valueCodeableConcept && components.length === 0) {
+    issues.push({ path, message: 'needs a value or components' });
+  }
+  if (observation.valueQuantity) {
+    issues.push(...validateQuantity(observation.valueQuantity, `${path}.valueQuantity`));
+  }
+  if (observation.valueCodeableConcept) {
+    issues.push(...validateConcept(observation.valueCodeableConcept, `${path}.valueCodeableConcept`));
+  }
+  components.forEach((component, i) => {
+    const componentPath = `${path}.component[${i}]`;
+    issues.push(...validateConcept(component.code, `${componentPath}.code`));
+    if (component.valueQuantity) {
+      issues.push(...validateQuantity(component.valueQuantity, `${componentPath}.valueQuantity`));
+    } else if (component.valueString === undefined) {
+      issues.push({ path: componentPath, message: 'needs a value' });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Check a bundle and every resource in it. A document must start with a
+ * Composition, and entries need unique full URLs.
+ * @returns The problems found, or an empty array
+ */
+export function validateFHIRBundle(bundle: FHIRBundle): FHIRValidationIssue[] {
+  const issues: FHIRValidationIssue[] = [];
+  if (bundle.resourceType !== 'Bundle') {
+    issues.push({ path: 'Bundle.resourceType', message: 'must be Bundle' });
+  }
+  issues.push(...validateInstant(bundle.timestamp, 'Bundle.timestamp'));
+  if (bundle.type === 'document') {
+    if (!bundle.identifier) {
+      issues.push({ path: 'Bundle.identifier', message: 'is required for documents' });
+    }
+    if (bundle.entry[0]?.resource.resourceType !== 'Composition') {
+      issues.push({ path: 'Bundle.entry[0]', message: 'a document must start with a Composition' });
+    }
+  }
+
+  const fullUrls = new Set<string>();
+  bundle.entry.forEach((entry, i) => {
+    const path = `Bundle.entry[${i}]`;
+    if (!entry.fullUrl) {
+      issues.push({ path: `${path}.fullUrl`, message: 'is required' });
+    } else if (fullUrls.has(entry.fullUrl)) {
+      issues.push({ path: `${path}.fullUrl`, message: `duplicates ${entry.fullUrl}` });
+    }
+    fullUrls.add(entry.fullUrl);
+
+    const resource = entry.resource;
+    if (resource.resourceType === 'Observation') {
+      issues.push(...validateFHIRObservation(resource, `${path}.resource`));
+    } else if (!resource.title || !resource.date || resource.author.length === 0) {
+      issues.push({ path: `${path}.resource`, message: 'a Composition needs a title, date and author' });
+    }
+  });
+  return issues;
+}
+
+// ======================
+// Bundles
+// ======================
+
+/**
+ * Bundle observations into a FHIR document (or collection), validating
+ * every resource first
+ * @param observations - Observations from the `*ToFHIR` converters
+ * @param options - Bundle type, patient, author, title and timestamp
+ * @throws FHIRValidationError if any resource is missing required fields
+ */
+export function createFHIRBundle(observations: FHIRObservation[], options: FHIRBundleOptions = {}): FHIRBundle {
+  const type = options.type ?? 'document';
+  const timestamp = instant(
+    options.timestamp === undefined ? Date.now() / 1000 : toEpochSeconds(options.timestamp, 'timestamp')
+  );
+  const subject = options.subject;
+
+  const entries: FHIRBundleEntry[] = observations.map((observation) => ({
+    fullUrl: `urn:uuid:${observation.id}`,
+    resource: subject && !observation.subject ? { ...observation, subject } : observation,
+  }));
+
+  if (type === 'document') {
+    const composition: FHIRComposition = {
+      resourceType: 'Composition',
+      id: resourceId(undefined),
+      status: 'final',
+      type: loinc({ loinc: '11503-0', display: 'Medical records' }),
+      ...(subject ? { subject } : {}),
+      date: timestamp,
+      author: [options.author ?? { display: 'Apple Health' }],
+      title: options.title ?? 'Health data',
+      section: [{ title: 'Observations', entry: entries.map((entry) => ({ reference: entry.fullUrl })) }],
+    };
+    entries.unshift({ fullUrl: `urn:uuid:${composition.id}`, resource: composition });
+  }
+
+  const bundle: FHIRBundle = {
+    resourceType: 'Bundle',
+    id: resourceId(undefined),
+    // Documents need a stable identifier, separate from the resource ID
+    ...(type === 'document'
+      ? { identifier: { system: 'urn:ietf:rfc:3986', value: `urn:uuid:${resourceId(undefined)}` } }
+      : {}),
+    type,
+    timestamp,
+    entry: entries,
+  };
+
+  const issues = validateFHIRBundle(bundle);
+  if (issues.length > 0) {
+    throw new FHIRValidationError(issues);
+  }
+  return bundle;
+}
@@ -0,0 +1,228 @@
+import { getHeartRateSamples, getRestingHeartRate } from './ExpoHealthKit';
+import { epochSeconds } from './dates';
+import { HealthKitError } from './errors';
+import type { QuantitySample, Workout } from './types';
+
+/**
+ * How zone boundaries are derived:
+ * - `percentMax`: percentages of the maximum heart rate
+ * - `karvonen`: percentages of the heart rate reserve (max minus resting) above resting
+ * - `custom`: fixed thresholds in bpm
+ */
+export type HeartRateZoneModel = 'percentMax' | 'karvonen' | 'custom';
+
+export interface HeartRateZoneOptions {
+  zoneModel?: HeartRateZoneModel;
+  /** Maximum heart rate in bpm; estimated as 220 - age when omitted */
+  maxHR?: number;
+  age?: number;
+  /** Resting heart rate in bpm for `karvonen`; read from HealthKit when omitted */
+  restingHR?: number;
+  /** Lower bound of each zone in percent, ascending (default 50, 60, 70, 80, 90) */
+  zonePercentages?: number[];
+  /** Lower bound of each zone in bpm, ascending, for `custom` */
+  thresholds?: number[];
+}
+
+export interface HeartRateZone {
+  /** 1-based zone number */
+  zone: number;
+  minBpm: number;
+  /** Upper bound (exclusive), or null for the top zone */
+  maxBpm: number | null;
+}
+
+export interface HeartRateZoneTime extends HeartRateZone {
+  /** Seconds spent in the zone */
+  duration: number;
+  /** Share of the measured time spent in the zone (0-1) */
+  fraction: number;
+}
+
+export interface WorkoutHeartRateAnalysis {
+  workoutId: string;
+  /** Mean of the samples in bpm, or null if there are none */
+  averageHR: number | null;
+  maxHR: number | null;
+  minHR: number | null;
+  zones: HeartRateZoneTime[];
+  /** Seconds spent below the first zone */
+  belowZones: number;
+  /** Samples in time order, dates in seconds since epoch */
+  series: { timestamp: number; bpm: number }[];
+}
+
+const DEFAULT_ZONE_PERCENTAGES = [50, 60, 70, 80, 90];
+
+// Anything above these is a typo rather than a person (the same ceiling as
+// HeartRate's validation bounds)
+const MAX_HEART_RATE = 300;
+const MAX_AGE = 120;
+
+// A sample counts until the next one, but gaps longer than this (e.g. the
+// watch lost contact) are not attributed to any zone
+const MAX_SAMPLE_SECONDS = 60;
+
+// Resting heart rate is taken from the week before the workout
+const RESTING_HR_LOOKBACK_SECONDS = 7 * 24 * 60 * 60;
+
+function requireAscending(values: number[], name: string): void {
+  if (values.length === 0 || values.some((value, i) => !Number.isFinite(value) || (i > 0 && value <= values[i - 1]))) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${name} must be ascending numbers`);
+  }
+}
+
+function requireHeartRate(value: number, name: string, max = MAX_HEART_RATE): void {
+  if (!Number.isFinite(value) || value <= 0 || value > max) {
+    throw new HealthKitError(
+      'ERR_HEALTHKIT_INVALID_ARGUMENT',
+      `${name} must be between 0 and ${max} bpm, got ${value}`
+    );
+  }
+}
+
+function resolveMaxHR(options: HeartRateZoneOptions): number {
+  if (options.maxHR !== undefined) {
+    requireHeartRate(options.maxHR, 'maxHR');
+    return options.maxHR;
+  }
+  if (options.age !== undefined) {
+    if (!Number.isFinite(options.age) || options.age <= 0 || options.age > MAX_AGE) {
+      throw new HealthKitError(
+        'ERR_HEALTHKIT_INVALID_ARGUMENT',
+        `age must be between 0 and ${MAX_AGE}, got ${options.age}`
+      );
+    }
+    return 220 - options.age;
+  }
+  throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'Either maxHR or age is required');
+}
+
+// Resting heart rate has to sit below the maximum, or Karvonen zones run downwards
+function requireRestingHR(restingHR: number, maxHR: number): void {
+  if (!Number.isFinite(restingHR) || restingHR <= 0 || restingHR >= maxHR) {
+    throw new HealthKitError(
+      'ERR_HEALTHKIT_INVALID_ARGUMENT',
+      `restingHR must be above 0 and below maxHR (${maxHR} bpm), got ${restingHR}`
+    );
+  }
+}
+
+/**
+ * Compute zone boundaries. Unlike `analyzeWorkoutHeartRate`, this never
+ * reads HealthKit, so `karvonen` needs `restingHR`.
+ * @param options - Zone model and the heart rates it needs
+ * @returns The zones, lowest first
+ */
+export function calculateHeartRateZones(options: HeartRateZoneOptions): HeartRateZone[] {
+  const zoneModel = options.zoneModel ?? 'percentMax';
+  let bounds: number[];
+
+  if (zoneModel === 'custom') {
+    bounds = options.thresholds ?? [];
+    requireAscending(bounds, 'thresholds');
+    bounds.forEach((threshold, i) => requireHeartRate(threshold, `thresholds[${i}]`));
+  } else {
+    const percentages = options.zonePercentages ?? DEFAULT_ZONE_PERCENTAGES;
+    requireAscending(percentages, 'zonePercentages');
+    const maxHR = resolveMaxHR(options);
+    if (zoneModel === 'karvonen') {
+      if (options.restingHR === undefined) {
+        throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'Karvonen zones need restingHR');
+      }
+      const restingHR = options.restingHR;
+      requireRestingHR(restingHR, maxHR);
+      bounds = percentages.map((percent) => restingHR + (percent / 100) * (maxHR - restingHR));
+    } else {
+      bounds = percentages.map((percent) => (percent / 100) * maxHR);
+    }
+  }
+
+  return bounds.map((minBpm, i) => ({
+    zone: i + 1,
+    minBpm: Math.round(minBpm),
+    maxBpm: i + 1 < bounds.length ? Math.round(bounds[i + 1]) : null,
+  }));
+}
+
+function zoneIndex(zones: HeartRateZone[], bpm: number): number {
+  for (let i = zones.length - 1; i >= 0; i--) {
+    if (bpm >= zones[i].minBpm) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Summarize heart rate samples against a set of zones
+ * @param samples - Heart rate samples, in any order
+ * @param zones - Zones from `calculateHeartRateZones`
+ * @param endDate - End of the measured window in seconds; the last sample counts until then
+ */
+export function summarizeHeartRate(
+  samples: QuantitySample[],
+  zones: HeartRateZone[],
+  endDate: number
+): Omit<WorkoutHeartRateAnalysis, 'workoutId'> {
+  const sorted = [...samples].sort((a, b) => a.startDate - b.startDate);
+  const durations = zones.map(() => 0);
+  let belowZones = 0;
+
+  sorted.forEach((sample, i) => {
+    const next = i + 1 < sorted.length ? sorted[i + 1].startDate : endDate;
+    const duration = Math.min(Math.max(next - sample.startDate, 0), MAX_SAMPLE_SECONDS);
+    const index = zoneIndex(zones, sample.value);
+    if (index === -1) {
+      belowZones += duration;
+    } else {
+      durations[index] += duration;
+    }
+  });
+
+  const measured = durations.reduce((total, duration) => total + duration, belowZones);
+  const values = sorted.map((sample) => sample.value);
+  return {
+    averageHR: values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null,
+    maxHR: values.length > 0 ? Math.max(...values) : null,
+    minHR: values.length > 0 ? Math.min(...values) : null,
+    zones: zones.map((zone, i) => ({
+      ...zone,
+      duration: durations[i],
+      fraction: measured > 0 ? durations[i] / measured : 0,
+    })),
+    belowZones,
+    series: sorted.map((sample) => ({ timestamp: sample.startDate, bpm: sample.value })),
+  };
+}
+
+/**
+ * Read the heart rate recorded during a workout and break it down by zone
+ * @param workout - A workout from `queryWorkouts`
+ * @param options - Zone model and the heart rates it needs. Karvonen zones
+ * use the latest resting heart rate from the week before the workout unless
+ * `restingHR` is given.
+ * @throws HealthKitError with `ERR_HEALTHKIT_NOT_FOUND` if Karvonen zones
+ * need a resting heart rate and none is recorded
+ */
+export async function analyzeWorkoutHeartRate(
+  workout: Pick<Workout, 'id' | 'startDate' | 'endDate'>,
+  options: HeartRateZoneOptions = {}
+): Promise<WorkoutHeartRateAnalysis> {
+  let restingHR = options.restingHR;
+  if (options.zoneModel === 'karvonen' && restingHR === undefined) {
+    resolveMaxHR(options);
+    const resting = await getRestingHeartRate(
+      epochSeconds(workout.startDate - RESTING_HR_LOOKBACK_SECONDS),
+      epochSeconds(workout.startDate)
+    );
+    if (resting === null) {
+      throw new HealthKitError('ERR_HEALTHKIT_NOT_FOUND', 'No resting heart rate recorded for Karvonen zones');
+    }
+    restingHR = resting;
+  }
+
+  const zones = calculateHeartRateZones({ ...options, restingHR });
+  const samples = await getHeartRateSamples(epochSeconds(workout.startDate), epochSeconds(workout.endDate));
+  return { workoutId: workout.id, ...summarizeHeartRate(samples, zones, workout.endDate) };
+}
@@ -0,0 +1,280 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AppState } from 'react-native';
+import {
+  isAvailable,
+  requestAuthorization,
+  getSteps,
+  getLatestWeight,
+  getHeartRateSamples,
+  queryWorkouts,
+} from './ExpoHealthKit';
+import { resolveDataType } from './dataTypes';
+import { toEpochSeconds } from './dates';
+import type { DateInput } from './dates';
+import { normalizeError } from './errors';
+import type { HealthKitError } from './errors';
+import type { MassUnit } from './units';
+import { addWriteListener } from './writes';
+import type { DataType, QuantitySample, QueryOptions, Workout, WorkoutUnits } from './types';
+
+/**
+ * A date range for hooks. Leave out `endDate` to read up to the moment
+ * each fetch runs; a `new Date()` created during render would change on
+ * every render and refetch each time.
+ */
+export interface HealthRange {
+  startDate: DateInput;
+  endDate?: DateInput;
+}
+
+export interface HealthQueryOptions {
+  /** Set to false to skip fetching, e.g. until authorization is granted (default true) */
+  enabled?: boolean;
+  /** Refetch when the app comes back to the foreground or the screen gains focus (default true) */
+  refetchOnFocus?: boolean;
+  /**
+   * Subscribe to the screen gaining focus, for refetching when the user
+   * navigates back to it, e.g. with React Navigation or expo-router:
+   * `(listener) => navigation.addListener('focus', listener)`. Returns a
+   * function that removes the listener.
+   */
+  subscribeToFocus?: (listener: () => void) => () => void;
+}
+
+export interface HealthQueryResult<T> {
+  /** The latest result; kept while a refetch is in flight */
+  data: T | undefined;
+  /** The error of the latest fetch, or null if it succeeded */
+  error: HealthKitError | null;
+  isLoading: boolean;
+  refetch: () => Promise<void>;
+}
+
+interface HealthQueryState<T> {
+  data: T | undefined;
+  error: HealthKitError | null;
+  isLoading: boolean;
+}
+
+// Keys are built from the dates' values so equal dates created on every
+// render do not trigger a refetch. Invalid dates are left for the query to
+// reject, so they surface as `error` instead of throwing during render.
+function dateKey(input: DateInput | undefined): string {
+  if (input === undefined) {
+    return '';
+  }
+  try {
+    return String(toEpochSeconds(input));
+  } catch {
+    return String(input);
+  }
+}
+
+function rangeKey(range: HealthRange): string {
+  return `${dateKey(range.startDate)}-${range.endDate === undefined ? 'now' : dateKey(range.endDate)}`;
+}
+
+function resolveRange(range: HealthRange): { startDate: DateInput; endDate: DateInput } {
+  return { startDate: range.startDate, endDate: range.endDate ?? new Date() };
+}
+
+/**
+ * Run any HealthKit read as a hook. The other hooks are built on it.
+ * @param key - Identifies the query; the query reruns whenever it changes
+ * @param types - Data types the query reads; a successful save or delete of
+ * any of them through this module refetches
+ * @param query - The read to run
+ * @param options - Enabling and focus behaviour
+ * @returns The result with loading and error state. Results of superseded
+ * fetches are dropped, so a slow old request never overwrites a newer one.
+ */
+export function useHealthQuery<T>(
+  key: string,
+  types: DataType[],
+  query: () => Promise<T>,
+  options: HealthQueryOptions = {}
+): HealthQueryResult<T> {
+  const enabled = options.enabled ?? true;
+  const refetchOnFocus = options.refetchOnFocus ?? true;
+  const [state, setState] = useState<HealthQueryState<T>>({ data: undefined, error: null, isLoading: enabled });
+  const queryRef = useRef(query);
+  const subscribeToFocusRef = useRef(options.subscribeToFocus);
+  const requestId = useRef(0);
+  const typesKey = types.map((type) => resolveDataType(type) ?? type).join(',');
+
+  useEffect(() => {
+    queryRef.current = query;
+    subscribeToFocusRef.current = options.subscribeToFocus;
+  });
+
+  const fetchData = useCallback(async () => {
+    const id = ++requestId.current;
+    setState((previous) => ({ ...previous, isLoading: true }));
+    try {
+      const data = await queryRef.current();
+      if (id === requestId.current) {
+        setState({ data, error: null, isLoading: false });
+      }
+    } catch (error) {
+      if (id === requestId.current) {
+        setState((previous) => ({ data: previous.data, error: normalizeError(error), isLoading: false }));
+      }
+    }
+  }, []);
+
+  // A cancelled fetch never settles the state, so stop loading here
+  const cancel = useCallback(() => {
+    requestId.current += 1;
+    setState((previous) => (previous.isLoading ? { ...previous, isLoading: false } : previous));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    fetchData();
+    return cancel;
+  }, [key, enabled, fetchData, cancel]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const watched = new Set(typesKey.split(','));
+    return addWriteListener((written) => {
+      if (written.some((type) => watched.has(type))) {
+        fetchData();
+      }
+    });
+  }, [typesKey, enabled, fetchData]);
+
+  useEffect(() => {
+    if (!enabled || !refetchOnFocus) {
+      return;
+    }
+    let previousState = AppState.currentState;
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      if (previousState !== 'active' && nextState === 'active') {
+        fetchData();
+      }
+      previousState = nextState;
+    });
+    const unsubscribeFromFocus = subscribeToFocusRef.current?.(() => fetchData());
+    return () => {
+      subscription.remove();
+      unsubscribeFromFocus?.();
+    };
+  }, [enabled, refetchOnFocus, fetchData]);
+
+  return { ...state, refetch: fetchData };
+}
+
+export interface HealthKitAuthorizationState {
+  /** Whether HealthKit exists on this device */
+  isAvailable: boolean;
+  isRequesting: boolean;
+  /** Whether the request has completed in this session */
+  hasRequested: boolean;
+  error: HealthKitError | null;
+  /** Show the permission sheet; resolves to true if the request completed */
+  requestAuthorization: () => Promise<boolean>;
+}
+
+/**
+ * Request access to data types from a component
+ * @param readTypes - Data types to request read access for
+ * @param writeTypes - Data types to request write access for
+ */
+export function useHealthKitAuthorization(
+  readTypes: DataType[] = [],
+  writeTypes: DataType[] = []
+): HealthKitAuthorizationState {
+  const [available] = useState(isAvailable);
+  const [state, setState] = useState<Pick<HealthKitAuthorizationState, 'isRequesting' | 'hasRequested' | 'error'>>({
+    isRequesting: false,
+    hasRequested: false,
+    error: null,
+  });
+  const readKey = readTypes.join(',');
+  const writeKey = writeTypes.join(',');
+
+  const request = useCallback(async () => {
+    setState((previous) => ({ ...previous, isRequesting: true, error: null }));
+    try {
+      await requestAuthorization(
+        readKey ? (readKey.split(',') as DataType[]) : [],
+        writeKey ? (writeKey.split(',') as DataType[]) : []
+      );
+      setState({ isRequesting: false, hasRequested: true, error: null });
+      return true;
+    } catch (error) {
+      setState((previous) => ({ ...previous, isRequesting: false, error: normalizeError(error) }));
+      return false;
+    }
+  }, [readKey, writeKey]);
+
+  return { isAvailable: available, ...state, requestAuthorization: request };
+}
+
+/**
+ * Total step count for a range
+ */
+export function useSteps(range: HealthRange, options: HealthQueryOptions = {}): HealthQueryResult<number> {
+  return useHealthQuery(
+    `steps:${rangeKey(range)}`,
+    ['StepCount'],
+    () => {
+      const { startDate, endDate } = resolveRange(range);
+      return getSteps(startDate, endDate);
+    },
+    options
+  );
+}
+
+/**
+ * The most recent weight, in kilograms unless `unit` is given
+ */
+export function useLatestWeight(
+  unit?: MassUnit,
+  options: HealthQueryOptions = {}
+): HealthQueryResult<number | null> {
+  return useHealthQuery(`latestWeight:${unit ?? ''}`, ['BodyMass'], () => getLatestWeight(unit), options);
+}
+
+/**
+ * Heart rate samples (bpm) for a range, newest first
+ */
+export function useHeartRateSamples(
+  range: HealthRange & { limit?: number },
+  options: HealthQueryOptions = {}
+): HealthQueryResult<QuantitySample[]> {
+  return useHealthQuery(
+    `heartRate:${rangeKey(range)}:${range.limit ?? ''}`,
+    ['HeartRate'],
+    () => {
+      const { startDate, endDate } = resolveRange(range);
+      return getHeartRateSamples(startDate, endDate, range.limit);
+    },
+    options
+  );
+}
+
+/**
+ * Workouts matching the query options, newest first
+ */
+export function useWorkouts(
+  queryOptions: QueryOptions = {},
+  options: HealthQueryOptions & { units?: WorkoutUnits } = {}
+): HealthQueryResult<Workout[]> {
+  const { startDate, endDate, limit } = queryOptions;
+  const { units = {} } = options;
+  const key = [
+    dateKey(startDate),
+    dateKey(endDate),
+    limit ?? '',
+    units.distance ?? '',
+    units.energy ?? '',
+    units.temperature ?? '',
+  ].join(':');
+  return useHealthQuery(`workouts:${key}`, ['Workout'], () => queryWorkouts(queryOptions, units), options);
+}
@@ -0,0 +1,857 @@
+import {
+  getBloodPressureSamples,
+  prepareSample,
+  queryQuantitySamples,
+  queryWorkouts,
+  saveSamples,
+} from './ExpoHealthKit';
+import { parseActivityType } from './activityTypes';
+import { isNutrientType, resolveDataType } from './dataTypes';
+import type { CanonicalDataType } from './dataTypes';
+import { epochSeconds, toOptionalEpochSeconds } from './dates';
+import type { DateInput } from './dates';
+import { HealthKitError, normalizeError } from './errors';
+import { convert, getCanonicalUnit } from './units';
+import type { Unit } from './units';
+import type {
+  BloodPressureSample,
+  DataType,
+  NutrientType,
+  QuantitySample,
+  SampleInput,
+  SaveSampleResult,
+  SleepSample,
+  SwimmingLocation,
+  SwimmingStrokeStyle,
+  Workout,
+  WorkoutEvent,
+  WorkoutEventType,
+  WorkoutMetadata,
+} from './types';
+
+/**
+ * The contents of an export.xml file: the whole text, or chunks of it in
+ * order, e.g. read from disk piece by piece
+ */
+export type HealthExportSource = string | Iterable<string> | AsyncIterable<string>;
+
+/**
+ * A day of Activity rings. Energy is in kilocalories, times in minutes.
+ */
+export interface ActivitySummary {
+  /** Local date, YYYY-MM-DD */
+  date: string;
+  activeEnergyBurned: number;
+  activeEnergyBurnedGoal: number;
+  exerciseTime: number;
+  exerciseTimeGoal: number;
+  standHours: number;
+  standHoursGoal: number;
+}
+
+/**
+ * A record parsed from an export. Values are in each type's canonical unit
+ * and dates in seconds since epoch, like the query functions return.
+ * Exports carry no UUIDs, so `id` is built from the type, dates and value.
+ */
+export type HealthExportRecord =
+  | { kind: 'quantity'; dataType: CanonicalDataType; sample: QuantitySample; sourceName?: string }
+  | { kind: 'sleep'; sample: SleepSample; sourceName?: string }
+  | { kind: 'bloodPressure'; reading: BloodPressureSample; sourceName?: string }
+  | { kind: 'workout'; workout: Workout; sourceName?: string }
+  | { kind: 'activitySummary'; summary: ActivitySummary };
+
+/**
+ * What an import can write: the types with a save function, and blood
+ * pressure readings (which pair a systolic and a diastolic sample)
+ */
+export type HealthImportType = 'Height' | 'BodyMass' | 'BodyFatPercentage' | NutrientType | 'BloodPressure' | 'Workout';
+
+export interface HealthImportOptions {
+  /** Types to write, by any alias (default: every importable type) */
+  types?: (DataType | 'BloodPressure')[];
+  /** Only records starting at or after this date */
+  startDate?: DateInput;
+  /** Only records starting before this date */
+  endDate?: DateInput;
+  /** Return false to leave a record out */
+  filter?: (record: HealthExportRecord) => boolean;
+  /** Count what would be written without writing anything */
+  dryRun?: boolean;
+  /** Records checked for duplicates and written together (default 200) */
+  batchSize?: number;
+  /** Called after every batch */
+  onProgress?: (progress: HealthImportProgress) => void;
+}
+
+export interface HealthImportProgress {
+  /** Records parsed so far */
+  processed: number;
+  imported: number;
+  duplicates: number;
+}
+
+export interface HealthImportResult {
+  /** Records written (or that would be written in a dry run), per type */
+  imported: Partial<Record<HealthImportType, number>>;
+  /** Records already in HealthKit, or repeated earlier in the file */
+  duplicates: number;
+  /** Records of types that cannot be written, were not selected or were filtered out */
+  skipped: number;
+  /** Records that failed validation (also in a dry run) or that HealthKit refused, e.g. without write access */
+  failed: { record: HealthExportRecord; error: HealthKitError }[];
+  dryRun: boolean;
+}
+
+// ======================
+// XML
+// ======================
+
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+const ENTITIES = new Map(Object.entries({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }));
+
+// Comments, CDATA and processing instructions end at a fixed sequence
+const TERMINATORS: [string, string][] = [
+  ['<!--', '-->'],
+  ['<![CDATA[', ']]>'],
+  ['<?', '?>'],
+];
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const hex = entity[1] === 'x' || entity[1] === 'X';
+      return String.fromCodePoint(hex ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES.get(entity) ?? match;
+  });
+}
+
+function parseTag(tag: string): XmlNode {
+  const name = /^[^\s/>]+/.exec(tag)?.[0] ?? '';
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag.slice(name.length))) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return { name, attributes, children: [] };
+}
+
+// Index just past the end of the markup starting at `start`, or -1 if the
+// buffer ends first. Quotes are skipped so a '>' inside an attribute value
+// does not end the tag, and brackets so a DOCTYPE's internal subset does not.
+function markupEnd(buffer: string, start: number): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = start + 1; i < buffer.length; i++) {
+    const char = buffer[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']') {
+      depth--;
+    } else if (char === '>' && depth <= 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+async function* readChunks(source: HealthExportSource): AsyncGenerator<string, void, undefined> {
+  if (typeof source === 'string') {
+    yield source;
+    return;
+  }
+  for await (const chunk of source) {
+    yield chunk;
+  }
+}
+
+/**
+ * Yield each child of the root element with its descendants, as soon as it
+ * is closed. Only one top-level element is held in memory at a time.
+ */
+async function* parseNodes(source: HealthExportSource): AsyncGenerator<XmlNode, void, undefined> {
+  const stack: XmlNode[] = [];
+  let buffer = '';
+
+  for await (const chunk of readChunks(source)) {
+    buffer += chunk;
+    let position = 0;
+
+    while (true) {
+      const start = buffer.indexOf('<', position);
+      if (start === -1) {
+        position = buffer.length;
+        break;
+      }
+
+      const terminator = TERMINATORS.find(([opening]) => buffer.startsWith(opening, start))?.[1];
+      let end = markupEnd(buffer, start);
+      if (terminator) {
+        const index = buffer.indexOf(terminator, start);
+        end = index === -1 ? -1 : index + terminator.length;
+      }
+      if (end === -1) {
+        position = start;
+        break;
+      }
+      position = end;
+      if (terminator || buffer[start + 1] === '!') {
+        continue;
+      }
+
+      const tag = buffer.slice(start + 1, end - 1).trim();
+      if (tag.startsWith('/')) {
+        const node = stack.pop();
+        if (node && stack.length === 1) {
+          yield node;
+        }
+        continue;
+      }
+
+      const node = parseTag(tag);
+      const selfClosing = tag.endsWith('/');
+      // Children of the root are yielded rather than kept
+      if (stack.length >= 2) {
+        stack[stack.length - 1].children.push(node);
+      }
+      if (!selfClosing) {
+        stack.push(node);
+      } else if (stack.length === 1) {
+        yield node;
+      }
+    }
+
+    buffer = buffer.slice(position);
+  }
+
+  if (stack.length > 0 || buffer.trim() !== '') {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', 'The export ends in the middle of an element');
+  }
+}
+
+// ======================
+// Mapping
+// ======================
+
+const QUANTITY_IDENTIFIERS = new Map<string, CanonicalDataType>(Object.entries({
+  HKQuantityTypeIdentifierStepCount: 'StepCount',
+  HKQuantityTypeIdentifierDistanceWalkingRunning: 'DistanceWalkingRunning',
+  HKQuantityTypeIdentifierDistanceCycling: 'DistanceCycling',
+  HKQuantityTypeIdentifierDistanceSwimming: 'DistanceSwimming',
+  HKQuantityTypeIdentifierFlightsClimbed: 'FlightsClimbed',
+  HKQuantityTypeIdentifierActiveEnergyBurned: 'ActiveEnergyBurned',
+  HKQuantityTypeIdentifierBasalEnergyBurned: 'BasalEnergyBurned',
+  HKQuantityTypeIdentifierHeight: 'Height',
+  HKQuantityTypeIdentifierBodyMass: 'BodyMass',
+  HKQuantityTypeIdentifierBodyMassIndex: 'BodyMassIndex',
+  HKQuantityTypeIdentifierBodyFatPercentage: 'BodyFatPercentage',
+  HKQuantityTypeIdentifierLeanBodyMass: 'LeanBodyMass',
+  HKQuantityTypeIdentifierHeartRate: 'HeartRate',
+  HKQuantityTypeIdentifierRestingHeartRate: 'RestingHeartRate',
+  HKQuantityTypeIdentifierHeartRateVariabilitySDNN: 'HeartRateVariability',
+  HKQuantityTypeIdentifierBloodPressureSystolic: 'BloodPressureSystolic',
+  HKQuantityTypeIdentifierBloodPressureDiastolic: 'BloodPressureDiastolic',
+  HKQuantityTypeIdentifierRespiratoryRate: 'RespiratoryRate',
+  HKQuantityTypeIdentifierOxygenSaturation: 'OxygenSaturation',
+  HKQuantityTypeIdentifierBodyTemperature: 'BodyTemperature',
+  HKQuantityTypeIdentifierDietaryEnergyConsumed: 'DietaryEnergy',
+  HKQuantityTypeIdentifierDietaryProtein: 'DietaryProtein',
+  HKQuantityTypeIdentifierDietaryCarbohydrates: 'DietaryCarbohydrates',
+  HKQuantityTypeIdentifierDietaryFatTotal: 'DietaryFatTotal',
+  HKQuantityTypeIdentifierDietaryFiber: 'DietaryFiber',
+  HKQuantityTypeIdentifierDietaryWater: 'DietaryWater',
+  HKQuantityTypeIdentifierDietaryCaffeine: 'DietaryCaffeine',
+  HKQuantityTypeIdentifierDietarySugar: 'DietarySugar',
+  HKQuantityTypeIdentifierDietaryFatSaturated: 'DietaryFatSaturated',
+  HKQuantityTypeIdentifierDietaryFatMonounsaturated: 'DietaryFatMonounsaturated',
+  HKQuantityTypeIdentifierDietaryFatPolyunsaturated: 'DietaryFatPolyunsaturated',
+  HKQuantityTypeIdentifierDietaryCholesterol: 'DietaryCholesterol',
+  HKQuantityTypeIdentifierDietarySodium: 'DietarySodium',
+  HKQuantityTypeIdentifierDietaryVitaminA: 'DietaryVitaminA',
+  HKQuantityTypeIdentifierDietaryThiamin: 'DietaryThiamin',
+  HKQuantityTypeIdentifierDietaryRiboflavin: 'DietaryRiboflavin',
+  HKQuantityTypeIdentifierDietaryNiacin: 'DietaryNiacin',
+  HKQuantityTypeIdentifierDietaryPantothenicAcid: 'DietaryPantothenicAcid',
+  HKQuantityTypeIdentifierDietaryVitaminB6: 'DietaryVitaminB6',
+  HKQuantityTypeIdentifierDietaryBiotin: 'DietaryBiotin',
+  HKQuantityTypeIdentifierDietaryFolate: 'DietaryFolate',
+  HKQuantityTypeIdentifierDietaryVitaminB12: 'DietaryVitaminB12',
+  HKQuantityTypeIdentifierDietaryVitaminC: 'DietaryVitaminC',
+  HKQuantityTypeIdentifierDietaryVitaminD: 'DietaryVitaminD',
+  HKQuantityTypeIdentifierDietaryVitaminE: 'DietaryVitaminE',
+  HKQuantityTypeIdentifierDietaryVitaminK: 'DietaryVitaminK',
+  HKQuantityTypeIdentifierDietaryCalcium: 'DietaryCalcium',
+  HKQuantityTypeIdentifierDietaryChloride: 'DietaryChloride',
+  HKQuantityTypeIdentifierDietaryIron: 'DietaryIron',
+  HKQuantityTypeIdentifierDietaryMagnesium: 'DietaryMagnesium',
+  HKQuantityTypeIdentifierDietaryPhosphorus: 'DietaryPhosphorus',
+  HKQuantityTypeIdentifierDietaryPotassium: 'DietaryPotassium',
+  HKQuantityTypeIdentifierDietaryZinc: 'DietaryZinc',
+  HKQuantityTypeIdentifierDietaryChromium: 'DietaryChromium',
+  HKQuantityTypeIdentifierDietaryCopper: 'DietaryCopper',
+  HKQuantityTypeIdentifierDietaryIodine: 'DietaryIodine',
+  HKQuantityTypeIdentifierDietaryManganese: 'DietaryManganese',
+  HKQuantityTypeIdentifierDietaryMolybdenum: 'DietaryMolybdenum',
+  HKQuantityTypeIdentifierDietarySelenium: 'DietarySelenium',
+}));
+
+const SLEEP_VALUES = new Map<string, SleepSample['value']>(Object.entries({
+  HKCategoryValueSleepAnalysisInBed: 'inBed',
+  HKCategoryValueSleepAnalysisAsleep: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 'asleep',
+  HKCategoryValueSleepAnalysisAwake: 'awake',
+  HKCategoryValueSleepAnalysisAsleepCore: 'core',
+  HKCategoryValueSleepAnalysisAsleepDeep: 'deep',
+  HKCategoryValueSleepAnalysisAsleepREM: 'rem',
+}));
+
+// Units as the Health app writes them. HealthKit's percent unit holds a
+// fraction, so '%' values are 0-1.
+const EXPORT_UNITS = new Map<string, Unit>(Object.entries({
+  '%': 'fraction',
+  Cal: 'kcal',
+  'µg': 'mcg',
+}));
+
+// NaN for values that are missing or in units this library does not know,
+// so the record is left out
+function toUnit(value: string | undefined, unit: string | undefined, to: Unit): number {
+  const parsed = value === undefined ? NaN : parseFloat(value);
+  if (!Number.isFinite(parsed) || unit === undefined) {
+    return NaN;
+  }
+  try {
+    return convert(parsed, EXPORT_UNITS.get(unit) ?? (unit as Unit), to);
+  } catch {
+    return NaN;
+  }
+}
+
+// Export dates look like '2024-05-01 07:30:00 +0200'
+function parseExportDate(value: string | undefined): number {
+  const match = value ? /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/.exec(value) : null;
+  if (!match) {
+    return value ? Date.parse(value) / 1000 : NaN;
+  }
+  const [, year, month, day, hour, minute, second, sign, offsetHours, offsetMinutes] = match;
+  const utc = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second) / 1000;
+  const offset = (+offsetHours * 60 + +offsetMinutes) * 60;
+  return sign === '+' ? utc - offset : utc + offset;
+}
+
+function toCanonical(type: CanonicalDataType, value: string | undefined, unit: string | undefined): number {
+  const canonicalUnit = getCanonicalUnit(type);
+  return canonicalUnit === null ? NaN : toUnit(value, unit, canonicalUnit);
+}
+
+function recordId(type: string, startDate: number, endDate: number, value: string | number): string {
+  return `${type}:${startDate}:${endDate}:${value}`;
+}
+
+function toQuantity(node: XmlNode): HealthExportRecord | null {
+  const { type: identifier, sourceName, unit, value } = node.attributes;
+  const dataType = QUANTITY_IDENTIFIERS.get(identifier);
+  const startDate = parseExportDate(node.attributes.startDate);
+  const endDate = parseExportDate(node.attributes.endDate);
+  const canonicalValue = dataType ? toCanonical(dataType, value, unit) : NaN;
+  if (!dataType || ![startDate, endDate, canonicalValue].every(Number.isFinite)) {
+    return null;
+  }
+  return {
+    kind: 'quantity',
+    dataType,
+    sample: { id: recordId(dataType, startDate, endDate, canonicalValue), value: canonicalValue, startDate, endDate },
+    sourceName,
+  };
+}
+
+function toSleep(node: XmlNode): HealthExportRecord | null {
+  const value = SLEEP_VALUES.get(node.attributes.value);
+  const startDate = parseExportDate(node.attributes.startDate);
+  const endDate = parseExportDate(node.attributes.endDate);
+  if (!value || !Number.isFinite(startDate) || !Number.isFinite(endDate)) {
+    return null;
+  }
+  return {
+    kind: 'sleep',
+    sample: {
+      id: recordId('SleepAnalysis', startDate, endDate, value),
+      value,
+      startDate,
+      endDate,
+      duration: endDate - startDate,
+    },
+    sourceName: node.attributes.sourceName,
+  };
+}
+
+function toBloodPressure(node: XmlNode): HealthExportRecord | null {
+  const component = (type: CanonicalDataType) => {
+    const record = node.children.find((child) => QUANTITY_IDENTIFIERS.get(child.attributes.type) === type);
+    return record ? toCanonical(type, record.attributes.value, record.attributes.unit) : NaN;
+  };
+  const systolic = component('BloodPressureSystolic');
+  const diastolic = component('BloodPressureDiastolic');
+  const timestamp = parseExportDate(node.attributes.startDate);
+  if (![systolic, diastolic, timestamp].every(Number.isFinite)) {
+    return null;
+  }
+  return {
+    kind: 'bloodPressure',
+    reading: {
+      id: recordId('BloodPressure', timestamp, timestamp, `${systolic}/${diastolic}`),
+      systolic,
+      diastolic,
+      timestamp,
+    },
+    sourceName: node.attributes.sourceName,
+  };
+}
+
+function toWorkout(node: XmlNode): HealthExportRecord | null {
+  const { attributes } = node;
+  const startDate = parseExportDate(attributes.startDate);
+  const endDate = parseExportDate(attributes.endDate);
+  const exportedDuration = toUnit(attributes.duration, attributes.durationUnit ?? 'min', 's');
+  const duration = Number.isFinite(exportedDuration) ? exportedDuration : endDate - startDate;
+
+  // Older exports put totals on the workout, newer ones in WorkoutStatistics
+  const statistic = (types: CanonicalDataType[], canonical: CanonicalDataType) => {
+    const child = node.children.find((c) => {
+      const type = QUANTITY_IDENTIFIERS.get(c.attributes.type);
+      return c.name === 'WorkoutStatistics' && type !== undefined && types.includes(type);
+    });
+    return child ? toCanonical(canonical, child.attributes.sum, child.attributes.unit) : NaN;
+  };
+  const totalDistance = toCanonical('DistanceWalkingRunning', attributes.totalDistance, attributes.totalDistanceUnit);
+  const distance = Number.isFinite(totalDistance)
+    ? totalDistance
+    : statistic(['DistanceWalkingRunning', 'DistanceCycling', 'DistanceSwimming'], 'DistanceWalkingRunning');
+  const totalEnergy = toCanonical('ActiveEnergyBurned', attributes.totalEnergyBurned, attributes.totalEnergyBurnedUnit);
+  const calories = Number.isFinite(totalEnergy) ? totalEnergy : statistic(['ActiveEnergyBurned'], 'ActiveEnergyBurned');
+
+  if (!Number.isFinite(startDate) || !Number.isFinite(endDate) || !Number.isFinite(duration)) {
+    return null;
+  }
+  const activityType = parseActivityType(attributes.workoutActivityType ?? '');
+  return {
+    kind: 'workout',
+    workout: {
+      id: recordId('Workout', startDate, endDate, activityType),
+      activityType,
+      startDate,
+      endDate,
+      duration,
+      distance: Number.isFinite(distance) ? distance : 0,
+      calories: Number.isFinite(calories) ? calories : 0,
+      metadata: toWorkoutMetadata(node),
+      events: toWorkoutEvents(node, endDate),
+    },
+    sourceName: attributes.sourceName,
+  };
+}
+
+// HealthKit's enum raw values, as the export writes them
+const SWIMMING_LOCATIONS: SwimmingLocation[] = ['unknown', 'pool', 'openWater'];
+const SWIMMING_STROKE_STYLES: SwimmingStrokeStyle[] = [
+  'unknown',
+  'mixed',
+  'freestyle',
+  'backstroke',
+  'breaststroke',
+  'butterfly',
+  'kickboard',
+];
+
+const WORKOUT_EVENT_TYPES = new Map<string, WorkoutEventType>(Object.entries({
+  HKWorkoutEventTypePause: 'pause',
+  HKWorkoutEventTypeResume: 'resume',
+  HKWorkoutEventTypeMotionPaused: 'motionPaused',
+  HKWorkoutEventTypeMotionResumed: 'motionResumed',
+  HKWorkoutEventTypeLap: 'lap',
+  HKWorkoutEventTypeSegment: 'segment',
+  HKWorkoutEventTypeMarker: 'marker',
+}));
+
+// Quantity metadata is written as '<value> <unit>', e.g. '4537 cm'
+function metadataQuantity(value: string, to: Unit): number {
+  const [amount, unit] = value.split(' ');
+  return toUnit(amount, unit, to);
+}
+
+function metadataEntries(node: XmlNode): Record<string, string> {
+  return Object.fromEntries(
+    node.children
+      .filter((child) => child.name === 'MetadataEntry' && child.attributes.key !== undefined)
+      .map((child) => [child.attributes.key, child.attributes.value ?? ''])
+  );
+}
+
+// Only the keys `WorkoutMetadata` types are read; values that cannot be
+// read are left out
+function toWorkoutMetadata(node: XmlNode): WorkoutMetadata {
+  const entries = metadataEntries(node);
+  const metadata: WorkoutMetadata = {};
+  const set = (key: keyof WorkoutMetadata, value: number | string | boolean | undefined) => {
+    if (value !== undefined && value !== '' && !Number.isNaN(value)) {
+      metadata[key] = value;
+    }
+  };
+  if (entries.HKIndoorWorkout !== undefined) {
+    set('indoor', entries.HKIndoorWorkout === '1');
+  }
+  if (entries.HKElevationAscended !== undefined) {
+    set('elevationAscended', metadataQuantity(entries.HKElevationAscended, 'm'));
+  }
+  if (entries.HKWeatherTemperature !== undefined) {
+    set('weatherTemperature', metadataQuantity(entries.HKWeatherTemperature, 'degC'));
+  }
+  if (entries.HKWeatherHumidity !== undefined) {
+    // The Health app writes 56% humidity as '5600 %'
+    const humidity = parseFloat(entries.HKWeatherHumidity);
+    set('weatherHumidity', humidity > 100 ? humidity / 100 : humidity);
+  }
+  if (entries.HKLapLength !== undefined) {
+    set('lapLength', metadataQuantity(entries.HKLapLength, 'm'));
+  }
+  if (entries.HKSwimmingLocationType !== undefined) {
+    set('swimmingLocation', SWIMMING_LOCATIONS[parseInt(entries.HKSwimmingLocationType, 10)]);
+  }
+  if (entries.HKAverageMETs !== undefined) {
+    set('averageMETs', parseFloat(entries.HKAverageMETs));
+  }
+  return metadata;
+}
+
+// Only laps and segments keep their duration, cut off at the workout's end
+function toWorkoutEvents(node: XmlNode, workoutEnd: number): WorkoutEvent[] {
+  const events: WorkoutEvent[] = [];
+  for (const child of node.children) {
+    const type = WORKOUT_EVENT_TYPES.get(child.attributes.type);
+    const startDate = parseExportDate(child.attributes.date);
+    if (child.name !== 'WorkoutEvent' || !type || !Number.isFinite(startDate)) {
+      continue;
+    }
+    const duration =
+      type === 'lap' || type === 'segment'
+        ? toUnit(child.attributes.duration, child.attributes.durationUnit ?? 'min', 's')
+        : NaN;
+    const style = SWIMMING_STROKE_STYLES[parseInt(metadataEntries(child).HKSwimmingStrokeStyle, 10)];
+    events.push({
+      type,
+      startDate,
+      endDate: Number.isFinite(duration) ? Math.min(startDate + duration, workoutEnd) : startDate,
+      metadata: style ? { swimmingStrokeStyle: style } : {},
+    });
+  }
+  return events.sort((a, b) => a.startDate - b.startDate);
+}
+
+function toActivitySummary(node: XmlNode): HealthExportRecord | null {
+  const { attributes } = node;
+  const number = (name: string, unit: string, to: Unit) => {
+    const value = toUnit(attributes[name], unit, to);
+    return Number.isFinite(value) ? value : 0;
+  };
+  if (!attributes.dateComponents) {
+    return null;
+  }
+  const energyUnit = attributes.activeEnergyBurnedUnit ?? 'kcal';
+  return {
+    kind: 'activitySummary',
+    summary: {
+      date: attributes.dateComponents,
+      activeEnergyBurned: number('activeEnergyBurned', energyUnit, 'kcal'),
+      activeEnergyBurnedGoal: number('activeEnergyBurnedGoal', energyUnit, 'kcal'),
+      exerciseTime: number('appleExerciseTime', 'min', 'min'),
+      exerciseTimeGoal: number('appleExerciseTimeGoal', 'min', 'min'),
+      standHours: number('appleStandHours', 'count', 'count'),
+      standHoursGoal: number('appleStandHoursGoal', 'count', 'count'),
+    },
+  };
+}
+
+function toRecord(node: XmlNode): HealthExportRecord | null {
+  switch (node.name) {
+    case 'Record':
+      return node.attributes.type === 'HKCategoryTypeIdentifierSleepAnalysis' ? toSleep(node) : toQuantity(node);
+    case 'Correlation':
+      return node.attributes.type === 'HKCorrelationTypeIdentifierBloodPressure' ? toBloodPressure(node) : null;
+    case 'Workout':
+      return toWorkout(node);
+    case 'ActivitySummary':
+      return toActivitySummary(node);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse an Apple Health export.xml, yielding records as they are read.
+ * `Record`, `Workout`, `ActivitySummary` and blood pressure `Correlation`
+ * elements are mapped onto this library's types; record types it does not
+ * support, and records with values it cannot read, are left out.
+ *
+ * Blood pressure appears twice in an export: as a correlation, yielded as a
+ * `bloodPressure` record, and as its separate systolic and diastolic
+ * samples, yielded as `quantity` records.
+ * @param source - The file contents, whole or in chunks
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if the file is truncated
+ */
+export async function* parseHealthExport(
+  source: HealthExportSource
+): AsyncGenerator<HealthExportRecord, void, undefined> {
+  for await (const node of parseNodes(source)) {
+    const record = toRecord(node);
+    if (record) {
+      yield record;
+    }
+  }
+}
+
+// ======================
+// Import
+// ======================
+
+const IMPORT_TYPES: HealthImportType[] = [
+  'Height',
+  'BodyMass',
+  'BodyFatPercentage',
+  ...[...new Set(QUANTITY_IDENTIFIERS.values())].filter((type): type is NutrientType => isNutrientType(type)),
+  'BloodPressure',
+  'Workout',
+];
+
+function importTypeOf(record: HealthExportRecord): HealthImportType | null {
+  if (record.kind === 'bloodPressure') {
+    return 'BloodPressure';
+  }
+  if (record.kind === 'workout') {
+    return 'Workout';
+  }
+  if (record.kind === 'quantity' && (IMPORT_TYPES as string[]).includes(record.dataType)) {
+    return record.dataType as HealthImportType;
+  }
+  return null;
+}
+
+function startOf(record: HealthExportRecord): number {
+  switch (record.kind) {
+    case 'quantity':
+    case 'sleep':
+      return record.sample.startDate;
+    case 'bloodPressure':
+      return record.reading.timestamp;
+    case 'workout':
+      return record.workout.startDate;
+    case 'activitySummary':
+      return NaN;
+  }
+}
+
+// Samples match when they start in the same second with the same value
+function sampleKey(startDate: number, value: number): string {
+  return `${Math.round(startDate)}:${value.toFixed(3)}`;
+}
+
+// Workouts match when they cover the same seconds with the same activity
+function workoutKey(workout: Workout): string {
+  return `${Math.round(workout.startDate)}:${Math.round(workout.endDate)}:${workout.activityType}`;
+}
+
+function duplicateKey(record: HealthExportRecord): string {
+  switch (record.kind) {
+    case 'bloodPressure':
+      return sampleKey(record.reading.timestamp, record.reading.systolic);
+    case 'workout':
+      return workoutKey(record.workout);
+    case 'quantity':
+      return sampleKey(record.sample.startDate, record.sample.value);
+    default:
+      return '';
+  }
+}
+
+// Read what HealthKit already has in the batch's time span
+async function existingKeys(type: HealthImportType, records: HealthExportRecord[]): Promise<Set<string>> {
+  const starts = records.map(startOf);
+  const range = { startDate: epochSeconds(Math.min(...starts)), endDate: epochSeconds(Math.max(...starts) + 1) };
+  if (type === 'Workout') {
+    const workouts = await queryWorkouts(range);
+    return new Set(workouts.map(workoutKey));
+  }
+  if (type === 'BloodPressure') {
+    const readings = await getBloodPressureSamples(range.startDate, range.endDate);
+    return new Set(readings.map((reading) => sampleKey(reading.timestamp, reading.systolic)));
+  }
+  const samples = await queryQuantitySamples(type, range);
+  return new Set(samples.map((sample) => sampleKey(sample.startDate, sample.value)));
+}
+
+// Only called for records importTypeOf accepted, so never for sleep or summaries
+function toSampleInput(record: HealthExportRecord): SampleInput {
+  if (record.kind === 'bloodPressure') {
+    const { systolic, diastolic, timestamp } = record.reading;
+    return { kind: 'bloodPressure', systolic, diastolic, date: epochSeconds(timestamp) };
+  }
+  if (record.kind === 'workout') {
+    const { startDate, endDate, duration, distance, calories, activityType, metadata, events } = record.workout;
+    return {
+      kind: 'workout',
+      startDate: epochSeconds(startDate),
+      endDate: epochSeconds(endDate),
+      duration,
+      distance,
+      calories,
+      activityType,
+      metadata,
+      events: events.map((event) => ({
+        ...event,
+        startDate: epochSeconds(event.startDate),
+        endDate: epochSeconds(event.endDate),
+      })),
+    };
+  }
+  if (record.kind === 'quantity') {
+    const { value, startDate, endDate } = record.sample;
+    return {
+      kind: 'quantity',
+      dataType: record.dataType,
+      value,
+      startDate: epochSeconds(startDate),
+      endDate: epochSeconds(endDate),
+    };
+  }
+  throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${record.kind} records cannot be imported`);
+}
+
+/**
+ * Write the records of an Apple Health export.xml back to HealthKit, one
+ * `saveSamples` call per batch. Records already in HealthKit (same type, start and
+ * value; workouts by start, end and activity type) are skipped, as are
+ * repeats within the file. A dry run writes nothing, so it only catches a
+ * repeat that falls in the same batch as the original.
+ *
+ * Height, weight, body fat, every dietary nutrient, blood pressure and
+ * workouts can be written. Workouts are saved with their totals, metadata
+ * and events; routes are not part of export.xml.
+ *
+ * Run with `dryRun: true` first to show the user what would be imported.
+ * @param source - The file contents, whole or in chunks
+ * @param options - Types and dates to import, a filter, dry run and progress
+ * @returns Counts of imported, duplicate and skipped records, and failures
+ */
+export async function importHealthExport(
+  source: HealthExportSource,
+  options: HealthImportOptions = {}
+): Promise<HealthImportResult> {
+  const selected = new Set<HealthImportType>();
+  for (const type of options.types ?? IMPORT_TYPES) {
+    const canonical = type === 'BloodPressure' ? 'BloodPressure' : resolveDataType(type);
+    if (!canonical || !(IMPORT_TYPES as string[]).includes(canonical)) {
+      throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${type} cannot be imported`);
+    }
+    selected.add(canonical as HealthImportType);
+  }
+  const start = toOptionalEpochSeconds(options.startDate, 'startDate') ?? -Infinity;
+  const end = toOptionalEpochSeconds(options.endDate, 'endDate') ?? Infinity;
+  const batchSize = options.batchSize ?? 200;
+  const dryRun = options.dryRun ?? false;
+
+  const result: HealthImportResult = { imported: {}, duplicates: 0, skipped: 0, failed: [], dryRun };
+  let processed = 0;
+  let imported = 0;
+  let batch: { type: HealthImportType; record: HealthExportRecord }[] = [];
+
+  const flush = async () => {
+    const byType = new Map<HealthImportType, HealthExportRecord[]>();
+    for (const { type, record } of batch) {
+      byType.set(type, [...(byType.get(type) ?? []), record]);
+    }
+    batch = [];
+
+    // Repeats in earlier batches are found in HealthKit once written, so
+    // only this batch's keys are kept and memory stays bounded
+    const seen = new Set<string>();
+    const toWrite: { type: HealthImportType; record: HealthExportRecord }[] = [];
+    for (const [type, records] of byType) {
+      const existing = await existingKeys(type, records);
+      for (const record of records) {
+        const key = `${type}:${duplicateKey(record)}`;
+        if (existing.has(duplicateKey(record)) || seen.has(key)) {
+          result.duplicates++;
+          continue;
+        }
+        seen.add(key);
+        toWrite.push({ type, record });
+      }
+    }
+
+    let results: SaveSampleResult[];
+    if (dryRun) {
+      // Check each record like saveSamples would, so invalid ones fail here too
+      results = toWrite.map(({ record }, i): SaveSampleResult => {
+        try {
+          prepareSample(toSampleInput(record), i);
+          return { success: true, id: '' };
+        } catch (error) {
+          return { success: false, error: normalizeError(error) };
+        }
+      });
+    } else if (toWrite.length === 0) {
+      results = [];
+    } else {
+      try {
+        results = await saveSamples(toWrite.map(({ record }) => toSampleInput(record)));
+      } catch (error) {
+        const healthKitError = normalizeError(error);
+        results = toWrite.map(() => ({ success: false, error: healthKitError }));
+      }
+    }
+    toWrite.forEach(({ type, record }, i) => {
+      const saved = results[i];
+      if (saved.success) {
+        result.imported[type] = (result.imported[type] ?? 0) + 1;
+        imported++;
+      } else {
+        result.failed.push({ record, error: saved.error });
+      }
+    });
+    options.onProgress?.({ processed, imported, duplicates: result.duplicates });
+  };
+
+  for await (const record of parseHealthExport(source)) {
+    processed++;
+    const type = importTypeOf(record);
+    const startDate = startOf(record);
+    if (
+      !type ||
+      !selected.has(type) ||
+      startDate < start ||
+      startDate >= end ||
+      (options.filter && !options.filter(record))
+    ) {
+      result.skipped++;
+      continue;
+    }
+    batch.push({ type, record });
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  await flush();
+  return result;
+}
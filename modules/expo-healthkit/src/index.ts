@@ -2,11 +2,15 @@ export {
   // Core
   isAvailable,
   requestAuthorization,
+  getAuthorizationStatus,
+  getRequestStatus,
+  getAuthorizationSummary,
 
   // Workouts
   saveWorkout,
   queryWorkouts,
   deleteWorkout,
+  getWorkoutRoute,
   getTotalDistance,
   getTotalCalories,
 
@@ -29,6 +33,8 @@ export {
   getRestingHeartRate,
   getOxygenSaturation,
   saveBloodPressure,
+  getBloodPressureSamples,
+  deleteBloodPressure,
 
   // Sleep
   getSleepSamples,
@@ -40,15 +46,274 @@ export {
   saveProtein,
   saveCarbs,
   saveFat,
+  saveFoodEntry,
+  getFoodEntries,
+
+  // Batch Writes
+  saveSamples,
+
+  // Quantity Samples
+  queryQuantitySamples,
+
+  // Pagination
+  queryWorkoutsPage,
+  queryQuantitySamplesPage,
+  getHeartRateSamplesPage,
+  iterateWorkouts,
+  iterateQuantitySamples,
+  iterateHeartRate,
+
+  // Changes
+  getChanges,
+
+  // Statistics
+  getStatisticsCollection,
 } from './ExpoHealthKit';
 
 export type {
   ActivityType,
   DataType,
+  AuthorizationStatus,
+  AuthorizationRequestStatus,
+  AuthorizationNextStep,
+  AuthorizationSummary,
   WorkoutData,
+  WorkoutUnits,
   Workout,
+  WorkoutMetadata,
+  WorkoutEventMetadata,
+  WorkoutEventType,
+  WorkoutEventData,
+  WorkoutEvent,
+  SwimmingLocation,
+  SwimmingStrokeStyle,
+  MetadataValue,
+  WorkoutRouteLocation,
+  WorkoutRoutePoint,
   QueryOptions,
+  QuantityQueryOptions,
+  PageOptions,
+  PaginatedQueryOptions,
+  QuantityPageOptions,
+  Page,
+  SampleFor,
+  ChangesOptions,
+  Changes,
   QuantitySample,
   SleepSample,
   BloodPressure,
+  BloodPressureSample,
+  NutrientType,
+  NutrientDataType,
+  MealType,
+  FoodEntryData,
+  FoodEntry,
+  QuantitySampleInput,
+  BloodPressureInput,
+  WorkoutInput,
+  SampleInput,
+  SaveSamplesOptions,
+  SaveSampleResult,
+  StatisticsAggregation,
+  StatisticsCollectionOptions,
+  StatisticsBucket,
 } from './types';
+
+// Native module & simulator
+export { setNativeModule } from './ExpoHealthKitModule';
+export type {
+  ExpoHealthKitNativeModule,
+  NativeChanges,
+  NativeChangesOptions,
+  NativeCursor,
+  NativeDataChangedEvent,
+  NativeFoodEntry,
+  NativeFoodEntryData,
+  NativeQueryOptions,
+  NativeSampleInput,
+  NativeSaveResult,
+  NativeStatisticsOptions,
+  NativeWorkoutData,
+} from './ExpoHealthKitModule';
+export {
+  SimulatedHealthKit,
+  installSimulatedHealthKit,
+  uninstallSimulatedHealthKit,
+} from './SimulatedHealthKit';
+export type {
+  SimulatedQuantityFixture,
+  SimulatedSleepFixture,
+  SimulatedWorkoutFixture,
+  SimulatedBloodPressureFixture,
+  SimulatedHealthKitFixtures,
+  SimulatedHealthKitOptions,
+} from './SimulatedHealthKit';
+
+// Hooks
+export {
+  useHealthQuery,
+  useHealthKitAuthorization,
+  useSteps,
+  useLatestWeight,
+  useHeartRateSamples,
+  useWorkouts,
+} from './hooks';
+export type { HealthRange, HealthQueryOptions, HealthQueryResult, HealthKitAuthorizationState } from './hooks';
+
+// Sleep analysis
+export { analyzeSleep, getSleepSessions } from './sleep';
+export type { SleepStage, SleepAnalysisOptions, SleepSegment, SleepSession } from './sleep';
+
+// Workout routes
+export { routeToGPX, routeToGeoJSON } from './routes';
+export type { GPXOptions, WorkoutRouteFeature } from './routes';
+
+// Export
+export { exportHealthData } from './export';
+export type {
+  ExportFormat,
+  ExportFileInfo,
+  ExportFileWriter,
+  ExportProgress,
+  ExportOptions,
+  ExportedFile,
+} from './export';
+
+// Apple Health export import
+export { parseHealthExport, importHealthExport } from './importer';
+export type {
+  HealthExportSource,
+  HealthExportRecord,
+  ActivitySummary,
+  HealthImportType,
+  HealthImportOptions,
+  HealthImportProgress,
+  HealthImportResult,
+} from './importer';
+
+// FHIR
+export {
+  quantitySampleToFHIR,
+  bloodPressureToFHIR,
+  sleepSampleToFHIR,
+  workoutToFHIR,
+  createFHIRBundle,
+  validateFHIRObservation,
+  validateFHIRBundle,
+  FHIRValidationError,
+} from './fhir';
+export type {
+  FHIRCoding,
+  FHIRCodeableConcept,
+  FHIRQuantity,
+  FHIRReference,
+  FHIRPeriod,
+  FHIRObservationComponent,
+  FHIRObservation,
+  FHIRComposition,
+  FHIRBundleEntry,
+  FHIRBundle,
+  FHIRObservationOptions,
+  FHIRBundleOptions,
+  FHIRValidationIssue,
+} from './fhir';
+
+// Heart rate zones
+export { analyzeWorkoutHeartRate, calculateHeartRateZones, summarizeHeartRate } from './heartRateZones';
+export type {
+  HeartRateZoneModel,
+  HeartRateZoneOptions,
+  HeartRateZone,
+  HeartRateZoneTime,
+  WorkoutHeartRateAnalysis,
+} from './heartRateZones';
+
+// Activity types
+export {
+  ACTIVITY_TYPE_CATALOG,
+  ACTIVITY_TYPES,
+  configureActivityDisplayNames,
+  getActivityTypeInfo,
+  getActivityTypes,
+  parseActivityType,
+} from './activityTypes';
+export type { ActivityCategory, ActivityTypeInfo } from './activityTypes';
+
+// Workout sessions
+export { startWorkout, WorkoutSession, WORKOUT_SESSION_TRANSITIONS } from './workoutSession';
+export type {
+  WorkoutSessionState,
+  WorkoutSessionMetrics,
+  WorkoutSessionStateChange,
+  WorkoutSessionOptions,
+} from './workoutSession';
+
+// Blood pressure categories
+export { classifyBloodPressure, BLOOD_PRESSURE_CATEGORIES } from './bloodPressure';
+export type { BloodPressureCategory } from './bloodPressure';
+
+// Cache
+export { configureCache, clearCache } from './cache';
+export type { CacheConfig } from './cache';
+
+// Subscriptions
+export { subscribe, refreshSubscriptions } from './subscriptions';
+export type { HealthDataChangeEvent, SubscribeOptions } from './subscriptions';
+
+// Anchors
+export { AnchorStore, createMemoryAnchorStorage } from './anchors';
+export type { AnchorStorage } from './anchors';
+
+// Data types
+export { resolveDataType, getDataTypeKind, isQuantityType, isNutrientType } from './dataTypes';
+export type { CanonicalDataType, CanonicalOf, DataTypeKind } from './dataTypes';
+
+// Errors
+export { HealthKitError, isHealthKitError, normalizeError } from './errors';
+export type { HealthKitErrorCode } from './errors';
+
+// Dates
+export { epochSeconds, toDate, toEpochSeconds } from './dates';
+export type { DateInput, EpochSeconds, CalendarInterval } from './dates';
+
+// Validation
+export {
+  DEFAULT_BOUNDS,
+  HealthKitValidationError,
+  configureValidation,
+  getValidationMode,
+  getValueBounds,
+  validateValue,
+  validateBloodPressure,
+  validateWorkout,
+} from './validation';
+export type { ValidationMode, ValueBounds, ValidationIssue, ValidationConfig } from './validation';
+
+// Units
+export {
+  CANONICAL_UNITS,
+  convert,
+  getDimension,
+  getCanonicalUnit,
+  isUnitCompatible,
+  toCanonicalUnit,
+  fromCanonicalUnit,
+  feetAndInchesToCentimeters,
+  centimetersToFeetAndInches,
+} from './units';
+export type {
+  Unit,
+  UnitFor,
+  Dimension,
+  CanonicalUnitMap,
+  LengthUnit,
+  MassUnit,
+  VolumeUnit,
+  EnergyUnit,
+  TimeUnit,
+  PressureUnit,
+  TemperatureUnit,
+  RatioUnit,
+  FrequencyUnit,
+  CountUnit,
+} from './units';
@@ -0,0 +1,92 @@
+import type { NativeCursor } from './ExpoHealthKitModule';
+import { HealthKitError } from './errors';
+import type { Page } from './types';
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Check a page size, falling back to the default when omitted
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if it is not a positive integer
+ */
+export function resolvePageSize(pageSize: number | undefined): number {
+  if (pageSize === undefined) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Invalid pageSize: ${pageSize}`);
+  }
+  return pageSize;
+}
+
+/**
+ * Serialize a cursor into the opaque string handed to callers
+ */
+export function encodeCursor(cursor: NativeCursor): string {
+  return btoa(JSON.stringify({ e: cursor.endDate, x: cursor.excludeIds }));
+}
+
+/**
+ * Parse a cursor previously returned as `nextCursor`
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if the cursor is malformed
+ */
+export function decodeCursor(cursor: string | null | undefined): NativeCursor | undefined {
+  if (cursor === null || cursor === undefined) {
+    return undefined;
+  }
+  try {
+    const { e, x } = JSON.parse(atob(cursor));
+    if (typeof e === 'number' && Array.isArray(x) && x.every((id) => typeof id === 'string')) {
+      return { endDate: e, excludeIds: x };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Turn the results of a query for `pageSize + 1` items, sorted by end date
+ * descending, into a page. The extra item only tells whether more remain.
+ * @param results - Items returned by the native module
+ * @param pageSize - The requested page size
+ * @param previous - The cursor the results were fetched with
+ */
+export function toPage<T extends { id: string; endDate: number }>(
+  results: T[],
+  pageSize: number,
+  previous?: NativeCursor
+): Page<T> {
+  const items = results.slice(0, pageSize);
+  if (results.length <= pageSize) {
+    return { items, nextCursor: null };
+  }
+
+  // Items sharing the last end date may straddle two pages, so the cursor
+  // remembers which of them were already returned
+  const { endDate } = items[items.length - 1];
+  const excludeIds = items.filter((item) => item.endDate === endDate).map((item) => item.id);
+  if (previous && previous.endDate === endDate) {
+    excludeIds.push(...previous.excludeIds);
+  }
+  return { items, nextCursor: encodeCursor({ endDate, excludeIds }) };
+}
+
+/**
+ * Fetch pages one after another until no cursor is left. Empty pages are
+ * not yielded.
+ * @param fetchPage - Fetches the page starting at a cursor
+ * @param cursor - Where to start (default: the newest item)
+ */
+export async function* iteratePages<T>(
+  fetchPage: (cursor: string | null) => Promise<Page<T>>,
+  cursor: string | null = null
+): AsyncGenerator<Page<T>, void, undefined> {
+  let next: string | null = cursor;
+  do {
+    const page = await fetchPage(next);
+    next = page.nextCursor;
+    if (page.items.length > 0) {
+      yield page;
+    }
+  } while (next !== null);
+}
@@ -0,0 +1,110 @@
+import { HealthKitError } from './errors';
+import type { WorkoutRoutePoint } from './types';
+
+export interface GPXOptions {
+  /** Name of the track */
+  name?: string;
+  /** Type of the track, e.g. the workout's activity type */
+  type?: string;
+  /** The `creator` attribute of the document (default 'expo-healthkit') */
+  creator?: string;
+}
+
+/**
+ * A GeoJSON LineString feature. Positions are [longitude, latitude] or,
+ * when every point has an altitude, [longitude, latitude, altitude].
+ */
+export interface WorkoutRouteFeature {
+  type: 'Feature';
+  geometry: {
+    type: 'LineString';
+    coordinates: number[][];
+  };
+  properties: {
+    /** ISO 8601 timestamp of each position */
+    coordTimes: string[];
+    [key: string]: unknown;
+  };
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isoTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString();
+}
+
+/**
+ * Serialize a route as a GPX 1.1 document with a single track
+ * @param route - Points from `getWorkoutRoute`
+ * @param options - Track name and type, and the document's creator
+ * @returns The XML document
+ */
+export function routeToGPX(route: WorkoutRoutePoint[], options: GPXOptions = {}): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXML(options.creator ?? 'expo-healthkit')}" xmlns="http://www.topografix.com/GPX/1/1">`,
+  ];
+  if (route.length > 0) {
+    lines.push(`  <metadata><time>${isoTime(route[0].timestamp)}</time></metadata>`);
+  }
+  lines.push('  <trk>');
+  if (options.name !== undefined) {
+    lines.push(`    <name>${escapeXML(options.name)}</name>`);
+  }
+  if (options.type !== undefined) {
+    lines.push(`    <type>${escapeXML(options.type)}</type>`);
+  }
+  lines.push('    <trkseg>');
+  for (const point of route) {
+    const elevation = point.altitude !== undefined ? `<ele>${point.altitude}</ele>` : '';
+    lines.push(
+      `      <trkpt lat="${point.latitude}" lon="${point.longitude}">${elevation}<time>${isoTime(point.timestamp)}</time></trkpt>`
+    );
+  }
+  lines.push('    </trkseg>', '  </trk>', '</gpx>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Convert a route to a GeoJSON feature. Timestamps go in the
+ * `coordTimes` property, as read by most GeoJSON tools.
+ * @param route - Points from `getWorkoutRoute`
+ * @param properties - Extra properties for the feature
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if the route
+ * has fewer than two points, since a GeoJSON LineString needs at least two
+ * positions (RFC 7946)
+ */
+export function routeToGeoJSON(
+  route: WorkoutRoutePoint[],
+  properties: Record<string, unknown> = {}
+): WorkoutRouteFeature {
+  if (route.length < 2) {
+    throw new HealthKitError(
+      'ERR_HEALTHKIT_INVALID_ARGUMENT',
+      `A GeoJSON route needs at least two points, got ${route.length}`
+    );
+  }
+  // A LineString mixing 2D and 3D positions is ambiguous, so altitude is only
+  // included when every point has one
+  const withAltitude = route.every((point) => point.altitude !== undefined);
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: route.map((point) =>
+        withAltitude ? [point.longitude, point.latitude, point.altitude!] : [point.longitude, point.latitude]
+      ),
+    },
+    properties: {
+      ...properties,
+      coordTimes: route.map((point) => isoTime(point.timestamp)),
+    },
+  };
+}
@@ -0,0 +1,201 @@
+import { getSleepSamples } from './ExpoHealthKit';
+import type { DateInput } from './dates';
+import { HealthKitError } from './errors';
+import type { SleepSample } from './types';
+
+export type SleepStage = SleepSample['value'];
+
+export interface SleepAnalysisOptions {
+  /**
+   * Local hour (0-23) at which one night ends and the next begins. Samples
+   * starting before it belong to the previous night (default 18, i.e. 6 PM).
+   */
+  dayCutoffHour?: number;
+}
+
+/**
+ * A stretch of the night in a single stage, after overlapping samples from
+ * different sources were merged
+ */
+export interface SleepSegment {
+  value: SleepStage;
+  startDate: number;
+  endDate: number;
+}
+
+/**
+ * One night of sleep. Dates are seconds since epoch and durations are
+ * seconds, like `SleepSample`.
+ */
+export interface SleepSession {
+  /** Local date (YYYY-MM-DD) of the evening the night starts on */
+  night: string;
+  startDate: number;
+  endDate: number;
+  /** Time covered by any sample */
+  timeInBed: number;
+  /** Time in any asleep stage */
+  totalAsleep: number;
+  stages: {
+    core: number;
+    deep: number;
+    rem: number;
+    awake: number;
+    /** Asleep without a stage, as recorded by older devices and the phone */
+    unspecified: number;
+  };
+  /** Time from getting into bed to falling asleep, or null if no sleep was recorded */
+  latency: number | null;
+  /** Share of the time in bed spent asleep (0-1), or null if nothing was recorded */
+  efficiency: number | null;
+  /** Time awake between falling asleep for the first time and waking up for the last time */
+  wakeAfterSleepOnset: number;
+  segments: SleepSegment[];
+}
+
+const DEFAULT_DAY_CUTOFF_HOUR = 18;
+
+const ASLEEP_STAGES: SleepStage[] = ['asleep', 'core', 'deep', 'rem'];
+
+// When samples overlap, the most specific stage wins. Awake beats every
+// asleep stage so a watch noticing a wake-up overrides the phone's "asleep".
+const STAGE_PRIORITY: Record<SleepStage, number> = {
+  unknown: 0,
+  inBed: 1,
+  asleep: 2,
+  core: 3,
+  rem: 4,
+  deep: 5,
+  awake: 6,
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function nightOf(startDate: number, cutoffHour: number): string {
+  const date = new Date(startDate * 1000);
+  if (date.getHours() < cutoffHour) {
+    date.setDate(date.getDate() - 1);
+  }
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Merge overlapping samples into one non-overlapping timeline
+ */
+function toSegments(samples: SleepSample[]): SleepSegment[] {
+  const points = [...new Set(samples.flatMap((s) => [s.startDate, s.endDate]))].sort((a, b) => a - b);
+  const segments: SleepSegment[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [startDate, endDate] = [points[i], points[i + 1]];
+    let value: SleepStage | null = null;
+    for (const sample of samples) {
+      const covers = sample.startDate <= startDate && sample.endDate >= endDate;
+      if (covers && (value === null || STAGE_PRIORITY[sample.value] > STAGE_PRIORITY[value])) {
+        value = sample.value;
+      }
+    }
+    if (value === null) {
+      continue;
+    }
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.value === value && previous.endDate === startDate) {
+      previous.endDate = endDate;
+    } else {
+      segments.push({ value, startDate, endDate });
+    }
+  }
+  return segments;
+}
+
+function toSession(night: string, segments: SleepSegment[]): SleepSession {
+  const stages = { core: 0, deep: 0, rem: 0, awake: 0, unspecified: 0 };
+  let timeInBed = 0;
+  for (const segment of segments) {
+    const duration = segment.endDate - segment.startDate;
+    timeInBed += duration;
+    if (segment.value === 'asleep') {
+      stages.unspecified += duration;
+    } else if (segment.value !== 'inBed' && segment.value !== 'unknown') {
+      stages[segment.value] += duration;
+    }
+  }
+
+  const asleep = segments.filter((segment) => ASLEEP_STAGES.includes(segment.value));
+  const startDate = segments[0].startDate;
+  const sleepOnset = asleep.length > 0 ? asleep[0].startDate : null;
+  const finalWake = asleep.length > 0 ? asleep[asleep.length - 1].endDate : null;
+  const totalAsleep = stages.core + stages.deep + stages.rem + stages.unspecified;
+
+  // Anything that is not sleep between onset and final wake-up counts as awake
+  const wakeAfterSleepOnset = segments
+    .filter(
+      (segment) =>
+        sleepOnset !== null &&
+        finalWake !== null &&
+        segment.startDate >= sleepOnset &&
+        segment.endDate <= finalWake &&
+        !ASLEEP_STAGES.includes(segment.value)
+    )
+    .reduce((total, segment) => total + segment.endDate - segment.startDate, 0);
+
+  return {
+    night,
+    startDate,
+    endDate: segments[segments.length - 1].endDate,
+    timeInBed,
+    totalAsleep,
+    stages,
+    latency: sleepOnset === null ? null : sleepOnset - startDate,
+    efficiency: timeInBed > 0 ? totalAsleep / timeInBed : null,
+    wakeAfterSleepOnset,
+    segments,
+  };
+}
+
+/**
+ * Group sleep samples into nights and compute per-night metrics.
+ * Overlapping samples, such as a watch and a phone recording the same
+ * night, are merged so no time is counted twice.
+ * @param samples - Samples from `getSleepSamples`, in any order
+ * @param options - The hour at which one night ends and the next begins
+ * @returns One session per night, oldest first
+ */
+export function analyzeSleep(samples: SleepSample[], options: SleepAnalysisOptions = {}): SleepSession[] {
+  const cutoffHour = options.dayCutoffHour ?? DEFAULT_DAY_CUTOFF_HOUR;
+  if (!Number.isInteger(cutoffHour) || cutoffHour < 0 || cutoffHour > 23) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Invalid dayCutoffHour: ${cutoffHour}`);
+  }
+
+  const nights = new Map<string, SleepSample[]>();
+  for (const sample of samples) {
+    if (sample.value === 'unknown' || sample.endDate <= sample.startDate) {
+      continue;
+    }
+    const night = nightOf(sample.startDate, cutoffHour);
+    nights.set(night, [...(nights.get(night) ?? []), sample]);
+  }
+
+  return [...nights.entries()]
+    .map(([night, nightSamples]) => toSession(night, toSegments(nightSamples)))
+    .sort((a, b) => a.startDate - b.startDate);
+}
+
+/**
+ * Get sleep samples for a date range and group them into nights
+ * @param startDate - Start date
+ * @param endDate - End date
+ * @param options - The hour at which one night ends and the next begins
+ * @returns One session per night, oldest first
+ * @see analyzeSleep
+ */
+export async function getSleepSessions(
+  startDate: DateInput,
+  endDate: DateInput,
+  options: SleepAnalysisOptions = {}
+): Promise<SleepSession[]> {
+  return analyzeSleep(await getSleepSamples(startDate, endDate), options);
+}
@@ -0,0 +1,182 @@
+import type { EventSubscription } from 'expo-modules-core';
+import { getNativeModule, callNativeModule } from './ExpoHealthKitModule';
+import type { ExpoHealthKitNativeModule, NativeDataChangedEvent } from './ExpoHealthKitModule';
+import { resolveDataType } from './dataTypes';
+import type { CanonicalDataType } from './dataTypes';
+import { HealthKitError, normalizeError } from './errors';
+import type { DataType } from './types';
+
+export interface HealthDataChangeEvent {
+  /** The canonical data type whose samples changed */
+  dataType: CanonicalDataType;
+  /** How many native notifications were merged into this event */
+  count: number;
+}
+
+export interface SubscribeOptions {
+  /**
+   * Notifications arriving within this many milliseconds of the first one
+   * are merged into a single callback (default 500)
+   */
+  burstWindowMs?: number;
+  /** Receives errors starting or running the observer (defaults to console.warn) */
+  onError?: (error: HealthKitError) => void;
+}
+
+interface Subscriber {
+  callback: (event: HealthDataChangeEvent) => void;
+  burstWindowMs: number;
+  onError: (error: HealthKitError) => void;
+  pending: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const DEFAULT_BURST_WINDOW_MS = 500;
+
+const subscribers = new Map<CanonicalDataType, Set<Subscriber>>();
+let listener: { module: ExpoHealthKitNativeModule; subscription: EventSubscription } | null = null;
+
+function reportError(type: CanonicalDataType, error: unknown): void {
+  const healthKitError = normalizeError(error);
+  subscribers.get(type)?.forEach((subscriber) => subscriber.onError(healthKitError));
+}
+
+function flush(type: CanonicalDataType, subscriber: Subscriber): void {
+  const count = subscriber.pending;
+  subscriber.pending = 0;
+  subscriber.timer = null;
+  subscriber.callback({ dataType: type, count });
+}
+
+function handleEvent(event: NativeDataChangedEvent): void {
+  const type = resolveDataType(event.dataType);
+  const group = type ? subscribers.get(type) : undefined;
+  if (!type || !group) {
+    return;
+  }
+  if (event.error) {
+    // The native observer has stopped; it is started again by refreshSubscriptions()
+    reportError(type, Object.assign(new Error(event.error.message), { code: event.error.code }));
+    return;
+  }
+
+  for (const subscriber of group) {
+    subscriber.pending += 1;
+    if (subscriber.timer === null) {
+      subscriber.timer = setTimeout(() => flush(type, subscriber), subscriber.burstWindowMs);
+    }
+  }
+}
+
+// The listener follows the installed module, e.g. when a simulator is swapped in.
+// Returns true if it had to be attached to a new module.
+function ensureListener(): boolean {
+  const module = getNativeModule();
+  if (listener?.module === module) {
+    return false;
+  }
+  listener?.subscription.remove();
+  listener = { module, subscription: module.addListener('onDataChanged', handleEvent) };
+  return true;
+}
+
+function startObservers(types: CanonicalDataType[]): void {
+  try {
+    if (ensureListener()) {
+      types = [...subscribers.keys()];
+    }
+  } catch (error) {
+    types.forEach((type) => reportError(type, error));
+    return;
+  }
+
+  for (const type of types) {
+    callNativeModule((module) => module.startObserving(type))
+      .then(async () => {
+        // Everyone unsubscribed while the observer was starting
+        if (!subscribers.has(type)) {
+          await callNativeModule((module) => module.stopObserving(type));
+        }
+      })
+      .catch((error) => reportError(type, error));
+  }
+}
+
+/**
+ * Get notified when samples of a data type are added or deleted, by this
+ * app or any other. Bursts of notifications (such as a watch sync) are
+ * merged into one callback. Pair it with `getChanges` to fetch what changed:
+ *
+ * ```ts
+ * const unsubscribe = subscribe('Steps', async () => {
+ *   await anchors.sync('Steps', upload);
+ * });
+ * ```
+ *
+ * An observer that cannot start yet because authorization was not granted
+ * is started again after `requestAuthorization` resolves.
+ * @param dataType - Any data type, including workouts and sleep
+ * @param callback - Called after each burst of changes
+ * @param options - Burst window and error handler
+ * @returns A function that removes the subscription
+ */
+export function subscribe<T extends DataType>(
+  dataType: T,
+  callback: (event: HealthDataChangeEvent) => void,
+  options: SubscribeOptions = {}
+): () => void {
+  const type = resolveDataType(dataType);
+  if (!type) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unsupported data type: ${dataType}`);
+  }
+
+  const subscriber: Subscriber = {
+    callback,
+    burstWindowMs: options.burstWindowMs ?? DEFAULT_BURST_WINDOW_MS,
+    onError:
+      options.onError ??
+      ((error) => console.warn(`[expo-healthkit] Observer for ${type} failed: ${error.message}`)),
+    pending: 0,
+    timer: null,
+  };
+  const group = subscribers.get(type) ?? new Set<Subscriber>();
+  group.add(subscriber);
+  subscribers.set(type, group);
+  if (group.size === 1) {
+    startObservers([type]);
+  }
+
+  let subscribed = true;
+  return () => {
+    if (!subscribed) {
+      return;
+    }
+    subscribed = false;
+    if (subscriber.timer !== null) {
+      clearTimeout(subscriber.timer);
+    }
+    group.delete(subscriber);
+    if (group.size > 0) {
+      return;
+    }
+
+    subscribers.delete(type);
+    // Nobody is left to report a failure to
+    callNativeModule((module) => module.stopObserving(type)).catch(() => {});
+    if (subscribers.size === 0) {
+      listener?.subscription.remove();
+      listener = null;
+    }
+  };
+}
+
+/**
+ * Start the native observer of every subscribed type again. Called after
+ * `requestAuthorization` resolves; call it yourself when the user may have
+ * changed access in the Settings app.
+ */
+export function refreshSubscriptions(): void {
+  if (subscribers.size > 0) {
+    startObservers([...subscribers.keys()]);
+  }
+}
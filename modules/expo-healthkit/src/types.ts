@@ -1,14 +1,101 @@
+import type { DateInput, CalendarInterval } from './dates';
+import type { LengthUnit, EnergyUnit, PressureUnit, TemperatureUnit, UnitFor } from './units';
+import type { CanonicalDataType, CanonicalOf } from './dataTypes';
+import type { HealthKitError } from './errors';
+
 export type ActivityType =
-  | 'running'
-  | 'walking'
+  // Cardio
+  | 'cardioDance'
+  | 'crossCountrySkiing'
   | 'cycling'
-  | 'swimming'
+  | 'dance'
+  | 'danceInspiredTraining'
+  | 'elliptical'
+  | 'fitnessGaming'
+  | 'handCycling'
+  | 'highIntensityIntervalTraining'
   | 'hiking'
-  | 'yoga'
+  | 'jumpRope'
+  | 'mixedCardio'
+  | 'mixedMetabolicCardioTraining'
+  | 'rowing'
+  | 'running'
+  | 'socialDance'
+  | 'stairClimbing'
+  | 'stairs'
+  | 'stepTraining'
+  | 'swimBikeRun'
+  | 'swimming'
+  | 'walking'
+  | 'waterFitness'
+  | 'wheelchairRunPace'
+  | 'wheelchairWalkPace'
+
+  // Strength
+  | 'coreTraining'
+  | 'crossTraining'
   | 'functionalStrengthTraining'
   | 'traditionalStrengthTraining'
-  | 'elliptical'
-  | 'rowing'
+
+  // Mind & Body
+  | 'barre'
+  | 'cooldown'
+  | 'flexibility'
+  | 'mindAndBody'
+  | 'pilates'
+  | 'preparationAndRecovery'
+  | 'taiChi'
+  | 'yoga'
+
+  // Sports
+  | 'americanFootball'
+  | 'archery'
+  | 'australianFootball'
+  | 'badminton'
+  | 'baseball'
+  | 'basketball'
+  | 'bowling'
+  | 'boxing'
+  | 'climbing'
+  | 'cricket'
+  | 'curling'
+  | 'discSports'
+  | 'downhillSkiing'
+  | 'equestrianSports'
+  | 'fencing'
+  | 'fishing'
+  | 'golf'
+  | 'gymnastics'
+  | 'handball'
+  | 'hockey'
+  | 'hunting'
+  | 'kickboxing'
+  | 'lacrosse'
+  | 'martialArts'
+  | 'paddleSports'
+  | 'pickleball'
+  | 'play'
+  | 'racquetball'
+  | 'rugby'
+  | 'sailing'
+  | 'skatingSports'
+  | 'snowboarding'
+  | 'snowSports'
+  | 'soccer'
+  | 'softball'
+  | 'squash'
+  | 'surfingSports'
+  | 'tableTennis'
+  | 'tennis'
+  | 'trackAndField'
+  | 'underwaterDiving'
+  | 'volleyball'
+  | 'waterPolo'
+  | 'waterSports'
+  | 'wrestling'
+
+  // Other
+  | 'transition'
   | 'other';
 
 export type DataType =
@@ -49,6 +136,38 @@ export type DataType =
   | 'Fiber' | 'DietaryFiber'
   | 'Water' | 'DietaryWater'
   | 'Caffeine' | 'DietaryCaffeine'
+  | 'Sugar' | 'DietarySugar'
+  | 'SaturatedFat' | 'DietaryFatSaturated'
+  | 'MonounsaturatedFat' | 'DietaryFatMonounsaturated'
+  | 'PolyunsaturatedFat' | 'DietaryFatPolyunsaturated'
+  | 'Cholesterol' | 'DietaryCholesterol'
+  | 'Sodium' | 'DietarySodium'
+  | 'VitaminA' | 'DietaryVitaminA'
+  | 'Thiamin' | 'VitaminB1' | 'DietaryThiamin'
+  | 'Riboflavin' | 'VitaminB2' | 'DietaryRiboflavin'
+  | 'Niacin' | 'VitaminB3' | 'DietaryNiacin'
+  | 'PantothenicAcid' | 'VitaminB5' | 'DietaryPantothenicAcid'
+  | 'VitaminB6' | 'DietaryVitaminB6'
+  | 'Biotin' | 'VitaminB7' | 'DietaryBiotin'
+  | 'Folate' | 'VitaminB9' | 'DietaryFolate'
+  | 'VitaminB12' | 'DietaryVitaminB12'
+  | 'VitaminC' | 'DietaryVitaminC'
+  | 'VitaminD' | 'DietaryVitaminD'
+  | 'VitaminE' | 'DietaryVitaminE'
+  | 'VitaminK' | 'DietaryVitaminK'
+  | 'Calcium' | 'DietaryCalcium'
+  | 'Chloride' | 'DietaryChloride'
+  | 'Iron' | 'DietaryIron'
+  | 'Magnesium' | 'DietaryMagnesium'
+  | 'Phosphorus' | 'DietaryPhosphorus'
+  | 'Potassium' | 'DietaryPotassium'
+  | 'Zinc' | 'DietaryZinc'
+  | 'Chromium' | 'DietaryChromium'
+  | 'Copper' | 'DietaryCopper'
+  | 'Iodine' | 'DietaryIodine'
+  | 'Manganese' | 'DietaryManganese'
+  | 'Molybdenum' | 'DietaryMolybdenum'
+  | 'Selenium' | 'DietarySelenium'
 
   // Sleep
   | 'Sleep' | 'SleepAnalysis'
@@ -56,14 +175,125 @@ export type DataType =
   // Mindfulness
   | 'Mindfulness' | 'MindfulMinutes';
 
-export interface WorkoutData {
+/**
+ * Units for workout distance (default meters) and calories (default kilocalories)
+ */
+export interface WorkoutUnits {
+  /** Distance, elevation ascended and lap length */
+  distance?: LengthUnit;
+  energy?: EnergyUnit;
+  /** Weather temperature */
+  temperature?: TemperatureUnit;
+}
+
+/**
+ * A GPS location recorded during a workout
+ */
+export interface WorkoutRouteLocation {
+  latitude: number;
+  longitude: number;
+  timestamp: DateInput;
+  /** Meters above sea level */
+  altitude?: number;
+  /** Radius of uncertainty of the position in meters */
+  horizontalAccuracy?: number;
+  /** Uncertainty of the altitude in meters */
+  verticalAccuracy?: number;
+}
+
+/**
+ * A location of a saved route, with the timestamp in seconds since epoch.
+ * Fields HealthKit has no valid value for are left out.
+ */
+export interface WorkoutRoutePoint extends Omit<WorkoutRouteLocation, 'timestamp'> {
+  timestamp: number;
+}
+
+export type SwimmingLocation = 'pool' | 'openWater' | 'unknown';
+
+export type SwimmingStrokeStyle =
+  | 'freestyle'
+  | 'backstroke'
+  | 'breaststroke'
+  | 'butterfly'
+  | 'mixed'
+  | 'kickboard'
+  | 'unknown';
+
+/**
+ * A value HealthKit can store as metadata under an app-specific key
+ */
+export type MetadataValue = string | number | boolean;
+
+/**
+ * Workout metadata. The typed keys are saved under HealthKit's own metadata
+ * keys, so the Health app and other apps understand them; any other key is
+ * saved as is.
+ */
+export interface WorkoutMetadata {
+  /** Whether the workout was done indoors */
+  indoor?: boolean;
+  /** Meters climbed, or in `units.distance` */
+  elevationAscended?: number;
+  /** Degrees Celsius, or in `units.temperature` */
+  weatherTemperature?: number;
+  /** Relative humidity in percent (0-100) */
+  weatherHumidity?: number;
+  /** Length of a pool or track lap in meters, or in `units.distance` */
+  lapLength?: number;
+  swimmingLocation?: SwimmingLocation;
+  /** Average metabolic equivalent over the workout, in kcal/(kg·h) */
+  averageMETs?: number;
+  [key: string]: MetadataValue | undefined;
+}
+
+export interface WorkoutEventMetadata {
+  /** The stroke swum in a lap or segment */
+  swimmingStrokeStyle?: SwimmingStrokeStyle;
+  [key: string]: MetadataValue | undefined;
+}
+
+/**
+ * - `pause` / `resume`: the user paused or resumed the workout
+ * - `motionPaused` / `motionResumed`: the device detected the user stopping
+ *   or starting again
+ * - `lap`: a lap, e.g. a pool length, with its end date
+ * - `segment`: a part of the workout, e.g. an interval, with its end date
+ * - `marker`: a point of interest
+ */
+export type WorkoutEventType = 'pause' | 'resume' | 'motionPaused' | 'motionResumed' | 'lap' | 'segment' | 'marker';
+
+export interface WorkoutEventData {
+  type: WorkoutEventType;
+  startDate: DateInput;
+  /** End of a lap or segment (defaults to `startDate`) */
+  endDate?: DateInput;
+  metadata?: WorkoutEventMetadata;
+}
+
+export interface WorkoutEvent extends Omit<WorkoutEventData, 'startDate' | 'endDate' | 'metadata'> {
   startDate: number;
   endDate: number;
+  metadata: WorkoutEventMetadata;
+}
+
+export interface WorkoutData {
+  startDate: DateInput;
+  endDate: DateInput;
+  /**
+   * Seconds of activity. HealthKit works it out from the events instead
+   * when there are any: the time between start and end less the pauses.
+   */
   duration: number;
   distance: number;
   calories: number;
   activityType?: ActivityType;
-  metadata?: Record<string, any>;
+  metadata?: WorkoutMetadata;
+  /** Pauses, laps, segments and markers between start and end */
+  events?: WorkoutEventData[];
+  units?: WorkoutUnits;
+  /** Locations in time order, saved as the workout's route */
+  route?: WorkoutRouteLocation[];
 }
 
 export interface Workout {
@@ -74,14 +304,47 @@ export interface Workout {
   duration: number;
   distance: number;
   calories: number;
+  metadata: WorkoutMetadata;
+  /** Events in time order */
+  events: WorkoutEvent[];
 }
 
 export interface QueryOptions {
-  startDate?: Date | number;
-  endDate?: Date | number;
+  startDate?: DateInput;
+  endDate?: DateInput;
   limit?: number;
 }
 
+export interface QuantityQueryOptions<T extends DataType = DataType> extends QueryOptions {
+  /** Unit of the sample values (defaults to the type's canonical unit) */
+  unit?: UnitFor<T>;
+}
+
+export interface PageOptions {
+  /** Maximum number of items per page (default 100) */
+  pageSize?: number;
+  /** The `nextCursor` of the previous page; omit to start from the newest item */
+  cursor?: string | null;
+}
+
+export interface PaginatedQueryOptions extends PageOptions {
+  startDate?: DateInput;
+  endDate?: DateInput;
+}
+
+export interface QuantityPageOptions<T extends DataType = DataType> extends PaginatedQueryOptions {
+  /** Unit of the sample values (defaults to the type's canonical unit) */
+  unit?: UnitFor<T>;
+}
+
+/**
+ * One page of results, newest first. `nextCursor` is null on the last page.
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
 export interface QuantitySample {
   id: string;
   value: number;
@@ -102,3 +365,200 @@ export interface BloodPressure {
   diastolic: number;
   timestamp?: number;
 }
+
+/**
+ * A stored reading: the systolic and diastolic samples HealthKit keeps
+ * together as one correlation
+ */
+export interface BloodPressureSample extends Required<BloodPressure> {
+  /** The correlation's UUID, for `deleteBloodPressure` */
+  id: string;
+}
+
+/**
+ * The canonical names of the dietary types a food entry can hold
+ */
+export type NutrientType = Extract<CanonicalDataType, `Dietary${string}`>;
+
+/**
+ * Every alias of a nutrient, e.g. `Protein`, `VitaminB12` or `DietarySodium`
+ */
+export type NutrientDataType = { [K in DataType]: CanonicalOf<K> extends NutrientType ? K : never }[DataType];
+
+/**
+ * The meal a food entry belongs to
+ */
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface FoodEntryData {
+  /** The name of the food, shown in the Health app */
+  name: string;
+  mealType?: MealType;
+  /**
+   * Amount of each nutrient in its canonical unit (see `CANONICAL_UNITS`):
+   * kcal of energy, mL of water, g of macronutrients, and mg or mcg of
+   * vitamins and minerals
+   */
+  nutrients: Partial<Record<NutrientDataType, number>>;
+  /** Defaults to now */
+  date?: DateInput;
+}
+
+/**
+ * A food saved as one group of nutrient samples
+ */
+export interface FoodEntry {
+  id: string;
+  /** Null for food saved without a name, e.g. by another app */
+  name: string | null;
+  mealType: MealType | null;
+  /** Amount of each nutrient in its canonical unit */
+  nutrients: Partial<Record<NutrientType, number>>;
+  startDate: number;
+  endDate: number;
+}
+
+/**
+ * A quantity sample to save with `saveSamples`
+ */
+export interface QuantitySampleInput<T extends DataType = DataType> {
+  kind: 'quantity';
+  dataType: T;
+  value: number;
+  /** Unit of `value` (defaults to the type's canonical unit) */
+  unit?: UnitFor<T>;
+  /** Defaults to now */
+  startDate?: DateInput;
+  /** Defaults to `startDate` */
+  endDate?: DateInput;
+}
+
+/**
+ * A blood pressure reading to save with `saveSamples`
+ */
+export interface BloodPressureInput {
+  kind: 'bloodPressure';
+  systolic: number;
+  diastolic: number;
+  /** Unit of both pressures (defaults to mmHg) */
+  unit?: PressureUnit;
+  /** Defaults to now */
+  date?: DateInput;
+}
+
+/**
+ * A workout to save with `saveSamples`
+ */
+export interface WorkoutInput extends WorkoutData {
+  kind: 'workout';
+}
+
+export type SampleInput = QuantitySampleInput | BloodPressureInput | WorkoutInput;
+
+export interface SaveSamplesOptions {
+  /**
+   * Save all of the samples or none of them: if any sample fails, the ones
+   * already saved are deleted again (default false)
+   */
+  atomic?: boolean;
+}
+
+/**
+ * What happened to one sample passed to `saveSamples`: the UUID it was
+ * saved with, or why it was not saved
+ */
+export type SaveSampleResult = { success: true; id: string } | { success: false; error: HealthKitError };
+
+/**
+ * How the samples in each statistics bucket are combined.
+ * Cumulative types (steps, energy, water) only support `sum`;
+ * discrete types (heart rate, weight) support `avg`, `min` and `max`.
+ */
+export type StatisticsAggregation = 'sum' | 'avg' | 'min' | 'max';
+
+export interface StatisticsCollectionOptions<T extends DataType = DataType> {
+  startDate: DateInput;
+  endDate: DateInput;
+  interval: CalendarInterval;
+  /** Defaults to `sum` for cumulative types and `avg` for discrete types */
+  aggregation?: StatisticsAggregation;
+  /** Unit of the bucket values (defaults to the type's canonical unit) */
+  unit?: UnitFor<T>;
+}
+
+export interface StatisticsBucket {
+  startDate: number;
+  endDate: number;
+  /** The aggregated value, or null if the bucket has no samples */
+  value: number | null;
+}
+
+/**
+ * The sample type a data type is read as: workouts, sleep samples, or
+ * quantity samples for everything else (mindful sessions carry their
+ * duration in seconds as the value)
+ */
+export type SampleFor<T extends DataType> = CanonicalOf<T> extends 'Workout'
+  ? Workout
+  : CanonicalOf<T> extends 'SleepAnalysis'
+    ? SleepSample
+    : QuantitySample;
+
+export interface ChangesOptions<T extends DataType = DataType> {
+  /** Maximum number of added plus deleted samples per call */
+  limit?: number;
+  /** Unit of quantity sample values (defaults to the type's canonical unit) */
+  unit?: UnitFor<T>;
+}
+
+/**
+ * What changed for a data type since an anchor. Pass `anchor` to the next
+ * call to continue from here.
+ */
+export interface Changes<T extends DataType = DataType> {
+  added: SampleFor<T>[];
+  /** IDs of deleted samples */
+  deleted: string[];
+  anchor: string;
+}
+
+/**
+ * Whether the app may save a data type (`HKAuthorizationStatus`). HealthKit
+ * keeps read access private: a type the user declined to share reads as if
+ * it had no samples, so there is no read status.
+ */
+export type AuthorizationStatus = 'notDetermined' | 'sharingDenied' | 'sharingAuthorized';
+
+/**
+ * Whether requesting authorization for a set of types would show the
+ * permission sheet (`HKAuthorizationRequestStatus`):
+ * - `shouldRequest`: some of the types were never requested
+ * - `unnecessary`: every type was requested before, so the sheet would not show
+ * - `unknown`: HealthKit could not tell
+ */
+export type AuthorizationRequestStatus = 'shouldRequest' | 'unnecessary' | 'unknown';
+
+/**
+ * What onboarding should do next:
+ * - `prompt`: call `requestAuthorization`; the permission sheet will show,
+ *   or HealthKit could not tell and asking again is harmless
+ * - `openSettings`: the user declined to share some types; only the Health
+ *   app or Settings can change that
+ * - `continue`: everything was requested and no write type was declined
+ * - `unavailable`: HealthKit is not available on this device
+ */
+export type AuthorizationNextStep = 'prompt' | 'openSettings' | 'continue' | 'unavailable';
+
+export interface AuthorizationSummary {
+  nextStep: AuthorizationNextStep;
+  /** Whether HealthKit is available on this device */
+  isAvailable: boolean;
+  /** `unknown` when HealthKit is not available */
+  requestStatus: AuthorizationRequestStatus;
+  /** Write types the user allowed the app to save */
+  authorizedWriteTypes: CanonicalDataType[];
+  /** Write types the user declined */
+  deniedWriteTypes: CanonicalDataType[];
+  /** Write types that were never requested */
+  notDeterminedWriteTypes: CanonicalDataType[];
+}
@@ -0,0 +1,370 @@
+import { resolveDataType } from './dataTypes';
+import type { CanonicalDataType, CanonicalOf } from './dataTypes';
+import { HealthKitError } from './errors';
+import type { DataType } from './types';
+
+export type LengthUnit = 'm' | 'km' | 'cm' | 'mm' | 'mi' | 'yd' | 'ft' | 'in';
+export type MassUnit = 'kg' | 'g' | 'mg' | 'mcg' | 'lb' | 'oz' | 'st';
+export type VolumeUnit = 'mL' | 'L' | 'fl_oz_us' | 'fl_oz_imp' | 'cup_us';
+export type EnergyUnit = 'kcal' | 'kJ';
+export type TimeUnit = 'ms' | 's' | 'min' | 'hr';
+export type PressureUnit = 'mmHg' | 'kPa';
+export type TemperatureUnit = 'degC' | 'degF' | 'K';
+/** `%` is 0-100, `fraction` is 0-1 */
+export type RatioUnit = '%' | 'fraction';
+export type FrequencyUnit = 'count/min' | 'count/s';
+export type CountUnit = 'count';
+
+export type Unit =
+  | LengthUnit
+  | MassUnit
+  | VolumeUnit
+  | EnergyUnit
+  | TimeUnit
+  | PressureUnit
+  | TemperatureUnit
+  | RatioUnit
+  | FrequencyUnit
+  | CountUnit;
+
+export type Dimension =
+  | 'length'
+  | 'mass'
+  | 'volume'
+  | 'energy'
+  | 'time'
+  | 'pressure'
+  | 'temperature'
+  | 'ratio'
+  | 'frequency'
+  | 'count';
+
+/**
+ * The units each canonical data type can be read and written in
+ */
+export interface CanonicalUnitMap {
+  Workout: never;
+  StepCount: CountUnit;
+  DistanceWalkingRunning: LengthUnit;
+  DistanceCycling: LengthUnit;
+  DistanceSwimming: LengthUnit;
+  FlightsClimbed: CountUnit;
+  ActiveEnergyBurned: EnergyUnit;
+  BasalEnergyBurned: EnergyUnit;
+  Height: LengthUnit;
+  BodyMass: MassUnit;
+  BodyMassIndex: CountUnit;
+  BodyFatPercentage: RatioUnit;
+  LeanBodyMass: MassUnit;
+  HeartRate: FrequencyUnit;
+  RestingHeartRate: FrequencyUnit;
+  HeartRateVariability: TimeUnit;
+  BloodPressureSystolic: PressureUnit;
+  BloodPressureDiastolic: PressureUnit;
+  RespiratoryRate: FrequencyUnit;
+  OxygenSaturation: RatioUnit;
+  BodyTemperature: TemperatureUnit;
+  DietaryEnergy: EnergyUnit;
+  DietaryProtein: MassUnit;
+  DietaryCarbohydrates: MassUnit;
+  DietaryFatTotal: MassUnit;
+  DietaryFiber: MassUnit;
+  DietaryWater: VolumeUnit;
+  DietaryCaffeine: MassUnit;
+  DietarySugar: MassUnit;
+  DietaryFatSaturated: MassUnit;
+  DietaryFatMonounsaturated: MassUnit;
+  DietaryFatPolyunsaturated: MassUnit;
+  DietaryCholesterol: MassUnit;
+  DietarySodium: MassUnit;
+  DietaryVitaminA: MassUnit;
+  DietaryThiamin: MassUnit;
+  DietaryRiboflavin: MassUnit;
+  DietaryNiacin: MassUnit;
+  DietaryPantothenicAcid: MassUnit;
+  DietaryVitaminB6: MassUnit;
+  DietaryBiotin: MassUnit;
+  DietaryFolate: MassUnit;
+  DietaryVitaminB12: MassUnit;
+  DietaryVitaminC: MassUnit;
+  DietaryVitaminD: MassUnit;
+  DietaryVitaminE: MassUnit;
+  DietaryVitaminK: MassUnit;
+  DietaryCalcium: MassUnit;
+  DietaryChloride: MassUnit;
+  DietaryIron: MassUnit;
+  DietaryMagnesium: MassUnit;
+  DietaryPhosphorus: MassUnit;
+  DietaryPotassium: MassUnit;
+  DietaryZinc: MassUnit;
+  DietaryChromium: MassUnit;
+  DietaryCopper: MassUnit;
+  DietaryIodine: MassUnit;
+  DietaryManganese: MassUnit;
+  DietaryMolybdenum: MassUnit;
+  DietarySelenium: MassUnit;
+  SleepAnalysis: TimeUnit;
+  MindfulMinutes: TimeUnit;
+}
+
+/**
+ * The units a data type can be read and written in, e.g.
+ * `UnitFor<'Weight'>` is `MassUnit`
+ */
+export type UnitFor<T extends DataType> = CanonicalUnitMap[CanonicalOf<T>];
+
+/**
+ * The unit every value crosses the bridge in, per data type
+ */
+export const CANONICAL_UNITS: Record<CanonicalDataType, Unit | null> = {
+  Workout: null,
+  StepCount: 'count',
+  DistanceWalkingRunning: 'm',
+  DistanceCycling: 'm',
+  DistanceSwimming: 'm',
+  FlightsClimbed: 'count',
+  ActiveEnergyBurned: 'kcal',
+  BasalEnergyBurned: 'kcal',
+  Height: 'cm',
+  BodyMass: 'kg',
+  BodyMassIndex: 'count',
+  BodyFatPercentage: '%',
+  LeanBodyMass: 'kg',
+  HeartRate: 'count/min',
+  RestingHeartRate: 'count/min',
+  HeartRateVariability: 'ms',
+  BloodPressureSystolic: 'mmHg',
+  BloodPressureDiastolic: 'mmHg',
+  RespiratoryRate: 'count/min',
+  OxygenSaturation: 'fraction',
+  BodyTemperature: 'degC',
+  DietaryEnergy: 'kcal',
+  DietaryProtein: 'g',
+  DietaryCarbohydrates: 'g',
+  DietaryFatTotal: 'g',
+  DietaryFiber: 'g',
+  DietaryWater: 'mL',
+  DietaryCaffeine: 'mg',
+  DietarySugar: 'g',
+  DietaryFatSaturated: 'g',
+  DietaryFatMonounsaturated: 'g',
+  DietaryFatPolyunsaturated: 'g',
+  DietaryCholesterol: 'mg',
+  DietarySodium: 'mg',
+  DietaryVitaminA: 'mcg',
+  DietaryThiamin: 'mg',
+  DietaryRiboflavin: 'mg',
+  DietaryNiacin: 'mg',
+  DietaryPantothenicAcid: 'mg',
+  DietaryVitaminB6: 'mg',
+  DietaryBiotin: 'mcg',
+  DietaryFolate: 'mcg',
+  DietaryVitaminB12: 'mcg',
+  DietaryVitaminC: 'mg',
+  DietaryVitaminD: 'mcg',
+  DietaryVitaminE: 'mg',
+  DietaryVitaminK: 'mcg',
+  DietaryCalcium: 'mg',
+  DietaryChloride: 'mg',
+  DietaryIron: 'mg',
+  DietaryMagnesium: 'mg',
+  DietaryPhosphorus: 'mg',
+  DietaryPotassium: 'mg',
+  DietaryZinc: 'mg',
+  DietaryChromium: 'mcg',
+  DietaryCopper: 'mg',
+  DietaryIodine: 'mcg',
+  DietaryManganese: 'mg',
+  DietaryMolybdenum: 'mcg',
+  DietarySelenium: 'mcg',
+  SleepAnalysis: 's',
+  MindfulMinutes: 's',
+};
+
+interface UnitDefinition {
+  dimension: Dimension;
+  /** Multiplier to the base unit of the dimension */
+  factor: number;
+  /** Added after multiplying, for temperatures */
+  offset?: number;
+}
+
+// Base units: m, g, mL, kcal, s, mmHg, K, fraction, count/min, count
+const UNIT_DEFINITIONS: Record<Unit, UnitDefinition> = {
+  // Length
+  m: { dimension: 'length', factor: 1 },
+  km: { dimension: 'length', factor: 1000 },
+  cm: { dimension: 'length', factor: 0.01 },
+  mm: { dimension: 'length', factor: 0.001 },
+  mi: { dimension: 'length', factor: 1609.344 },
+  yd: { dimension: 'length', factor: 0.9144 },
+  ft: { dimension: 'length', factor: 0.3048 },
+  in: { dimension: 'length', factor: 0.0254 },
+
+  // Mass
+  kg: { dimension: 'mass', factor: 1000 },
+  g: { dimension: 'mass', factor: 1 },
+  mg: { dimension: 'mass', factor: 0.001 },
+  mcg: { dimension: 'mass', factor: 0.000001 },
+  lb: { dimension: 'mass', factor: 453.59237 },
+  oz: { dimension: 'mass', factor: 28.349523125 },
+  st: { dimension: 'mass', factor: 6350.29318 },
+
+  // Volume
+  mL: { dimension: 'volume', factor: 1 },
+  L: { dimension: 'volume', factor: 1000 },
+  fl_oz_us: { dimension: 'volume', factor: 29.5735295625 },
+  fl_oz_imp: { dimension: 'volume', factor: 28.4130625 },
+  cup_us: { dimension: 'volume', factor: 236.5882365 },
+
+  // Energy
+  kcal: { dimension: 'energy', factor: 1 },
+  kJ: { dimension: 'energy', factor: 1 / 4.184 },
+
+  // Time
+  ms: { dimension: 'time', factor: 0.001 },
+  s: { dimension: 'time', factor: 1 },
+  min: { dimension: 'time', factor: 60 },
+  hr: { dimension: 'time', factor: 3600 },
+
+  // Pressure
+  mmHg: { dimension: 'pressure', factor: 1 },
+  kPa: { dimension: 'pressure', factor: 7.50061683 },
+
+  // Temperature
+  K: { dimension: 'temperature', factor: 1, offset: 0 },
+  degC: { dimension: 'temperature', factor: 1, offset: 273.15 },
+  degF: { dimension: 'temperature', factor: 5 / 9, offset: 273.15 - (32 * 5) / 9 },
+
+  // Ratio
+  fraction: { dimension: 'ratio', factor: 1 },
+  '%': { dimension: 'ratio', factor: 0.01 },
+
+  // Frequency
+  'count/min': { dimension: 'frequency', factor: 1 },
+  'count/s': { dimension: 'frequency', factor: 60 },
+
+  // Count
+  count: { dimension: 'count', factor: 1 },
+};
+
+// A Map, so names like 'constructor' do not find Object.prototype members
+const UNITS = new Map<string, UnitDefinition>(Object.entries(UNIT_DEFINITIONS));
+
+function requireUnit(unit: string): UnitDefinition {
+  const definition = UNITS.get(unit);
+  if (!definition) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `Unknown unit: ${unit}`);
+  }
+  return definition;
+}
+
+/**
+ * Get the dimension a unit measures
+ * @param unit - Any supported unit
+ */
+export function getDimension(unit: Unit): Dimension {
+  return requireUnit(unit).dimension;
+}
+
+/**
+ * Convert a value between two units of the same dimension
+ * @param value - The value to convert
+ * @param from - The unit of `value`
+ * @param to - The unit to convert to
+ * @throws HealthKitError with `ERR_HEALTHKIT_INVALID_ARGUMENT` if the units measure different things
+ */
+export function convert(value: number, from: Unit, to: Unit): number {
+  if (from === to) {
+    return value;
+  }
+  const source = requireUnit(from);
+  const target = requireUnit(to);
+  if (source.dimension !== target.dimension) {
+    throw new HealthKitError(
+      'ERR_HEALTHKIT_INVALID_ARGUMENT',
+      `Cannot convert ${source.dimension} (${from}) to ${target.dimension} (${to})`
+    );
+  }
+  const base = value * source.factor + (source.offset ?? 0);
+  return (base - (target.offset ?? 0)) / target.factor;
+}
+
+/**
+ * Get the unit a data type crosses the bridge in
+ * @param type - Any data type alias
+ * @returns The canonical unit, or null for workouts and unknown types
+ */
+export function getCanonicalUnit<T extends DataType>(type: T): UnitFor<T> | null {
+  const canonical = resolveDataType(type);
+  return canonical ? (CANONICAL_UNITS[canonical] as UnitFor<T> | null) : null;
+}
+
+/**
+ * Check whether a data type can be read or written in a unit
+ * @param type - Any data type alias
+ * @param unit - The unit to check
+ */
+export function isUnitCompatible(type: DataType, unit: Unit): boolean {
+  const canonicalUnit = getCanonicalUnit(type);
+  return canonicalUnit !== null && UNITS.has(unit) && getDimension(canonicalUnit) === getDimension(unit);
+}
+
+function requireCanonicalUnit(type: DataType, unit: Unit): Unit {
+  const canonicalUnit = getCanonicalUnit(type);
+  if (canonicalUnit === null || !isUnitCompatible(type, unit)) {
+    throw new HealthKitError('ERR_HEALTHKIT_INVALID_ARGUMENT', `${type} cannot be expressed in ${unit}`);
+  }
+  return canonicalUnit;
+}
+
+/**
+ * Convert a value from a caller's unit to the data type's canonical unit
+ * @param type - Any data type alias
+ * @param value - The value in `unit`
+ * @param unit - The caller's unit; the value is returned as-is when omitted
+ */
+export function toCanonicalUnit<T extends DataType>(type: T, value: number, unit?: UnitFor<T>): number {
+  if (unit === undefined) {
+    return value;
+  }
+  return convert(value, unit, requireCanonicalUnit(type, unit));
+}
+
+/**
+ * Convert a value from the data type's canonical unit to a caller's unit
+ * @param type - Any data type alias
+ * @param value - The value in the canonical unit
+ * @param unit - The caller's unit; the value is returned as-is when omitted
+ */
+export function fromCanonicalUnit<T extends DataType>(type: T, value: number, unit?: UnitFor<T>): number {
+  if (unit === undefined) {
+    return value;
+  }
+  return convert(value, requireCanonicalUnit(type, unit), unit);
+}
+
+/**
+ * Convert a height given in feet and inches to centimeters
+ * @param feet - Whole feet
+ * @param inches - Remaining inches (default 0)
+ */
+export function feetAndInchesToCentimeters(feet: number, inches = 0): number {
+  return convert(feet, 'ft', 'cm') + convert(inches, 'in', 'cm');
+}
+
+/**
+ * Split a height in centimeters into feet and inches
+ * @param centimeters - Height in centimeters
+ * @returns Whole feet and remaining inches, rounded to one decimal
+ */
+export function centimetersToFeetAndInches(centimeters: number): { feet: number; inches: number } {
+  const totalInches = convert(centimeters, 'cm', 'in');
+  let feet = Math.floor(totalInches / 12);
+  let inches = Math.round((totalInches - feet * 12) * 10) / 10;
+  if (inches >= 12) {
+    feet += 1;
+    inches -= 12;
+  }
+  return { feet, inches };
+}
@@ -0,0 +1,11 @@
+/**
+ * Create a random version 4 UUID, upper-case like HealthKit's sample UUIDs
+ */
+export function createUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'
+    .replace(/[xy]/g, (c) => {
+      const r = (Math.random() * 16) | 0;
+      return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    })
+    .toUpperCase();
+}
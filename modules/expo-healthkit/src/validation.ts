@@ -0,0 +1,288 @@
+import { resolveDataType } from './dataTypes';
+import type { CanonicalDataType } from './dataTypes';
+import { HealthKitError } from './errors';
+import type { DataType } from './types';
+
+/**
+ * How values are checked before they are written:
+ * - `strict`: reject with a `HealthKitValidationError`
+ * - `lenient`: write anyway and report a warning
+ * - `off`: no bounds checks
+ *
+ * NaN and infinite values are rejected in every mode.
+ */
+export type ValidationMode = 'strict' | 'lenient' | 'off';
+
+/**
+ * Inclusive bounds for a single value, in the data type's canonical unit
+ */
+export interface ValueBounds {
+  min: number;
+  max: number;
+}
+
+export interface ValidationIssue {
+  /** The data type or field the value belongs to */
+  field: CanonicalDataType | 'WorkoutDuration' | 'WorkoutDistance' | 'WorkoutCalories';
+  value: number;
+  message: string;
+  bounds?: ValueBounds;
+}
+
+export interface ValidationConfig {
+  mode: ValidationMode;
+  /** Per-type overrides of the default bounds */
+  bounds: Partial<Record<CanonicalDataType, ValueBounds>>;
+  /** Receives issues in lenient mode (defaults to console.warn) */
+  onWarning: (issues: ValidationIssue[]) => void;
+}
+
+/**
+ * Default bounds, chosen to reject impossible values rather than unusual
+ * ones. Values are in each type's canonical unit (see `CANONICAL_UNITS`).
+ * Cumulative types are bounds per sample.
+ */
+export const DEFAULT_BOUNDS: Partial<Record<CanonicalDataType, ValueBounds>> = {
+  // Activity & Fitness
+  StepCount: { min: 0, max: 100000 },
+  DistanceWalkingRunning: { min: 0, max: 500000 },
+  DistanceCycling: { min: 0, max: 1000000 },
+  DistanceSwimming: { min: 0, max: 100000 },
+  FlightsClimbed: { min: 0, max: 1000 },
+  ActiveEnergyBurned: { min: 0, max: 20000 },
+  BasalEnergyBurned: { min: 0, max: 10000 },
+
+  // Body Measurements
+  Height: { min: 30, max: 275 },
+  BodyMass: { min: 0.5, max: 650 },
+  BodyMassIndex: { min: 5, max: 150 },
+  BodyFatPercentage: { min: 1, max: 75 },
+  LeanBodyMass: { min: 0.5, max: 400 },
+
+  // Vitals
+  HeartRate: { min: 20, max: 300 },
+  RestingHeartRate: { min: 20, max: 200 },
+  HeartRateVariability: { min: 1, max: 500 },
+  BloodPressureSystolic: { min: 50, max: 300 },
+  BloodPressureDiastolic: { min: 20, max: 200 },
+  RespiratoryRate: { min: 3, max: 80 },
+  OxygenSaturation: { min: 0.5, max: 1 },
+  BodyTemperature: { min: 25, max: 45 },
+
+  // Nutrition
+  DietaryEnergy: { min: 0, max: 10000 },
+  DietaryProtein: { min: 0, max: 1000 },
+  DietaryCarbohydrates: { min: 0, max: 1000 },
+  DietaryFatTotal: { min: 0, max: 1000 },
+  DietaryFiber: { min: 0, max: 200 },
+  DietaryWater: { min: 0, max: 5000 },
+  DietaryCaffeine: { min: 0, max: 1000 },
+  DietarySugar: { min: 0, max: 1000 },
+  DietaryFatSaturated: { min: 0, max: 1000 },
+  DietaryFatMonounsaturated: { min: 0, max: 1000 },
+  DietaryFatPolyunsaturated: { min: 0, max: 1000 },
+  DietaryCholesterol: { min: 0, max: 10000 },
+  DietarySodium: { min: 0, max: 50000 },
+  DietaryPotassium: { min: 0, max: 50000 },
+
+  // Vitamins and minerals, with room for high-dose supplements
+  DietaryVitaminA: { min: 0, max: 100000 },
+  DietaryThiamin: { min: 0, max: 1000 },
+  DietaryRiboflavin: { min: 0, max: 1000 },
+  DietaryNiacin: { min: 0, max: 5000 },
+  DietaryPantothenicAcid: { min: 0, max: 5000 },
+  DietaryVitaminB6: { min: 0, max: 1000 },
+  DietaryBiotin: { min: 0, max: 100000 },
+  DietaryFolate: { min: 0, max: 50000 },
+  DietaryVitaminB12: { min: 0, max: 50000 },
+  DietaryVitaminC: { min: 0, max: 50000 },
+  DietaryVitaminD: { min: 0, max: 10000 },
+  DietaryVitaminE: { min: 0, max: 5000 },
+  DietaryVitaminK: { min: 0, max: 50000 },
+  DietaryCalcium: { min: 0, max: 10000 },
+  DietaryChloride: { min: 0, max: 50000 },
+  DietaryIron: { min: 0, max: 1000 },
+  DietaryMagnesium: { min: 0, max: 10000 },
+  DietaryPhosphorus: { min: 0, max: 20000 },
+  DietaryZinc: { min: 0, max: 1000 },
+  DietaryChromium: { min: 0, max: 10000 },
+  DietaryCopper: { min: 0, max: 100 },
+  DietaryIodine: { min: 0, max: 50000 },
+  DietaryManganese: { min: 0, max: 500 },
+  DietaryMolybdenum: { min: 0, max: 10000 },
+  DietarySelenium: { min: 0, max: 10000 },
+};
+
+const config: ValidationConfig = {
+  mode: 'strict',
+  bounds: {},
+  onWarning: (issues) => {
+    console.warn(`[expo-healthkit] ${issues.map((issue) => issue.message).join('; ')}`);
+  },
+};
+
+/**
+ * Thrown in strict mode when a value fails validation.
+ * It is a `HealthKitError` with code `ERR_HEALTHKIT_INVALID_ARGUMENT`.
+ */
+export class HealthKitValidationError extends HealthKitError {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super('ERR_HEALTHKIT_INVALID_ARGUMENT', issues.map((issue) => issue.message).join('; '));
+    this.name = 'HealthKitValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Configure validation for the whole app
+ * @param options - Mode, bound overrides keyed by any data type alias, and warning handler
+ */
+export function configureValidation(
+  options: {
+    mode?: ValidationMode;
+    bounds?: Partial<Record<DataType, ValueBounds>>;
+    onWarning?: (issues: ValidationIssue[]) => void;
+  } = {}
+): void {
+  if (options.mode) {
+    config.mode = options.mode;
+  }
+  if (options.onWarning) {
+    config.onWarning = options.onWarning;
+  }
+  for (const [type, bounds] of Object.entries(options.bounds ?? {})) {
+    const canonical = resolveDataType(type);
+    if (canonical && bounds) {
+      config.bounds[canonical] = bounds;
+    }
+  }
+}
+
+/**
+ * Get the current validation mode
+ */
+export function getValidationMode(): ValidationMode {
+  return config.mode;
+}
+
+/**
+ * Get the bounds a data type is validated against
+ * @param type - Any data type alias
+ * @returns The bounds, or null if the type has none
+ */
+export function getValueBounds(type: DataType): ValueBounds | null {
+  const canonical = resolveDataType(type);
+  if (!canonical) {
+    return null;
+  }
+  return config.bounds[canonical] ?? DEFAULT_BOUNDS[canonical] ?? null;
+}
+
+/**
+ * Check a single value against the bounds of its data type
+ * @param type - Any data type alias
+ * @param value - The value, in the data type's canonical unit
+ * @returns The problems found, empty if the value is valid
+ */
+export function validateValue(type: DataType, value: number): ValidationIssue[] {
+  const field = resolveDataType(type);
+  if (!field) {
+    return [];
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return [{ field, value, message: `${field} must be a finite number, got ${value}` }];
+  }
+
+  const bounds = getValueBounds(field);
+  if (bounds && (value < bounds.min || value > bounds.max)) {
+    return [
+      {
+        field,
+        value,
+        bounds,
+        message: `${field} must be between ${bounds.min} and ${bounds.max}, got ${value}`,
+      },
+    ];
+  }
+  return [];
+}
+
+/**
+ * Check a blood pressure reading: both values in bounds and systolic
+ * above diastolic
+ * @param systolic - Systolic pressure in mmHg
+ * @param diastolic - Diastolic pressure in mmHg
+ */
+export function validateBloodPressure(systolic: number, diastolic: number): ValidationIssue[] {
+  const issues = [
+    ...validateValue('BloodPressureSystolic', systolic),
+    ...validateValue('BloodPressureDiastolic', diastolic),
+  ];
+  if (issues.length === 0 && systolic <= diastolic) {
+    issues.push({
+      field: 'BloodPressureSystolic',
+      value: systolic,
+      message: `Systolic pressure (${systolic}) must be higher than diastolic pressure (${diastolic})`,
+    });
+  }
+  return issues;
+}
+
+type WorkoutField = 'WorkoutDuration' | 'WorkoutDistance' | 'WorkoutCalories';
+
+function validateNonNegative(field: WorkoutField, value: number): ValidationIssue[] {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    return [{ field, value, message: `${field} must be a non-negative number, got ${value}` }];
+  }
+  return [];
+}
+
+/**
+ * Check the numbers of a workout
+ * @param workout - Duration in seconds, distance in meters, calories in kcal,
+ * and the length of the workout window in seconds
+ */
+export function validateWorkout(workout: {
+  duration: number;
+  distance: number;
+  calories: number;
+  window: number;
+}): ValidationIssue[] {
+  const issues = [
+    ...validateNonNegative('WorkoutDuration', workout.duration),
+    ...validateNonNegative('WorkoutDistance', workout.distance),
+    ...validateNonNegative('WorkoutCalories', workout.calories),
+  ];
+  // Allow a second of rounding between the duration and the window
+  if (issues.length === 0 && workout.duration > workout.window + 1) {
+    issues.push({
+      field: 'WorkoutDuration',
+      value: workout.duration,
+      bounds: { min: 0, max: workout.window },
+      message: `Workout duration (${workout.duration}s) is longer than its start-to-end window (${workout.window}s)`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Apply the configured mode to a set of issues. NaN and infinite values are
+ * never saved, whatever the mode: HealthKit would store them as they are.
+ * @throws HealthKitValidationError in strict mode if there are any issues,
+ * and in every mode if a value is not a finite number
+ */
+export function enforceValidation(issues: ValidationIssue[]): void {
+  const notFinite = issues.filter((issue) => typeof issue.value !== 'number' || !Number.isFinite(issue.value));
+  if (notFinite.length > 0) {
+    throw new HealthKitValidationError(notFinite);
+  }
+  if (issues.length === 0 || config.mode === 'off') {
+    return;
+  }
+  if (config.mode === 'strict') {
+    throw new HealthKitValidationError(issues);
+  }
+  config.onWarning(issues);
+}
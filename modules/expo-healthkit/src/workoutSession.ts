@@ -0,0 +1,373 @@
+import { getHeartRateSamples, queryQuantitySamples, queryWorkouts, saveWorkout } from './ExpoHealthKit';
+import { epochSeconds } from './dates';
+import { HealthKitError, normalizeError } from './errors';
+import { subscribe } from './subscriptions';
+import type { ActivityType, Workout, WorkoutData, WorkoutEvent, WorkoutMetadata, WorkoutUnits } from './types';
+import { fromCanonicalUnit } from './units';
+
+/**
+ * - `running` / `paused`: the session is recording, or paused by the user
+ * - `ending`: `end()` is saving the workout
+ * - `ended`: the workout was saved
+ * - `discarded`: the session was thrown away without saving
+ */
+export type WorkoutSessionState = 'running' | 'paused' | 'ending' | 'ended' | 'discarded';
+
+/**
+ * The states a session can move to from each state. While `ending`, only
+ * the save can move it on; if the save fails, the session goes back to
+ * where it was.
+ */
+export const WORKOUT_SESSION_TRANSITIONS: Readonly<Record<WorkoutSessionState, readonly WorkoutSessionState[]>> = {
+  running: ['paused', 'ending', 'discarded'],
+  paused: ['running', 'ending', 'discarded'],
+  ending: ['ended'],
+  ended: [],
+  discarded: [],
+};
+
+/**
+ * Live values of a session. Distance and energy are summed from the samples
+ * saved since the session started, e.g. by a paired Apple Watch.
+ */
+export interface WorkoutSessionMetrics {
+  /** Seconds of activity: the time since the start less the pauses */
+  elapsed: number;
+  /** The latest heart rate in bpm, or null before the first sample */
+  heartRate: number | null;
+  /** Meters, or in `units.distance` */
+  distance: number;
+  /** Kilocalories of active energy, or in `units.energy` */
+  energy: number;
+}
+
+export interface WorkoutSessionStateChange {
+  from: WorkoutSessionState;
+  to: WorkoutSessionState;
+}
+
+export interface WorkoutSessionOptions {
+  /** Saved with the workout */
+  metadata?: WorkoutMetadata;
+  /** Units of the metrics, the metadata and the saved workout */
+  units?: WorkoutUnits;
+  /** How often metrics are emitted while running, in milliseconds (default 1000) */
+  tickIntervalMs?: number;
+  /** Receives errors reading heart rate, distance or energy (defaults to console.warn) */
+  onError?: (error: HealthKitError) => void;
+}
+
+type SessionAction = 'pause' | 'resume' | 'end' | 'discard';
+
+const DEFAULT_TICK_INTERVAL_MS = 1000;
+
+function distanceTypeFor(activityType: ActivityType) {
+  switch (activityType) {
+    case 'cycling':
+    case 'handCycling':
+      return 'DistanceCycling';
+    case 'swimming':
+      return 'DistanceSwimming';
+    default:
+      return 'DistanceWalkingRunning';
+  }
+}
+
+function nowInSeconds(): number {
+  return Date.now() / 1000;
+}
+
+/**
+ * A workout being recorded. Create one with `startWorkout`.
+ */
+export class WorkoutSession {
+  readonly activityType: ActivityType;
+  /** When the session started, in seconds since epoch */
+  readonly startDate: number;
+
+  private currentState: WorkoutSessionState = 'running';
+  private readonly distanceType: ReturnType<typeof distanceTypeFor>;
+  private readonly metadata: WorkoutMetadata;
+  private readonly units: WorkoutUnits;
+  private readonly tickIntervalMs: number;
+  private readonly onError: (error: HealthKitError) => void;
+  private readonly events: { type: 'pause' | 'resume'; date: number }[] = [];
+  private pausedAt: number | null = null;
+  private pausedSeconds = 0;
+  // Canonical units; converted when emitted
+  private heartRate: number | null = null;
+  private distance = 0;
+  private energy = 0;
+  private refreshes = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private unsubscribes: (() => void)[] = [];
+  private readonly metricsListeners = new Set<(metrics: WorkoutSessionMetrics) => void>();
+  private readonly stateListeners = new Set<(change: WorkoutSessionStateChange) => void>();
+
+  constructor(activityType: ActivityType, options: WorkoutSessionOptions = {}) {
+    this.activityType = activityType;
+    this.startDate = nowInSeconds();
+    this.distanceType = distanceTypeFor(activityType);
+    this.metadata = options.metadata ?? {};
+    this.units = options.units ?? {};
+    this.tickIntervalMs = options.tickIntervalMs ?? DEFAULT_TICK_INTERVAL_MS;
+    this.onError =
+      options.onError ??
+      ((error) => console.warn(`[expo-healthkit] Workout session could not read metrics: ${error.message}`));
+    this.startUpdates();
+  }
+
+  get state(): WorkoutSessionState {
+    return this.currentState;
+  }
+
+  get metrics(): WorkoutSessionMetrics {
+    return {
+      elapsed: this.elapsedAt(nowInSeconds()),
+      heartRate: this.heartRate,
+      distance: fromCanonicalUnit(this.distanceType, this.distance, this.units.distance),
+      energy: fromCanonicalUnit('ActiveEnergyBurned', this.energy, this.units.energy),
+    };
+  }
+
+  /**
+   * Get the metrics every tick while running, and whenever new heart rate,
+   * distance or energy samples arrive
+   * @returns A function that removes the listener
+   */
+  onMetrics(listener: (metrics: WorkoutSessionMetrics) => void): () => void {
+    this.metricsListeners.add(listener);
+    return () => {
+      this.metricsListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get notified of every state change
+   * @returns A function that removes the listener
+   */
+  onStateChange(listener: (change: WorkoutSessionStateChange) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Pause a running session. Elapsed time stops until `resume()`.
+   */
+  async pause(): Promise<void> {
+    this.assertCanMove('paused', 'pause');
+    this.pausedAt = nowInSeconds();
+    this.events.push({ type: 'pause', date: this.pausedAt });
+    this.setState('paused');
+    this.emitMetrics();
+  }
+
+  /**
+   * Resume a paused session
+   */
+  async resume(): Promise<void> {
+    this.assertCanMove('running', 'resume');
+    const now = nowInSeconds();
+    this.pausedSeconds += now - (this.pausedAt ?? now);
+    this.pausedAt = null;
+    this.events.push({ type: 'resume', date: now });
+    this.setState('running');
+    this.emitMetrics();
+  }
+
+  /**
+   * End the session and save it as a workout, with its pauses as events.
+   * If the workout cannot be saved, the session goes back to where it was
+   * and the error is rethrown, so `end()` can be tried again.
+   * @returns The saved workout
+   */
+  async end(): Promise<Workout> {
+    const previous = this.currentState;
+    this.assertCanMove('ending', 'end');
+    const endDate = nowInSeconds();
+    this.setState('ending');
+    this.stopUpdates();
+    await this.refresh();
+
+    const metrics = { ...this.metrics, elapsed: this.elapsedAt(endDate) };
+    const workout: WorkoutData = {
+      activityType: this.activityType,
+      startDate: epochSeconds(this.startDate),
+      endDate: epochSeconds(endDate),
+      duration: metrics.elapsed,
+      distance: metrics.distance,
+      calories: metrics.energy,
+      metadata: this.metadata,
+      events: this.events.map((event) => ({ type: event.type, startDate: epochSeconds(event.date) })),
+      units: this.units,
+    };
+
+    let id: string;
+    try {
+      id = await saveWorkout(workout);
+    } catch (error) {
+      // Not a transition the caller can make, so it skips assertCanMove
+      this.setState(previous);
+      this.startUpdates();
+      throw normalizeError(error);
+    }
+
+    const saved = await this.readSavedWorkout(id, endDate, metrics);
+    this.assertCanMove('ended', 'end');
+    this.setState('ended');
+    return saved;
+  }
+
+  /**
+   * Stop the session without saving anything
+   */
+  async discard(): Promise<void> {
+    this.assertCanMove('discarded', 'discard');
+    this.stopUpdates();
+    this.setState('discarded');
+  }
+
+  private assertCanMove(to: WorkoutSessionState, action: SessionAction): void {
+    if (!WORKOUT_SESSION_TRANSITIONS[this.currentState].includes(to)) {
+      throw new HealthKitError(
+        'ERR_HEALTHKIT_INVALID_STATE',
+        `Cannot ${action} the workout session: it is ${this.currentState}`
+      );
+    }
+  }
+
+  private setState(to: WorkoutSessionState): void {
+    const from = this.currentState;
+    this.currentState = to;
+    this.stateListeners.forEach((listener) => listener({ from, to }));
+  }
+
+  private elapsedAt(date: number): number {
+    const pausing = this.pausedAt === null ? 0 : date - this.pausedAt;
+    return Math.max(0, date - this.startDate - this.pausedSeconds - pausing);
+  }
+
+  private isLive(): boolean {
+    return this.currentState === 'running' || this.currentState === 'paused';
+  }
+
+  private emitMetrics(): void {
+    const metrics = this.metrics;
+    this.metricsListeners.forEach((listener) => listener(metrics));
+  }
+
+  private startUpdates(): void {
+    const refreshAndEmit = () => {
+      this.refresh().then(() => {
+        if (this.isLive()) {
+          this.emitMetrics();
+        }
+      });
+    };
+    this.unsubscribes = (['HeartRate', this.distanceType, 'ActiveEnergyBurned'] as const).map((type) =>
+      subscribe(type, refreshAndEmit, { onError: this.onError })
+    );
+    this.timer = setInterval(() => {
+      if (this.currentState === 'running') {
+        this.emitMetrics();
+      }
+    }, this.tickIntervalMs);
+    refreshAndEmit();
+  }
+
+  private stopUpdates(): void {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes = [];
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Reads every metric since the start. Never rejects: failures go to onError
+  // and the last known values are kept.
+  private async refresh(): Promise<void> {
+    const refresh = ++this.refreshes;
+    const range = { startDate: epochSeconds(this.startDate), endDate: new Date() };
+    const [heartRate, distance, energy] = await Promise.allSettled([
+      getHeartRateSamples(range.startDate, range.endDate, 1),
+      queryQuantitySamples(this.distanceType, range),
+      queryQuantitySamples('ActiveEnergyBurned', range),
+    ]);
+    // A later refresh has newer values
+    if (refresh !== this.refreshes) {
+      return;
+    }
+
+    if (heartRate.status === 'fulfilled') {
+      this.heartRate = heartRate.value[0]?.value ?? null;
+    }
+    if (distance.status === 'fulfilled') {
+      this.distance = distance.value.reduce((sum, sample) => sum + sample.value, 0);
+    }
+    if (energy.status === 'fulfilled') {
+      this.energy = energy.value.reduce((sum, sample) => sum + sample.value, 0);
+    }
+    [heartRate, distance, energy].forEach((result) => {
+      if (result.status === 'rejected') {
+        this.onError(normalizeError(result.reason));
+      }
+    });
+  }
+
+  // Reading the workout back needs read access to workouts; without it the
+  // workout is built from what was saved
+  private async readSavedWorkout(id: string, endDate: number, metrics: WorkoutSessionMetrics): Promise<Workout> {
+    try {
+      const workouts = await queryWorkouts(
+        { startDate: epochSeconds(this.startDate), endDate: epochSeconds(endDate + 1) },
+        this.units
+      );
+      const saved = workouts.find((workout) => workout.id === id);
+      if (saved) {
+        return saved;
+      }
+    } catch {
+      // Fall back to the saved values below
+    }
+
+    return {
+      id,
+      activityType: this.activityType,
+      startDate: this.startDate,
+      endDate,
+      duration: metrics.elapsed,
+      distance: metrics.distance,
+      calories: metrics.energy,
+      metadata: { ...this.metadata },
+      events: this.events.map(
+        (event): WorkoutEvent => ({ type: event.type, startDate: event.date, endDate: event.date, metadata: {} })
+      ),
+    };
+  }
+}
+
+/**
+ * Start recording a workout. The session emits elapsed time every tick and
+ * heart rate, distance and energy as samples arrive, and saves the workout
+ * when it ends:
+ *
+ * ```ts
+ * const session = startWorkout('running');
+ * session.onMetrics(({ elapsed, heartRate, distance }) => render(elapsed, heartRate, distance));
+ * await session.pause();
+ * await session.resume();
+ * const workout = await session.end();
+ * ```
+ *
+ * Calls that the current state does not allow, such as resuming an ended
+ * session, reject with `ERR_HEALTHKIT_INVALID_STATE`.
+ * @param activityType - The kind of workout
+ * @param options - Metadata, units, tick interval and error handler
+ * @returns A running session
+ */
+export function startWorkout(activityType: ActivityType, options: WorkoutSessionOptions = {}): WorkoutSession {
+  return new WorkoutSession(activityType, options);
+}
@@ -0,0 +1,27 @@
+import type { CanonicalDataType } from './dataTypes';
+
+/**
+ * Receives the data types a successful save or delete wrote to
+ */
+export type WriteListener = (types: CanonicalDataType[]) => void;
+
+const listeners = new Set<WriteListener>();
+
+/**
+ * Listen for writes made through this module, e.g. to refresh or
+ * invalidate data read earlier
+ * @returns A function that removes the listener
+ */
+export function addWriteListener(listener: WriteListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Tell listeners that a write to these types succeeded
+ */
+export function notifyWrite(...types: CanonicalDataType[]): void {
+  listeners.forEach((listener) => listener(types));
+}